@@ -0,0 +1,347 @@
+// client/differential-test.ts
+import { describe, it, before } from "node:test";
+import assert from "node:assert";
+import {
+  AccountRole,
+  appendTransactionMessageInstructions,
+  createKeyPairSignerFromBytes,
+  createTransactionMessage,
+  generateKeyPairSigner,
+  getCompiledTransactionMessageDecoder,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+  type AccountMeta,
+  type Address,
+  type Instruction,
+  type KeyPairSigner,
+} from "@solana/kit";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+import {
+  findVaultPda,
+  getCloseVaultInstruction,
+  getDelegateWithdrawInstruction,
+  getDepositInstruction,
+  getRevokeDelegateInstruction,
+  getSetDelegateInstruction,
+  getWithdrawAmountInstruction,
+  getWithdrawInstruction,
+} from "../clients/js/src/generated";
+import {
+  VaultProgramModel,
+  type VaultModelError,
+  type VaultModelInstructionError,
+} from "../clients/js/src/model";
+import { startTestHarness, type TestHarness } from "./harness";
+
+// Runs random instruction sequences against the program and the reference
+// model; set DIFF_SEED to replay a failing run
+// / 对程序和参考模型运行随机指令序列；设置 DIFF_SEED 可重放失败的运行
+const SEED = Number(process.env.DIFF_SEED ?? Date.now() % 2 ** 32);
+const SEQUENCES = Number(process.env.DIFF_SEQUENCES ?? 5);
+const STEPS = Number(process.env.DIFF_STEPS ?? 25);
+const ACTORS = 3;
+// Small balances so that rent and insufficient funds errors come up often
+// / 余额较小，以便经常触发租金和资金不足错误
+const ACTOR_FUNDING = 5_000_000n;
+const U64_MAX = 2n ** 64n - 1n;
+
+// Display strings of the `InstructionError` variants the program can raise
+// / 程序可能引发的 `InstructionError` 变体的显示字符串
+const INSTRUCTION_ERROR_MESSAGES: Record<string, VaultModelInstructionError> = {
+  "invalid instruction data": "InvalidInstructionData",
+  "insufficient account keys for instruction": "NotEnoughAccountKeys",
+  "insufficient funds for instruction": "InsufficientFunds",
+  "Cross-program invocation with unauthorized signer or writable account":
+    "PrivilegeEscalation",
+};
+
+type Actor = { signer: KeyPairSigner; vault: Address };
+
+/** mulberry32: small, seedable and good enough to pick test inputs. */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  return {
+    int,
+    bigint: (max: bigint) =>
+      max <= 0n ? 0n : BigInt(Math.floor(next() * Number(max))),
+    pick: <T>(items: readonly T[]): T => items[int(items.length)],
+    chance: (probability: number) => next() < probability,
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+/** Converts a bank error message to the model's error shape. */
+function parseBankError(
+  message: string,
+  accountKeys: readonly Address[],
+): VaultModelError | { Unrecognized: string } {
+  const rent =
+    /^Transaction results in an account \((\d+)\) with insufficient funds for rent$/.exec(
+      message,
+    );
+  if (rent) {
+    return {
+      InsufficientFundsForRent: { account: accountKeys[Number(rent[1])] },
+    };
+  }
+  const instruction = /^Error processing Instruction (\d+): (.*)$/.exec(
+    message,
+  );
+  if (instruction) {
+    const custom = /^custom program error: 0x([0-9a-f]+)$/.exec(instruction[2]);
+    const name = INSTRUCTION_ERROR_MESSAGES[instruction[2]];
+    if (custom || name) {
+      return {
+        InstructionError: [
+          Number(instruction[1]),
+          custom ? { Custom: parseInt(custom[1], 16) } : name,
+        ],
+      };
+    }
+  }
+  return { Unrecognized: message };
+}
+
+function pickAmount(random: Random, model: VaultProgramModel, actor: Actor) {
+  const ownerBalance = model.getBalance(actor.signer.address);
+  const vaultBalance = model.getBalance(actor.vault);
+  return random.pick([
+    () => 0n,
+    () => 1n,
+    () => random.bigint(1_000_000n),
+    () => random.bigint(ownerBalance),
+    () => ownerBalance,
+    () => vaultBalance,
+    () => random.bigint(vaultBalance),
+    () => U64_MAX,
+  ])();
+}
+
+/** Builds one random, possibly invalid, vault instruction. */
+function pickInstruction(
+  random: Random,
+  model: VaultProgramModel,
+  actors: readonly Actor[],
+): { description: string; instruction: Instruction } {
+  const actor = random.pick(actors);
+  // Mostly the actor's own vault, sometimes someone else's
+  // / 大多是操作者自己的 vault，有时是别人的
+  const target = random.chance(0.8) ? actor : random.pick(actors);
+  const amount = pickAmount(random, model, target);
+  const input = {
+    owner: actor.signer,
+    vault: target.vault,
+    program: model.programAddress,
+  };
+  const delegate = random.pick(actors);
+  const kind = random.pick([
+    "deposit",
+    "deposit",
+    "withdraw",
+    "withdrawAmount",
+    "withdrawAmount",
+    "closeVault",
+    "setDelegate",
+    "revokeDelegate",
+    "delegateWithdraw",
+  ] as const);
+  let instruction: Instruction;
+  let description: string;
+  if (kind === "delegateWithdraw") {
+    // The actor signs as the delegate of the target's vault
+    // / 操作者以委托人身份为目标 vault 签名
+    instruction = getDelegateWithdrawInstruction({
+      owner: target.signer.address,
+      vault: target.vault,
+      delegate: actor.signer,
+      program: model.programAddress,
+      amount,
+    });
+    description = `${kind}(delegate ${actors.indexOf(actor)}, vault ${actors.indexOf(target)}, ${amount})`;
+  } else {
+    instruction =
+      kind === "deposit"
+        ? getDepositInstruction({ ...input, amount })
+        : kind === "withdraw"
+          ? getWithdrawInstruction(input)
+          : kind === "withdrawAmount"
+            ? getWithdrawAmountInstruction({ ...input, amount })
+            : kind === "setDelegate"
+              ? getSetDelegateInstruction({
+                  ...input,
+                  delegate: delegate.signer.address,
+                })
+              : kind === "revokeDelegate"
+                ? getRevokeDelegateInstruction(input)
+                : getCloseVaultInstruction(input);
+    description = `${kind}(owner ${actors.indexOf(actor)}, vault ${actors.indexOf(target)}${
+      kind === "deposit" || kind === "withdrawAmount"
+        ? `, ${amount}`
+        : kind === "setDelegate"
+          ? `, delegate ${actors.indexOf(delegate)}`
+          : ""
+    })`;
+  }
+
+  const accounts = instruction.accounts as readonly AccountMeta[];
+  const mutation = random.int(10);
+  if (mutation === 0) {
+    // Owner stays writable but does not sign
+    // / 所有者保持可写但不签名
+    instruction = {
+      ...instruction,
+      accounts: [
+        { address: actor.signer.address, role: AccountRole.WRITABLE },
+        ...accounts.slice(1),
+      ],
+    };
+    description += " unsigned";
+  } else if (mutation === 1) {
+    instruction = { ...instruction, accounts: accounts.slice(0, 1) };
+    description += " missing vault";
+  } else if (mutation === 2) {
+    const data = new Uint8Array(random.int(11));
+    data.forEach((_, index) => (data[index] = random.int(256)));
+    if (data.length > 0) {
+      data[0] = random.int(8);
+    }
+    // Keep the system program around in case the data now reads as a deposit
+    // / 保留系统程序账户，以防数据被解析为存款
+    const hasSystemProgram = accounts.some(
+      (account) => account.address === SYSTEM_PROGRAM_ADDRESS,
+    );
+    instruction = {
+      ...instruction,
+      accounts: hasSystemProgram
+        ? accounts
+        : [
+            ...accounts,
+            { address: SYSTEM_PROGRAM_ADDRESS, role: AccountRole.READONLY },
+          ],
+      data,
+    };
+    description += ` data [${data.join(",")}]`;
+  }
+  return { description, instruction };
+}
+
+describe("Vault Program reference model", () => {
+  let harness: TestHarness;
+  let feePayer: KeyPairSigner;
+  let slot: bigint;
+
+  before(async () => {
+    harness = await startTestHarness();
+    // A separate fee payer keeps fees out of the owners' balances
+    // / 单独的手续费支付者使手续费不计入所有者余额
+    feePayer = await createKeyPairSignerFromBytes(harness.payer.secretKey);
+    slot = await harness.rpc.getSlot().send();
+    console.log(`Differential seed: ${SEED}`);
+  });
+
+  it("matches the program on random instruction sequences", async () => {
+    const random = createRandom(SEED);
+    const divergences: string[] = [];
+
+    for (let sequence = 0; sequence < SEQUENCES; sequence++) {
+      const model = new VaultProgramModel({
+        programAddress: harness.programAddress,
+      });
+      const actors: Actor[] = [];
+      for (let index = 0; index < ACTORS; index++) {
+        const signer = await generateKeyPairSigner();
+        const [vault] = await findVaultPda(
+          { owner: signer.address },
+          { programAddress: harness.programAddress },
+        );
+        await harness.airdrop(signer.address, ACTOR_FUNDING);
+        model.setAccount(signer.address, {
+          lamports: ACTOR_FUNDING,
+          owner: SYSTEM_PROGRAM_ADDRESS,
+          space: 0,
+        });
+        actors.push({ signer, vault });
+      }
+
+      for (let step = 0; step < STEPS; step++) {
+        const { description, instruction } = pickInstruction(
+          random,
+          model,
+          actors,
+        );
+        // A fresh blockhash keeps repeated instructions from being
+        // rejected as duplicate transactions
+        // / 新的区块哈希可避免重复指令被视为重复交易而被拒绝
+        await harness.warpToSlot(++slot);
+        const { value: latestBlockhash } = await harness.rpc
+          .getLatestBlockhash()
+          .send();
+        const transaction = await signTransactionMessageWithSigners(
+          pipe(
+            createTransactionMessage({ version: 0 }),
+            (tx) => setTransactionMessageFeePayerSigner(feePayer, tx),
+            (tx) =>
+              setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+            (tx) => appendTransactionMessageInstructions([instruction], tx),
+          ),
+        );
+        const { staticAccounts } =
+          getCompiledTransactionMessageDecoder().decode(
+            transaction.messageBytes,
+          );
+
+        const expected = await model.applyTransaction([instruction]);
+        const { err } = await harness.processTransaction(transaction);
+        const actual = err ? parseBankError(err, staticAccounts) : null;
+
+        const mismatches: string[] = [];
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+          mismatches.push(
+            `error: model ${JSON.stringify(expected)}, program ${JSON.stringify(actual)}`,
+          );
+        }
+        for (const [index, actor] of actors.entries()) {
+          for (const [label, address] of [
+            [`owner ${index}`, actor.signer.address],
+            [`vault ${index}`, actor.vault],
+          ] as const) {
+            const modelBalance = model.getBalance(address);
+            const programBalance = await harness.getBalance(address);
+            if (modelBalance !== programBalance) {
+              mismatches.push(
+                `${label} balance: model ${modelBalance}, program ${programBalance}`,
+              );
+            }
+          }
+        }
+        if (mismatches.length > 0) {
+          divergences.push(
+            `sequence ${sequence}, step ${step}: ${description}\n  ` +
+              mismatches.join("\n  "),
+          );
+          // The states have drifted apart; later steps would only repeat it
+          // / 状态已经分叉，后续步骤只会重复这一差异
+          break;
+        }
+      }
+    }
+
+    assert.deepStrictEqual(
+      divergences,
+      [],
+      `Model diverged from the program (DIFF_SEED=${SEED}):\n` +
+        divergences.join("\n"),
+    );
+  });
+});
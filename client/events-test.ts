@@ -0,0 +1,56 @@
+// client/events-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { address } from "@solana/kit";
+import { parsePinocchioDemoEvents } from "../clients/js/src/events";
+import fixtures from "./fixtures/vault-logs.json";
+
+describe("Vault Program events", () => {
+  it("parses vault creation and deposit", () => {
+    assert.deepStrictEqual(parsePinocchioDemoEvents(fixtures.firstDeposit), [
+      { kind: "VaultCreated", instructionIndex: 0 },
+      { kind: "Deposited", instructionIndex: 0, amount: BigInt(100000000) },
+    ]);
+  });
+
+  it("tracks the top-level instruction index", () => {
+    assert.deepStrictEqual(
+      parsePinocchioDemoEvents(fixtures.depositThenWithdraw),
+      [
+        { kind: "Deposited", instructionIndex: 1, amount: BigInt(500000) },
+        { kind: "Withdrawn", instructionIndex: 2, amount: BigInt(100500000) },
+      ],
+    );
+  });
+
+  it("parses vault closure", () => {
+    assert.deepStrictEqual(parsePinocchioDemoEvents(fixtures.closeVault), [
+      { kind: "VaultClosed", instructionIndex: 0, amount: BigInt(1002240) },
+    ]);
+  });
+
+  it("returns no events for a failed instruction without logs", () => {
+    assert.deepStrictEqual(
+      parsePinocchioDemoEvents(fixtures.failedWithdraw),
+      [],
+    );
+  });
+
+  it("ignores logs emitted by other programs", () => {
+    // Only the logs emitted while the vault program is on top of the stack count
+    // / 仅统计 vault 程序执行期间输出的日志
+    assert.deepStrictEqual(
+      parsePinocchioDemoEvents(fixtures.cpiFromOtherProgram),
+      [{ kind: "Deposited", instructionIndex: 0, amount: BigInt(7000) }],
+    );
+  });
+
+  it("respects a custom program address", () => {
+    assert.deepStrictEqual(
+      parsePinocchioDemoEvents(fixtures.firstDeposit, {
+        programAddress: address("11111111111111111111111111111111"),
+      }),
+      [],
+    );
+  });
+});
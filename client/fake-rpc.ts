@@ -0,0 +1,172 @@
+// client/fake-rpc.ts
+import {
+  appendTransactionMessageInstructions,
+  compileTransaction,
+  createTransactionMessage,
+  getBase58Decoder,
+  getBase64EncodedWireTransaction,
+  getCompiledTransactionMessageDecoder,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+  type Address,
+  type Blockhash,
+  type GetSignaturesForAddressApi,
+  type GetTransactionApi,
+  type Instruction,
+  type Rpc,
+  type Signature,
+} from "@solana/kit";
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from "../clients/js/src/generated";
+
+/** A landed transaction served by {@link createFakeRpc}. */
+export type FakeTransaction = {
+  signature: Signature;
+  slot: bigint;
+  blockTime: bigint | null;
+  failed: boolean;
+  wireTransaction: string;
+  logMessages: string[];
+  preBalances: bigint[];
+  postBalances: bigint[];
+};
+
+export type FakeTransactionInput = {
+  /** Derives the signature, slot and block time of the transaction. */
+  seed: number;
+  feePayer: Address;
+  instructions: Instruction[];
+  logMessages?: string[];
+  failed?: boolean;
+  /** Lamports of one account before and after; every other account holds 0. */
+  balance?: { address: Address; pre: bigint; post: bigint };
+};
+
+export function createSignature(seed: number): Signature {
+  return getBase58Decoder().decode(new Uint8Array(64).fill(seed)) as Signature;
+}
+
+/** Logs of one vault program invocation around the given messages. */
+export function programLogs(...messages: string[]): string[] {
+  return [
+    `Program ${PINOCCHIO_DEMO_PROGRAM_ADDRESS} invoke [1]`,
+    ...messages.map((message) => `Program log: ${message}`),
+    `Program ${PINOCCHIO_DEMO_PROGRAM_ADDRESS} success`,
+  ];
+}
+
+/** Compiles `instructions` into a transaction as the RPC would return it. */
+export function createFakeTransaction(
+  input: FakeTransactionInput,
+): FakeTransaction {
+  const { seed, logMessages = [], failed = false, balance } = input;
+  const transaction = compileTransaction(
+    pipe(
+      createTransactionMessage({ version: 0 }),
+      (message) => setTransactionMessageFeePayer(input.feePayer, message),
+      (message) =>
+        setTransactionMessageLifetimeUsingBlockhash(
+          {
+            blockhash: "11111111111111111111111111111111" as Blockhash,
+            lastValidBlockHeight: 0n,
+          },
+          message,
+        ),
+      (message) =>
+        appendTransactionMessageInstructions(input.instructions, message),
+    ),
+  );
+  const { staticAccounts } = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes,
+  );
+  return {
+    signature: createSignature(seed),
+    slot: BigInt(100 + seed),
+    blockTime: 1_700_000_000n + BigInt(seed * 60),
+    failed,
+    wireTransaction: getBase64EncodedWireTransaction(transaction),
+    logMessages,
+    preBalances: staticAccounts.map((item) =>
+      item === balance?.address ? balance.pre : 0n,
+    ),
+    postBalances: staticAccounts.map((item) =>
+      item === balance?.address ? balance.post : 0n,
+    ),
+  };
+}
+
+/**
+ * Serves `getSignaturesForAddress` and `getTransaction` for a fixed list of
+ * transactions, newest first like the RPC does, and records the signature
+ * requests and the transactions fetched.
+ */
+export function createFakeRpc(transactions: FakeTransaction[]) {
+  const newestFirst = [...transactions].reverse();
+  const signatureRequests: { before?: Signature; limit?: number }[] = [];
+  const fetched: Signature[] = [];
+  const rpc = {
+    getSignaturesForAddress(
+      _: Address,
+      config: { before?: Signature; until?: Signature; limit?: number },
+    ) {
+      signatureRequests.push({ before: config.before, limit: config.limit });
+      return {
+        send: async () => {
+          let start = 0;
+          if (config.before) {
+            start =
+              newestFirst.findIndex(
+                ({ signature }) => signature === config.before,
+              ) + 1;
+          }
+          let end = newestFirst.findIndex(
+            ({ signature }) => signature === config.until,
+          );
+          if (end < start) {
+            end = newestFirst.length;
+          }
+          return newestFirst
+            .slice(start, Math.min(end, start + (config.limit ?? 1000)))
+            .map(({ signature, slot, blockTime, failed }) => ({
+              signature,
+              slot,
+              blockTime,
+              err: failed ? { InstructionError: [0, { Custom: 6003 }] } : null,
+              memo: null,
+              confirmationStatus: "confirmed",
+            }));
+        },
+      };
+    },
+    getTransaction(signature: Signature) {
+      return {
+        send: async () => {
+          fetched.push(signature);
+          const transaction = transactions.find(
+            (item) => item.signature === signature,
+          );
+          if (!transaction) {
+            return null;
+          }
+          return {
+            slot: transaction.slot,
+            blockTime: transaction.blockTime,
+            transaction: [transaction.wireTransaction, "base64"],
+            meta: {
+              err: transaction.failed
+                ? { InstructionError: [0, { Custom: 6003 }] }
+                : null,
+              fee: 5000n,
+              computeUnitsConsumed: null,
+              logMessages: transaction.logMessages,
+              preBalances: transaction.preBalances,
+              postBalances: transaction.postBalances,
+              loadedAddresses: { readonly: [], writable: [] },
+            },
+          };
+        },
+      };
+    },
+  } as unknown as Rpc<GetSignaturesForAddressApi & GetTransactionApi>;
+  return { rpc, signatureRequests, fetched };
+}
@@ -0,0 +1,275 @@
+// client/fees-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  ComputeBudgetInstruction,
+  identifyComputeBudgetInstruction,
+  MAX_COMPUTE_UNIT_LIMIT,
+  parseSetComputeUnitLimitInstruction,
+  parseSetComputeUnitPriceInstruction,
+} from "@solana-program/compute-budget";
+import {
+  appendTransactionMessageInstructions,
+  createTransactionMessage,
+  getBase64EncodedWireTransaction,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+  type Instruction,
+  type InstructionWithData,
+  type ReadonlyUint8Array,
+} from "@solana/kit";
+import {
+  getDepositInstructionAsync,
+  getWithdrawInstructionAsync,
+} from "../clients/js/src/generated";
+import {
+  getComputeUnitPrice,
+  planComputeBudget,
+  withComputeBudget,
+} from "../clients/js/src/fees";
+import { type MockVaultRpcConfig } from "../clients/js/src/mock";
+import { createMockCluster } from "./mock-fixtures";
+
+/** A mock cluster with a deposit instruction of its owner to plan. */
+async function setup(config: MockVaultRpcConfig = {}) {
+  const { mock, owner } = await createMockCluster(config);
+  const deposit = await getDepositInstructionAsync({
+    owner,
+    amount: 100_000_000n,
+  });
+  return { mock, owner, deposit };
+}
+
+function withFees(...fees: bigint[]): MockVaultRpcConfig {
+  return {
+    recentPrioritizationFees: fees.map((prioritizationFee, index) => ({
+      slot: BigInt(index + 1),
+      prioritizationFee,
+    })),
+  };
+}
+
+function getBudget(instructions: readonly Instruction[]) {
+  const budget = instructions.filter(
+    ({ programAddress }) => programAddress === COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  ) as (Instruction & InstructionWithData<ReadonlyUint8Array>)[];
+  return budget.map((instruction) =>
+    identifyComputeBudgetInstruction(instruction) ===
+    ComputeBudgetInstruction.SetComputeUnitLimit
+      ? { units: parseSetComputeUnitLimitInstruction(instruction).data.units }
+      : {
+          microLamports:
+            parseSetComputeUnitPriceInstruction(instruction).data.microLamports,
+        },
+  );
+}
+
+describe("Compute unit price", () => {
+  it("returns nothing or the fixed price without asking the cluster", async () => {
+    const { mock, owner } = await setup(withFees(1_000n));
+    assert.strictEqual(
+      await getComputeUnitPrice(mock.rpc, { kind: "none" }, [owner.address]),
+      0n,
+    );
+    assert.strictEqual(
+      await getComputeUnitPrice(
+        mock.rpc,
+        { kind: "fixed", microLamports: 42n },
+        [owner.address],
+      ),
+      42n,
+    );
+  });
+
+  it("picks the requested percentile of the recent fees", async () => {
+    // Sorted: 1, 3, 5, 7, 100
+    // / 排序后为 1、3、5、7、100
+    const { mock, owner } = await setup(withFees(5n, 100n, 1n, 7n, 3n));
+    const prices = [];
+    for (const percentile of [0, 50, 75, 99, 100]) {
+      prices.push(
+        await getComputeUnitPrice(
+          mock.rpc,
+          { kind: "percentile", percentile },
+          [owner.address],
+        ),
+      );
+    }
+    assert.deepStrictEqual(prices, [1n, 5n, 7n, 100n, 100n]);
+  });
+
+  it("falls back to the minimum when there are no recent fees", async () => {
+    const { mock, owner } = await setup();
+    assert.strictEqual(
+      await getComputeUnitPrice(
+        mock.rpc,
+        { kind: "percentile", percentile: 75 },
+        [owner.address],
+      ),
+      0n,
+    );
+    assert.strictEqual(
+      await getComputeUnitPrice(
+        mock.rpc,
+        { kind: "percentile", percentile: 75, minMicroLamports: 1_000n },
+        [owner.address],
+      ),
+      1_000n,
+    );
+  });
+
+  it("clamps the price to the cap", async () => {
+    const { mock, owner } = await setup(withFees(10n, 500_000n));
+    assert.strictEqual(
+      await getComputeUnitPrice(
+        mock.rpc,
+        {
+          kind: "percentile",
+          percentile: 100,
+          minMicroLamports: 100n,
+          maxMicroLamports: 50_000n,
+        },
+        [owner.address],
+      ),
+      50_000n,
+    );
+  });
+
+  it("rejects percentiles outside 0 to 100", async () => {
+    const { mock, owner } = await setup(withFees(1n));
+    for (const percentile of [-1, 101]) {
+      await assert.rejects(
+        getComputeUnitPrice(mock.rpc, { kind: "percentile", percentile }, [
+          owner.address,
+        ]),
+        /Percentile must be between 0 and 100/,
+      );
+    }
+  });
+});
+
+describe("Compute budget planning", () => {
+  it("adds the default 10% margin to the simulated units", async () => {
+    const { mock, owner, deposit } = await setup({ unitsConsumed: 10_000n });
+    const plan = await planComputeBudget(mock.rpc, {
+      feePayer: owner,
+      instructions: [deposit],
+    });
+    assert.deepStrictEqual(plan, {
+      unitsConsumed: 10_000,
+      computeUnitLimit: 11_000,
+      computeUnitPrice: 0n,
+      priorityFeeLamports: 0n,
+    });
+  });
+
+  it("applies a custom margin and rounds the priority fee up", async () => {
+    const { mock, owner, deposit } = await setup({
+      ...withFees(1_000_001n),
+      unitsConsumed: 3_333n,
+    });
+    const plan = await planComputeBudget(
+      mock.rpc,
+      { feePayer: owner, instructions: [deposit] },
+      {
+        unitMargin: 1.5,
+        priorityFee: { kind: "percentile", percentile: 50 },
+      },
+    );
+    // ceil(3333 * 1.5) units at 1.000001 lamports each
+    // / ceil(3333 * 1.5) 个计算单元，每个 1.000001 lamports
+    assert.deepStrictEqual(plan, {
+      unitsConsumed: 3_333,
+      computeUnitLimit: 5_000,
+      computeUnitPrice: 1_000_001n,
+      priorityFeeLamports: 5_001n,
+    });
+  });
+
+  it("never exceeds the maximum compute unit limit", async () => {
+    const { mock, owner, deposit } = await setup({
+      unitsConsumed: BigInt(MAX_COMPUTE_UNIT_LIMIT - 1_000),
+    });
+    const plan = await planComputeBudget(mock.rpc, {
+      feePayer: owner,
+      instructions: [deposit],
+    });
+    assert.strictEqual(plan.computeUnitLimit, MAX_COMPUTE_UNIT_LIMIT);
+  });
+
+  it("throws when the instructions fail in simulation", async () => {
+    const { mock, owner } = await setup({ unitsConsumed: 10_000n });
+    // The owner has no vault to withdraw from yet
+    // / 所有者还没有可以取款的 vault
+    await assert.rejects(
+      planComputeBudget(mock.rpc, {
+        feePayer: owner,
+        instructions: [await getWithdrawInstructionAsync({ owner })],
+      }),
+      /Compute unit simulation failed/,
+    );
+  });
+
+  it("throws when the simulation does not report the units consumed", async () => {
+    // The mock omits `unitsConsumed` unless configured
+    // / 模拟 RPC 默认不返回 `unitsConsumed`
+    const { mock, owner, deposit } = await setup();
+    await assert.rejects(
+      withComputeBudget(mock.rpc, {
+        feePayer: owner,
+        instructions: [deposit],
+      }),
+      /Compute unit simulation did not report the units consumed/,
+    );
+  });
+
+  it("prepends only the limit when there is no priority fee", async () => {
+    const { mock, owner, deposit } = await setup({ unitsConsumed: 10_000n });
+    const { plan, instructions } = await withComputeBudget(mock.rpc, {
+      feePayer: owner,
+      instructions: [deposit],
+    });
+    assert.strictEqual(plan.computeUnitPrice, 0n);
+    assert.deepStrictEqual(getBudget(instructions), [{ units: 11_000 }]);
+    assert.strictEqual(instructions[instructions.length - 1], deposit);
+  });
+
+  it("prepends the limit and price, and the transaction lands", async () => {
+    const { mock, owner, deposit } = await setup({
+      ...withFees(2_000n),
+      unitsConsumed: 10_000n,
+    });
+    const { instructions } = await withComputeBudget(
+      mock.rpc,
+      { feePayer: owner, instructions: [deposit] },
+      { priorityFee: { kind: "percentile", percentile: 50 } },
+    );
+    assert.deepStrictEqual(getBudget(instructions), [
+      { units: 11_000 },
+      { microLamports: 2_000n },
+    ]);
+    assert.strictEqual(instructions.length, 3);
+
+    const { value: latestBlockhash } = await mock.rpc
+      .getLatestBlockhash()
+      .send();
+    const transaction = await signTransactionMessageWithSigners(
+      pipe(
+        createTransactionMessage({ version: 0 }),
+        (tx) => setTransactionMessageFeePayerSigner(owner, tx),
+        (tx) =>
+          setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+        (tx) => appendTransactionMessageInstructions(instructions, tx),
+      ),
+    );
+    await mock.rpc
+      .sendTransaction(getBase64EncodedWireTransaction(transaction), {
+        encoding: "base64",
+      })
+      .send();
+    assert.ok(mock.getBalance(deposit.accounts[1].address) > 100_000_000n);
+  });
+});
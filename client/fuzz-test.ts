@@ -0,0 +1,460 @@
+// client/fuzz-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import fc from "fast-check";
+import {
+  AccountRole,
+  address,
+  createNoopSigner,
+  getAddressDecoder,
+  getAddressEncoder,
+  lamports,
+  none,
+  some,
+  type AccountMeta,
+  type Address,
+} from "@solana/kit";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+import {
+  findVaultPda,
+  getCloseVaultInstructionDataEncoder,
+  getDepositInstructionAsync,
+  getDepositInstructionDataCodec,
+  getVaultDecoder,
+  getWithdrawAmountInstructionDataCodec,
+  getWithdrawInstruction,
+  getWithdrawInstructionDataEncoder,
+  identifyPinocchioDemoInstruction,
+  parseDepositInstruction,
+  parseWithdrawAmountInstruction,
+  parseWithdrawInstruction,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+} from "../clients/js/src/generated";
+import { getPinocchioDemoDecodeError } from "../clients/js/src/parsers";
+import { VaultProgramModel } from "../clients/js/src/model";
+import {
+  getDefaultRentExemptMinimum,
+  getFirstDepositCost,
+  getWithdrawableLamports,
+  VAULT_ACCOUNT_SIZE,
+} from "../clients/js/src/rent";
+import {
+  decodeVault as decodeLegacyVault,
+  encodeDepositInstructionData,
+  encodeWithdrawAmountInstructionData,
+} from "../clients/web3js/src/generated";
+
+// Set FUZZ_SEED to replay a failing run and FUZZ_RUNS to search longer
+// / 设置 FUZZ_SEED 可重放失败的运行，设置 FUZZ_RUNS 可延长搜索
+const PARAMETERS: fc.Parameters<unknown> = {
+  seed: process.env.FUZZ_SEED ? Number(process.env.FUZZ_SEED) : undefined,
+  numRuns: Number(process.env.FUZZ_RUNS ?? 200),
+};
+const U64_MAX = 2n ** 64n - 1n;
+
+const amountArbitrary = fc.bigInt({ min: 1n, max: U64_MAX });
+const addressArbitrary = fc
+  .uint8Array({ minLength: 32, maxLength: 32 })
+  .map((bytes) => getAddressDecoder().decode(bytes));
+const accountsArbitrary = fc.array(
+  fc.record({
+    address: addressArbitrary,
+    role: fc.constantFrom(
+      AccountRole.READONLY,
+      AccountRole.WRITABLE,
+      AccountRole.READONLY_SIGNER,
+      AccountRole.WRITABLE_SIGNER,
+    ),
+  }),
+  { maxLength: 6 },
+);
+
+/**
+ * Instruction data close to the valid encodings: known and unknown
+ * discriminators, payloads around 8 and 32 bytes, zero amounts and zero
+ * delegates.
+ */
+const dataArbitrary = fc.oneof(
+  fc.uint8Array({ maxLength: 12 }),
+  fc
+    .tuple(
+      fc.integer({ min: 0, max: 8 }),
+      fc.oneof(
+        fc.uint8Array({ minLength: 8, maxLength: 8 }),
+        fc.constant(new Uint8Array(8)),
+        fc.uint8Array({ maxLength: 10 }),
+        fc.uint8Array({ minLength: 32, maxLength: 32 }),
+        fc.constant(new Uint8Array(32)),
+        fc.uint8Array({ minLength: 30, maxLength: 34 }),
+      ),
+    )
+    .map(([discriminator, payload]) =>
+      Uint8Array.from([discriminator, ...payload]),
+    ),
+);
+
+function toLittleEndian(amount: bigint): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, amount, true);
+  return bytes;
+}
+
+describe("Vault Program encoders", () => {
+  it("round-trips amounts through the amount codecs", () => {
+    fc.assert(
+      fc.property(amountArbitrary, (amount) => {
+        for (const [discriminator, codec] of [
+          [0, getDepositInstructionDataCodec()],
+          [2, getWithdrawAmountInstructionDataCodec()],
+        ] as const) {
+          const bytes = codec.encode({ amount });
+          // One discriminator byte followed by a little-endian u64
+          // / 一个鉴别器字节，后跟小端序 u64
+          assert.deepStrictEqual(
+            bytes,
+            Uint8Array.from([discriminator, ...toLittleEndian(amount)]),
+          );
+          assert.deepStrictEqual(codec.decode(bytes), {
+            discriminator,
+            amount,
+          });
+        }
+      }),
+      PARAMETERS,
+    );
+  });
+
+  it("encodes the same bytes as the legacy web3.js client", () => {
+    fc.assert(
+      fc.property(amountArbitrary, (amount) => {
+        assert.deepStrictEqual(
+          getDepositInstructionDataCodec().encode({ amount }),
+          Uint8Array.from(encodeDepositInstructionData({ amount })),
+        );
+        assert.deepStrictEqual(
+          getWithdrawAmountInstructionDataCodec().encode({ amount }),
+          Uint8Array.from(encodeWithdrawAmountInstructionData({ amount })),
+        );
+      }),
+      PARAMETERS,
+    );
+  });
+
+  it("refuses to encode amounts outside the u64 range", () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(
+          fc.bigInt({ max: -1n }),
+          fc.bigInt({ min: U64_MAX + 1n, max: 2n ** 80n }),
+        ),
+        (amount) => {
+          assert.throws(() =>
+            getDepositInstructionDataCodec().encode({ amount }),
+          );
+          assert.throws(() =>
+            getWithdrawAmountInstructionDataCodec().encode({ amount }),
+          );
+        },
+      ),
+      PARAMETERS,
+    );
+  });
+
+  it("encodes withdraw and close as a single discriminator byte", () => {
+    assert.deepStrictEqual(
+      getWithdrawInstructionDataEncoder().encode({}),
+      Uint8Array.from([1]),
+    );
+    assert.deepStrictEqual(
+      getCloseVaultInstructionDataEncoder().encode({}),
+      Uint8Array.from([3]),
+    );
+  });
+});
+
+describe("Vault Program parsers", () => {
+  it("identifies instructions by their first byte only", () => {
+    fc.assert(
+      fc.property(dataArbitrary, (data) => {
+        if (data.length > 0 && data[0] <= 6) {
+          assert.strictEqual(identifyPinocchioDemoInstruction(data), data[0]);
+        } else {
+          assert.throws(() => identifyPinocchioDemoInstruction(data));
+        }
+      }),
+      PARAMETERS,
+    );
+  });
+
+  it("parses deposits given enough accounts and data", () => {
+    fc.assert(
+      fc.property(accountsArbitrary, dataArbitrary, (accounts, data) => {
+        const instruction = {
+          programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+          accounts,
+          data: Uint8Array.from([0, ...data.slice(1)]),
+        };
+        if (accounts.length < 4 || instruction.data.length < 9) {
+          assert.throws(() => parseDepositInstruction(instruction));
+          return;
+        }
+        const parsed = parseDepositInstruction(instruction);
+        assert.deepStrictEqual(Object.values(parsed.accounts), [
+          ...accounts.slice(0, 4),
+        ]);
+        assert.deepStrictEqual(
+          toLittleEndian(parsed.data.amount),
+          instruction.data.slice(1, 9),
+        );
+      }),
+      PARAMETERS,
+    );
+  });
+
+  it("parses withdrawals given enough accounts", () => {
+    fc.assert(
+      fc.property(accountsArbitrary, dataArbitrary, (accounts, data) => {
+        const instruction = {
+          programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+          accounts,
+          data: Uint8Array.from([1, ...data.slice(1)]),
+        };
+        if (accounts.length < 3) {
+          assert.throws(() => parseWithdrawInstruction(instruction));
+          return;
+        }
+        const parsed = parseWithdrawInstruction(instruction);
+        assert.deepStrictEqual(Object.values(parsed.accounts), [
+          ...accounts.slice(0, 3),
+        ]);
+        assert.deepStrictEqual(parsed.data, { discriminator: 1 });
+      }),
+      PARAMETERS,
+    );
+  });
+
+  it("rejects exactly the instructions the program rejects", async () => {
+    // Decoding errors do not depend on accounts, so one funded owner with
+    // an existing vault is enough for the model to get past them
+    // / 解码错误与账户无关，因此一个已注资的所有者和已存在的 vault 即可
+    const owner = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+    const [vault] = await findVaultPda({ owner });
+    const validAccounts: AccountMeta[] = [
+      { address: owner, role: AccountRole.WRITABLE_SIGNER },
+      { address: vault, role: AccountRole.WRITABLE },
+      { address: PINOCCHIO_DEMO_PROGRAM_ADDRESS, role: AccountRole.READONLY },
+      { address: SYSTEM_PROGRAM_ADDRESS, role: AccountRole.READONLY },
+    ];
+    const createModel = () => {
+      const model = new VaultProgramModel();
+      const accounts: [Address, number, Address][] = [
+        [owner, 0, SYSTEM_PROGRAM_ADDRESS],
+        [vault, 16, PINOCCHIO_DEMO_PROGRAM_ADDRESS],
+      ];
+      for (const [account, space, programOwner] of accounts) {
+        model.setAccount(account, {
+          lamports: 10_000_000_000n,
+          owner: programOwner,
+          space,
+        });
+      }
+      return model;
+    };
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 4 }),
+        dataArbitrary,
+        async (accountCount, data) => {
+          const instruction = {
+            programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+            accounts: validAccounts.slice(0, accountCount),
+            data,
+          };
+          const modelError = await createModel().applyTransaction([
+            instruction,
+          ]);
+          const programDecodeError =
+            modelError &&
+            "InstructionError" in modelError &&
+            (modelError.InstructionError[1] === "InvalidInstructionData" ||
+              modelError.InstructionError[1] === "NotEnoughAccountKeys")
+              ? modelError.InstructionError[1]
+              : null;
+          assert.strictEqual(
+            getPinocchioDemoDecodeError(instruction),
+            programDecodeError,
+          );
+        },
+      ),
+      PARAMETERS,
+    );
+  });
+
+  it("only accepts amounts the generated decoders read back unchanged", () => {
+    fc.assert(
+      fc.property(dataArbitrary, (data) => {
+        const instruction = {
+          programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+          accounts: Array.from({ length: 4 }, () => ({
+            address: SYSTEM_PROGRAM_ADDRESS,
+            role: AccountRole.READONLY,
+          })),
+          data: Uint8Array.from([2, ...data.slice(1)]),
+        };
+        if (getPinocchioDemoDecodeError(instruction) !== null) {
+          return;
+        }
+        const { amount } = parseWithdrawAmountInstruction(instruction).data;
+        assert.ok(amount > 0n);
+        assert.deepStrictEqual(
+          getWithdrawAmountInstructionDataCodec().encode({ amount }),
+          instruction.data,
+        );
+      }),
+      PARAMETERS,
+    );
+  });
+});
+
+describe("Vault account decoders", () => {
+  it("read the delegate of current vaults and none for legacy ones", () => {
+    fc.assert(
+      fc.property(addressArbitrary, (delegate) => {
+        const data = new Uint8Array(VAULT_ACCOUNT_SIZE);
+        data.set(getAddressEncoder().encode(delegate), 16);
+        assert.deepStrictEqual(
+          getVaultDecoder().decode(data).delegate,
+          some(delegate),
+        );
+        assert.strictEqual(
+          decodeLegacyVault(Buffer.from(data)).delegate?.toBase58(),
+          delegate,
+        );
+
+        // Vaults created before delegation only hold the first 16 bytes
+        // / 委托功能之前创建的 vault 只有前 16 字节
+        const legacy = data.slice(0, 16);
+        assert.deepStrictEqual(
+          getVaultDecoder().decode(legacy).delegate,
+          none(),
+        );
+        assert.strictEqual(
+          decodeLegacyVault(Buffer.from(legacy)).delegate,
+          null,
+        );
+      }),
+      PARAMETERS,
+    );
+  });
+});
+
+describe("Vault rent utilities", () => {
+  const owner = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+  const ownerLamports = 10n ** 15n;
+  const vaultRent = getDefaultRentExemptMinimum(VAULT_ACCOUNT_SIZE);
+
+  it("computes the vault rent the program charges", () => {
+    assert.strictEqual(VAULT_ACCOUNT_SIZE, 48);
+    assert.strictEqual(vaultRent, 1_224_960n);
+  });
+
+  it("predicts exactly what Withdraw pays out", async () => {
+    const [vault] = await findVaultPda({ owner });
+    await fc.assert(
+      fc.asyncProperty(
+        fc.bigInt({ min: vaultRent, max: vaultRent + 10n ** 12n }),
+        // Legacy vaults created before delegation only hold 16 bytes
+        // / 委托功能之前创建的旧版 vault 只有 16 字节
+        fc.constantFrom(16, VAULT_ACCOUNT_SIZE),
+        async (vaultLamports, space) => {
+          const model = new VaultProgramModel();
+          model.setAccount(owner, {
+            lamports: ownerLamports,
+            owner: SYSTEM_PROGRAM_ADDRESS,
+            space: 0,
+          });
+          model.setAccount(vault, {
+            lamports: vaultLamports,
+            owner: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+            space,
+          });
+          // Current-size minimum, as getVaultRentExemptMinimum returns
+          // / 当前大小 vault 的最低余额，与 getVaultRentExemptMinimum 的返回值相同
+          const withdrawable = getWithdrawableLamports(
+            {
+              address: vault,
+              exists: true,
+              executable: false,
+              lamports: lamports(vaultLamports),
+              programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+              space: BigInt(space),
+              data: new Uint8Array(space),
+            },
+            { rentExemptMinimum: vaultRent },
+          );
+
+          const error = await model.applyTransaction([
+            getWithdrawInstruction({ owner: createNoopSigner(owner), vault }),
+          ]);
+          // Nothing to withdraw is an error rather than a zero payout
+          // / 没有可提取的余额时程序返回错误，而不是提取 0
+          assert.strictEqual(error === null, withdrawable > 0n);
+          assert.strictEqual(
+            model.getBalance(owner),
+            ownerLamports + withdrawable,
+          );
+        },
+      ),
+      PARAMETERS,
+    );
+  });
+
+  it("predicts what the first Deposit costs", async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.bigInt({ min: 1n, max: 10n ** 12n }),
+        async (amount) => {
+          const model = new VaultProgramModel();
+          model.setAccount(owner, {
+            lamports: ownerLamports,
+            owner: SYSTEM_PROGRAM_ADDRESS,
+            space: 0,
+          });
+          const error = await model.applyTransaction([
+            await getDepositInstructionAsync({
+              owner: createNoopSigner(owner),
+              amount,
+            }),
+          ]);
+          assert.strictEqual(error, null);
+          assert.strictEqual(
+            ownerLamports - model.getBalance(owner),
+            getFirstDepositCost(amount),
+          );
+        },
+      ),
+      PARAMETERS,
+    );
+  });
+
+  it("reports nothing withdrawable for missing or foreign vaults", async () => {
+    const [vault] = await findVaultPda({ owner });
+    assert.strictEqual(
+      getWithdrawableLamports({ address: vault, exists: false }),
+      0n,
+    );
+    assert.strictEqual(
+      getWithdrawableLamports({
+        address: vault,
+        exists: true,
+        executable: false,
+        lamports: lamports(5_000_000n),
+        programAddress: SYSTEM_PROGRAM_ADDRESS,
+        space: 0n,
+        data: new Uint8Array(),
+      }),
+      0n,
+    );
+  });
+});
@@ -0,0 +1,554 @@
+// client/harness.ts
+import { existsSync } from "node:fs";
+import path from "node:path";
+import {
+  createRpc,
+  createSolanaRpcApi,
+  createSolanaRpcSubscriptionsApi,
+  createSubscriptionRpc,
+  getBase58Decoder,
+  getTransactionEncoder,
+  type Address,
+  type Commitment,
+  type Rpc,
+  type RpcSubscriptions,
+  type RpcSubscriptionsTransport,
+  type RpcTransport,
+  type SolanaRpcApi,
+  type SolanaRpcSubscriptionsApi,
+  type Transaction as KitTransaction,
+} from "@solana/kit";
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+  type AccountInfo,
+} from "@solana/web3.js";
+import {
+  start,
+  type BanksClient,
+  type BanksTransactionResultWithMeta,
+  type ProgramTestContext,
+} from "solana-bankrun";
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from "../clients/js/src/generated";
+
+const PROGRAM_NAME = "pinocchio_demo";
+
+export type TestHarnessConfig = {
+  programAddress?: Address;
+  /** Directory holding `pinocchio_demo.so`. Defaults to `target/deploy`. */
+  programDir?: string;
+};
+
+/** Addresses accepted by the harness helpers, in Kit or web3.js form. */
+export type AddressLike = Address | PublicKey;
+
+/** Transactions accepted by {@link TestHarness.sendTransaction}. */
+export type TestTransaction =
+  | Transaction
+  | VersionedTransaction
+  | KitTransaction;
+
+export type TestTransactionResult = {
+  signature: string;
+  /** Bank error message, e.g. `Error processing Instruction 0: ...`. */
+  err: string | null;
+  logs: string[];
+};
+
+export type TestHarness = {
+  context: ProgramTestContext;
+  banksClient: BanksClient;
+  /** Funded keypair created by the bank; pays web3.js fees by default. */
+  payer: Keypair;
+  programAddress: Address;
+  /** Kit RPC answered by the in-process bank instead of a validator. */
+  rpc: Rpc<SolanaRpcApi>;
+  /**
+   * Kit subscriptions that never notify. Confirmations still resolve since
+   * Kit checks the signature statuses once when it starts waiting.
+   */
+  rpcSubscriptions: RpcSubscriptions<SolanaRpcSubscriptionsApi>;
+  /**
+   * Transfers `lamports` from {@link TestHarness.payer} to `address` and
+   * returns the transfer signature.
+   */
+  airdrop(address: AddressLike, lamports: number | bigint): Promise<string>;
+  warpToSlot(slot: number | bigint): Promise<void>;
+  getAccount(address: AddressLike): Promise<AccountInfo<Uint8Array> | null>;
+  getBalance(address: AddressLike): Promise<bigint>;
+  /**
+   * Processes `transaction` and reports its outcome without throwing.
+   *
+   * Legacy web3.js transactions get the latest blockhash and a fee payer
+   * when missing, and are signed with `signers`.
+   */
+  processTransaction(
+    transaction: TestTransaction,
+    signers?: Keypair[],
+  ): Promise<TestTransactionResult>;
+  /**
+   * Like {@link TestHarness.processTransaction}, but returns the signature
+   * and throws with the transaction error and program logs on failure.
+   */
+  sendTransaction(
+    transaction: TestTransaction,
+    signers?: Keypair[],
+  ): Promise<string>;
+};
+
+type SignatureStatus = { slot: bigint; err: unknown };
+
+type JsonRpcRequest = {
+  id: string | number;
+  method: string;
+  params?: unknown[];
+};
+
+type HarnessRpcMethod =
+  | "getAccountInfo"
+  | "getBalance"
+  | "getEpochInfo"
+  | "getLatestBlockhash"
+  | "getMinimumBalanceForRentExemption"
+  | "getMultipleAccounts"
+  | "getSignatureStatuses"
+  | "getSlot"
+  | "requestAirdrop"
+  | "sendTransaction"
+  | "simulateTransaction";
+
+/**
+ * Handlers of the RPC methods the harness serves, taking the parameters
+ * Kit sends for each method. Results are checked by Kit's own response
+ * transformers, so they are left untyped.
+ */
+type HarnessRpcHandlers = {
+  [TMethod in HarnessRpcMethod]: (
+    ...params: Parameters<SolanaRpcApi[TMethod]>
+  ) => Promise<unknown>;
+};
+
+type AccountConfig = {
+  commitment?: Commitment;
+  encoding?: string;
+  dataSlice?: { offset: number | bigint; length: number | bigint };
+};
+
+/** Error answered to the Kit RPC as a JSON-RPC error response. */
+class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+const MINIMUM_SLOTS_PER_EPOCH = 32n;
+
+// solana-bankrun may resolve its own copy of web3.js. It only reads the wire
+// bytes of a transaction, which both copies serialize the same way.
+// / solana-bankrun 可能解析到自己的 web3.js 副本，它只读取交易的序列化字节
+type BankTransaction = Parameters<BanksClient["tryProcessTransaction"]>[0];
+
+function toBankTransaction(
+  transaction: Transaction | VersionedTransaction,
+): BankTransaction {
+  return transaction as unknown as BankTransaction;
+}
+
+function toPublicKey(address: AddressLike): PublicKey {
+  return typeof address === "string" ? new PublicKey(address) : address;
+}
+
+/**
+ * Converts a bank error message back to the RPC `TransactionError` shape
+ * where it can; other errors keep their message as the error name.
+ */
+function getTransactionError(result: string): unknown {
+  const match =
+    /^Error processing Instruction (\d+): custom program error: 0x([0-9a-f]+)$/.exec(
+      result,
+    );
+  return match
+    ? {
+        InstructionError: [
+          BigInt(match[1]),
+          { Custom: BigInt(`0x${match[2]}`) },
+        ],
+      }
+    : result;
+}
+
+function encodeAccount(
+  account: AccountInfo<Uint8Array> | null,
+  config: AccountConfig = {},
+) {
+  if (!account) {
+    return null;
+  }
+  const { encoding = "base58", dataSlice } = config;
+  const data = dataSlice
+    ? account.data.slice(
+        Number(dataSlice.offset),
+        Number(dataSlice.offset) + Number(dataSlice.length),
+      )
+    : account.data;
+  let encodedData: [string, string];
+  if (encoding === "base64") {
+    encodedData = [Buffer.from(data).toString("base64"), "base64"];
+  } else if (encoding === "base58") {
+    encodedData = [getBase58Decoder().decode(data), "base58"];
+  } else {
+    throw new JsonRpcError(-32602, `Unsupported account encoding ${encoding}`);
+  }
+  return {
+    data: encodedData,
+    executable: account.executable,
+    lamports: BigInt(account.lamports),
+    owner: account.owner.toBase58(),
+    rentEpoch: BigInt(account.rentEpoch ?? 0),
+    space: BigInt(account.data.length),
+  };
+}
+
+/**
+ * Loads `target/deploy/pinocchio_demo.so` into an in-process bank
+ * (solana-bankrun), so tests run without a validator.
+ */
+export async function startTestHarness(
+  config: TestHarnessConfig = {},
+): Promise<TestHarness> {
+  const {
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    programDir = path.resolve("target/deploy"),
+  } = config;
+  if (!existsSync(path.join(programDir, `${PROGRAM_NAME}.so`))) {
+    throw new Error(
+      `${PROGRAM_NAME}.so not found in ${programDir}; run \`cargo build-sbf\` first`,
+    );
+  }
+  process.env.SBF_OUT_DIR = programDir;
+  const context = await start(
+    [{ name: PROGRAM_NAME, programId: new PublicKey(programAddress) }],
+    [],
+  );
+  const { banksClient } = context;
+  const payer = Keypair.fromSecretKey(context.payer.secretKey);
+  // Statuses of every transaction processed by the harness, for getSignatureStatuses
+  // / 测试工具处理过的每笔交易的状态，供 getSignatureStatuses 使用
+  const statuses = new Map<string, SignatureStatus>();
+
+  const getLatestBlockhash = async () => {
+    const latest = await banksClient.getLatestBlockhash();
+    if (!latest) {
+      throw new JsonRpcError(-32603, "The bank has no recent blockhash");
+    }
+    const [blockhash, lastValidBlockHeight] = latest;
+    return { blockhash, lastValidBlockHeight };
+  };
+
+  const executeTransaction = async (
+    transaction: Transaction | VersionedTransaction,
+    { preflight }: { preflight: boolean },
+  ): Promise<{
+    signature: string;
+    outcome: BanksTransactionResultWithMeta;
+  }> => {
+    const signatureBytes =
+      transaction instanceof Transaction
+        ? transaction.signature
+        : transaction.signatures[0];
+    if (!signatureBytes) {
+      throw new Error("Transaction is not signed");
+    }
+    const signature = getBase58Decoder().decode(signatureBytes);
+    // Like a validator, preflight failures are rejected without paying fees
+    // / 与验证器一样，预检失败的交易会被拒绝且不收取费用
+    if (preflight) {
+      const simulation = await banksClient.simulateTransaction(
+        toBankTransaction(transaction),
+      );
+      if (simulation.result) {
+        return { signature, outcome: simulation };
+      }
+    }
+    const outcome = await banksClient.tryProcessTransaction(
+      toBankTransaction(transaction),
+    );
+    statuses.set(signature, {
+      slot: await banksClient.getSlot(),
+      err: outcome.result ? getTransactionError(outcome.result) : null,
+    });
+    return { signature, outcome };
+  };
+
+  const airdrop = async (address: AddressLike, lamports: number | bigint) => {
+    // Funded from the bank's payer, so the bank's capitalization stays
+    // consistent across `warpToSlot` calls
+    // / 由银行的付款人出资，以便在 `warpToSlot` 调用之间保持银行资本一致
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: toPublicKey(address),
+        lamports: BigInt(lamports),
+      }),
+    );
+    transaction.recentBlockhash = (await getLatestBlockhash()).blockhash;
+    transaction.feePayer = payer.publicKey;
+    transaction.sign(payer);
+    const { signature, outcome } = await executeTransaction(transaction, {
+      preflight: false,
+    });
+    if (outcome.result) {
+      throw new Error(`Airdrop to ${address} failed: ${outcome.result}`);
+    }
+    return signature;
+  };
+
+  const handlers: HarnessRpcHandlers = {
+    async getAccountInfo(address: Address, config?: AccountConfig) {
+      const account = await banksClient.getAccount(new PublicKey(address));
+      return encodeAccount(account, config);
+    },
+    async getBalance(address: Address) {
+      return await banksClient.getBalance(new PublicKey(address));
+    },
+    async getEpochInfo() {
+      const [clock, blockHeight] = await Promise.all([
+        banksClient.getClock(),
+        banksClient.getBlockHeight(),
+      ]);
+      const schedule = context.genesisConfig.epochSchedule;
+      // Warmup epochs start at 32 slots and double until the first normal one
+      // / 预热纪元从 32 个槽开始，每次翻倍，直到第一个正常纪元
+      const slotsInEpoch =
+        clock.epoch < schedule.firstNormalEpoch
+          ? MINIMUM_SLOTS_PER_EPOCH << clock.epoch
+          : schedule.slotsPerEpoch;
+      const firstSlot =
+        clock.epoch < schedule.firstNormalEpoch
+          ? slotsInEpoch - MINIMUM_SLOTS_PER_EPOCH
+          : schedule.firstNormalSlot +
+            (clock.epoch - schedule.firstNormalEpoch) * schedule.slotsPerEpoch;
+      return {
+        absoluteSlot: clock.slot,
+        blockHeight,
+        epoch: clock.epoch,
+        slotIndex: clock.slot - firstSlot,
+        slotsInEpoch,
+        transactionCount: null,
+      };
+    },
+    async getLatestBlockhash() {
+      return await getLatestBlockhash();
+    },
+    async getMinimumBalanceForRentExemption(size: number | bigint) {
+      const rent = await banksClient.getRent();
+      return rent.minimumBalance(BigInt(size));
+    },
+    async getMultipleAccounts(addresses: Address[], config?: AccountConfig) {
+      return await Promise.all(
+        addresses.map(async (address) =>
+          encodeAccount(
+            await banksClient.getAccount(new PublicKey(address)),
+            config,
+          ),
+        ),
+      );
+    },
+    async getSignatureStatuses(signatures: string[]) {
+      return signatures.map((signature) => {
+        const status = statuses.get(signature);
+        return status
+          ? {
+              confirmationStatus: "finalized",
+              confirmations: null,
+              err: status.err,
+              slot: status.slot,
+              status: status.err ? { Err: status.err } : { Ok: null },
+            }
+          : null;
+      });
+    },
+    async getSlot() {
+      return await banksClient.getSlot();
+    },
+    async requestAirdrop(address: Address, lamports: number | bigint) {
+      return await airdrop(address, lamports);
+    },
+    async sendTransaction(
+      wireTransaction: string,
+      config?: { skipPreflight?: boolean },
+    ) {
+      const { signature, outcome } = await executeTransaction(
+        VersionedTransaction.deserialize(
+          Buffer.from(wireTransaction, "base64"),
+        ),
+        { preflight: !config?.skipPreflight },
+      );
+      if (outcome.result && !config?.skipPreflight) {
+        throw new JsonRpcError(
+          -32002,
+          `Transaction simulation failed: ${outcome.result}`,
+          {
+            accounts: null,
+            err: getTransactionError(outcome.result),
+            logs: outcome.meta?.logMessages ?? [],
+            returnData: null,
+            unitsConsumed: outcome.meta?.computeUnitsConsumed,
+          },
+        );
+      }
+      return signature;
+    },
+    async simulateTransaction(
+      wireTransaction: string,
+      config?: {
+        accounts?: { addresses: Address[] };
+        replaceRecentBlockhash?: boolean;
+      },
+    ) {
+      if (config?.accounts?.addresses.length) {
+        throw new JsonRpcError(
+          -32602,
+          "The test harness cannot return simulated account states",
+        );
+      }
+      const transaction = VersionedTransaction.deserialize(
+        Buffer.from(wireTransaction, "base64"),
+      );
+      if (config?.replaceRecentBlockhash) {
+        transaction.message.recentBlockhash = (
+          await getLatestBlockhash()
+        ).blockhash;
+      }
+      const simulation = await banksClient.simulateTransaction(
+        toBankTransaction(transaction),
+      );
+      return {
+        accounts: config?.accounts ? [] : null,
+        err: simulation.result ? getTransactionError(simulation.result) : null,
+        logs: simulation.meta?.logMessages ?? [],
+        returnData: null,
+        unitsConsumed: simulation.meta?.computeUnitsConsumed,
+      };
+    },
+  };
+  const isHarnessRpcMethod = (method: string): method is HarnessRpcMethod =>
+    Object.prototype.hasOwnProperty.call(handlers, method);
+  // Methods that real nodes wrap in `{ context, value }`
+  // / 真实节点用 `{ context, value }` 包装的方法
+  const contextualMethods = new Set([
+    "getAccountInfo",
+    "getBalance",
+    "getLatestBlockhash",
+    "getMultipleAccounts",
+    "getSignatureStatuses",
+    "simulateTransaction",
+  ]);
+
+  const transport: RpcTransport = async <TResponse>({
+    payload,
+  }: Parameters<RpcTransport>[0]): Promise<TResponse> => {
+    const { id, method, params = [] } = payload as JsonRpcRequest;
+    try {
+      if (!isHarnessRpcMethod(method)) {
+        throw new JsonRpcError(-32601, `Method not found: ${method}`);
+      }
+      // Kit built `params` from the signature of `method` in `SolanaRpcApi`
+      // / Kit 按 `SolanaRpcApi` 中 `method` 的签名构建了 `params`
+      const handler = handlers[method] as (
+        ...params: unknown[]
+      ) => Promise<unknown>;
+      const value = await handler(...params);
+      const result = contextualMethods.has(method)
+        ? { context: { slot: await banksClient.getSlot() }, value }
+        : value;
+      return { id, jsonrpc: "2.0", result } as TResponse;
+    } catch (error) {
+      if (!(error instanceof JsonRpcError)) {
+        throw error;
+      }
+      const { code, message, data } = error;
+      return {
+        error: { code, data, message },
+        id,
+        jsonrpc: "2.0",
+      } as TResponse;
+    }
+  };
+  const processTransaction: TestHarness["processTransaction"] = async (
+    transaction,
+    signers = [],
+  ) => {
+    if (transaction instanceof Transaction) {
+      transaction.recentBlockhash ??= (await getLatestBlockhash()).blockhash;
+      transaction.feePayer ??= signers[0]?.publicKey ?? payer.publicKey;
+      transaction.sign(
+        ...(transaction.feePayer.equals(payer.publicKey) ? [payer] : []),
+        ...signers,
+      );
+    } else if (transaction instanceof VersionedTransaction) {
+      if (signers.length > 0) {
+        transaction.sign(signers);
+      }
+    } else {
+      transaction = VersionedTransaction.deserialize(
+        new Uint8Array(getTransactionEncoder().encode(transaction)),
+      );
+    }
+    const { signature, outcome } = await executeTransaction(transaction, {
+      preflight: false,
+    });
+    return {
+      signature,
+      err: outcome.result,
+      logs: outcome.meta?.logMessages ?? [],
+    };
+  };
+
+  const subscriptionsTransport: RpcSubscriptionsTransport = async () => ({
+    on: () => () => {},
+  });
+
+  return {
+    context,
+    banksClient,
+    payer,
+    programAddress,
+    rpc: createRpc({ api: createSolanaRpcApi<SolanaRpcApi>(), transport }),
+    rpcSubscriptions: createSubscriptionRpc({
+      api: createSolanaRpcSubscriptionsApi<SolanaRpcSubscriptionsApi>(),
+      transport: subscriptionsTransport,
+    }),
+    airdrop,
+    async warpToSlot(slot) {
+      context.warpToSlot(BigInt(slot));
+    },
+    async getAccount(address) {
+      return await banksClient.getAccount(toPublicKey(address));
+    },
+    async getBalance(address) {
+      return await banksClient.getBalance(toPublicKey(address));
+    },
+    processTransaction,
+    async sendTransaction(transaction, signers) {
+      const { signature, err, logs } = await processTransaction(
+        transaction,
+        signers,
+      );
+      if (err) {
+        throw new Error(
+          `Transaction ${signature} failed: ${err}\n` +
+            `Logs:\n${logs.join("\n")}`,
+        );
+      }
+      return signature;
+    },
+  };
+}
@@ -0,0 +1,288 @@
+// client/history-test.ts
+import { describe, it, before } from "node:test";
+import assert from "node:assert";
+import {
+  AccountRole,
+  address,
+  createNoopSigner,
+  type Address,
+  type Instruction,
+  type Signature,
+} from "@solana/kit";
+import { getTransferSolInstruction } from "@solana-program/system";
+import {
+  findVaultPda,
+  getCloseVaultInstruction,
+  getDepositInstruction,
+  getWithdrawAmountInstruction,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  WITHDRAW_DISCRIMINATOR,
+} from "../clients/js/src/generated";
+import {
+  formatVaultStatementCsv,
+  formatVaultStatementJson,
+  getVaultHistory,
+  type VaultHistory,
+} from "../clients/js/src/history";
+import {
+  createFakeRpc,
+  createFakeTransaction,
+  programLogs,
+  type FakeTransaction,
+} from "./fake-rpc";
+
+const OWNER = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+const PAYER = address("4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T");
+const VAULT_RENT = 1_002_240n;
+
+describe("Vault history", () => {
+  let vault: Address;
+  let transactions: FakeTransaction[];
+  let undecodedTransactions: FakeTransaction[];
+
+  before(async () => {
+    [vault] = await findVaultPda({ owner: OWNER });
+    const owner = createNoopSigner(OWNER);
+
+    // Builds a transaction whose vault balance goes from `pre` to `post`
+    // / 构建一笔 vault 余额从 `pre` 变为 `post` 的交易
+    const build = (
+      seed: number,
+      instructions: Instruction[],
+      [pre, post]: [bigint, bigint],
+      logMessages: string[],
+      failed = false,
+    ) =>
+      createFakeTransaction({
+        seed,
+        feePayer: PAYER,
+        instructions,
+        logMessages,
+        failed,
+        balance: { address: vault, pre, post },
+      });
+
+    transactions = [
+      build(
+        1,
+        [getDepositInstruction({ owner, vault, amount: 100_000_000n })],
+        [0n, VAULT_RENT + 100_000_000n],
+        programLogs("Vault created", "100000000 Lamports deposited to vault"),
+      ),
+      build(
+        2,
+        [getWithdrawAmountInstruction({ owner, vault, amount: 10n ** 12n })],
+        [VAULT_RENT + 100_000_000n, VAULT_RENT + 100_000_000n],
+        [],
+        true,
+      ),
+      build(
+        3,
+        [
+          getTransferSolInstruction({
+            source: createNoopSigner(PAYER),
+            destination: vault,
+            amount: 5000n,
+          }),
+        ],
+        [VAULT_RENT + 100_000_000n, VAULT_RENT + 100_005_000n],
+        [],
+      ),
+      build(
+        4,
+        [getWithdrawAmountInstruction({ owner, vault, amount: 40_000_000n })],
+        [VAULT_RENT + 100_005_000n, VAULT_RENT + 60_005_000n],
+        programLogs("40000000 lamports withdrawn from vault"),
+      ),
+      build(
+        5,
+        [getCloseVaultInstruction({ owner, vault })],
+        [VAULT_RENT + 60_005_000n, 0n],
+        programLogs(
+          `Vault closed, ${VAULT_RENT + 60_005_000n} lamports returned to owner`,
+        ),
+      ),
+    ];
+
+    // Instructions the generated parsers reject: a withdraw with only the
+    // accounts the program reads, and a discriminator this client predates
+    // / 生成的解析器拒绝的指令：只带程序读取账户的取款，以及客户端尚不认识的判别符
+    undecodedTransactions = [
+      transactions[0],
+      build(
+        6,
+        [
+          {
+            programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+            accounts: [
+              { address: OWNER, role: AccountRole.WRITABLE_SIGNER },
+              { address: vault, role: AccountRole.WRITABLE },
+            ],
+            data: new Uint8Array([WITHDRAW_DISCRIMINATOR]),
+          },
+        ],
+        [VAULT_RENT + 100_000_000n, VAULT_RENT],
+        programLogs("100000000 lamports withdrawn from vault"),
+      ),
+      build(
+        7,
+        [
+          {
+            programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+            accounts: [
+              { address: OWNER, role: AccountRole.WRITABLE_SIGNER },
+              { address: vault, role: AccountRole.WRITABLE },
+            ],
+            data: new Uint8Array([0xff]),
+          },
+        ],
+        [VAULT_RENT, VAULT_RENT],
+        programLogs(),
+      ),
+    ];
+  });
+
+  it("lists successful transactions oldest first with running balances", async () => {
+    const { rpc } = createFakeRpc(transactions);
+    const history = await getVaultHistory(rpc, OWNER);
+
+    assert.strictEqual(history.vault, vault);
+    assert.strictEqual(history.nextBefore, null);
+    assert.deepStrictEqual(
+      history.entries.map(({ signature, delta, postBalance }) => ({
+        signature,
+        delta,
+        postBalance,
+      })),
+      [
+        {
+          signature: transactions[0].signature,
+          delta: VAULT_RENT + 100_000_000n,
+          postBalance: VAULT_RENT + 100_000_000n,
+        },
+        {
+          signature: transactions[2].signature,
+          delta: 5000n,
+          postBalance: VAULT_RENT + 100_005_000n,
+        },
+        {
+          signature: transactions[3].signature,
+          delta: -40_000_000n,
+          postBalance: VAULT_RENT + 60_005_000n,
+        },
+        {
+          signature: transactions[4].signature,
+          delta: -(VAULT_RENT + 60_005_000n),
+          postBalance: 0n,
+        },
+      ],
+    );
+    assert.deepStrictEqual(history.entries[0].instructions, [
+      { index: 0, kind: "deposit", amount: 100_000_000n, vaultCreated: true },
+    ]);
+    // Transfers that bypass the program have no instructions
+    // / 绕过程序的转账没有对应的指令
+    assert.deepStrictEqual(history.entries[1].instructions, []);
+  });
+
+  it("lists transactions whose instructions cannot be decoded", async () => {
+    const { rpc } = createFakeRpc(undecodedTransactions);
+    const history = await getVaultHistory(rpc, OWNER);
+
+    assert.deepStrictEqual(
+      history.entries.map(({ slot, delta, instructions }) => ({
+        slot,
+        delta,
+        instructions,
+      })),
+      [
+        {
+          slot: 101n,
+          delta: VAULT_RENT + 100_000_000n,
+          instructions: [
+            {
+              index: 0,
+              kind: "deposit",
+              amount: 100_000_000n,
+              vaultCreated: true,
+            },
+          ],
+        },
+        {
+          slot: 106n,
+          delta: -100_000_000n,
+          instructions: [
+            {
+              index: 0,
+              kind: "withdraw",
+              amount: 100_000_000n,
+              vaultCreated: false,
+            },
+          ],
+        },
+        { slot: 107n, delta: 0n, instructions: [] },
+      ],
+    );
+  });
+
+  it("pages through the signatures with before and limit", async () => {
+    const { rpc, signatureRequests } = createFakeRpc(transactions);
+    const pages: VaultHistory[] = [];
+    let before: Signature | undefined;
+    do {
+      const page = await getVaultHistory(rpc, OWNER, { before, limit: 2 });
+      pages.push(page);
+      before = page.nextBefore ?? undefined;
+    } while (before);
+
+    assert.deepStrictEqual(
+      pages.map((page) => page.entries.map(({ slot }) => slot)),
+      [[104n, 105n], [103n], [101n]],
+    );
+    assert.deepStrictEqual(
+      signatureRequests.map(({ limit }) => limit),
+      [2, 2, 2],
+    );
+  });
+
+  it("stops at the until signature", async () => {
+    const { rpc } = createFakeRpc(transactions);
+    const history = await getVaultHistory(rpc, OWNER, {
+      until: transactions[2].signature,
+    });
+    assert.deepStrictEqual(
+      history.entries.map(({ slot }) => slot),
+      [104n, 105n],
+    );
+  });
+
+  it("exports CSV and JSON statements", async () => {
+    const { rpc } = createFakeRpc(transactions.slice(0, 3));
+    const history = await getVaultHistory(rpc, OWNER);
+
+    assert.strictEqual(
+      formatVaultStatementCsv(history),
+      [
+        "slot,block_time,signature,activity,delta_lamports,balance_lamports",
+        `101,2023-11-14T22:14:20.000Z,${transactions[0].signature},deposit 100000000 (vault created),101002240,101002240`,
+        `103,2023-11-14T22:16:20.000Z,${transactions[2].signature},transfer,5000,101007240`,
+        "",
+      ].join("\n"),
+    );
+
+    const statement = JSON.parse(formatVaultStatementJson(history));
+    assert.strictEqual(statement.vault, vault);
+    assert.strictEqual(statement.openingBalance, "0");
+    assert.strictEqual(statement.closingBalance, "101007240");
+    assert.deepStrictEqual(statement.entries[0], {
+      signature: transactions[0].signature,
+      slot: "101",
+      blockTime: "2023-11-14T22:14:20.000Z",
+      instructions: [
+        { index: 0, kind: "deposit", amount: "100000000", vaultCreated: true },
+      ],
+      delta: "101002240",
+      balance: "101002240",
+    });
+  });
+});
@@ -0,0 +1,164 @@
+// client/indexer-test.ts
+import { describe, it, before } from "node:test";
+import assert from "node:assert";
+import {
+  AccountRole,
+  address,
+  createNoopSigner,
+  type Address,
+  type Instruction,
+} from "@solana/kit";
+import {
+  findVaultPda,
+  getDepositInstruction,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  WITHDRAW_DISCRIMINATOR,
+} from "../clients/js/src/generated";
+import {
+  VaultIndexer,
+  type VaultLedger,
+  type VaultLedgerStore,
+} from "../clients/js/src/indexer";
+import { fetchPinocchioDemoTransaction } from "../clients/js/src/transactions";
+import {
+  createFakeRpc,
+  createFakeTransaction,
+  programLogs,
+  type FakeTransaction,
+} from "./fake-rpc";
+
+const OWNER = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+
+function build(
+  seed: number,
+  instructions: Instruction[],
+  logMessages: string[],
+  failed = false,
+): FakeTransaction {
+  return createFakeTransaction({
+    seed,
+    feePayer: OWNER,
+    instructions,
+    logMessages,
+    failed,
+  });
+}
+
+function createMemoryStore(): VaultLedgerStore & { saved: VaultLedger[] } {
+  const saved: VaultLedger[] = [];
+  return {
+    saved,
+    async load() {
+      return { lastSignature: null, entries: [] };
+    },
+    async save(ledger) {
+      saved.push(structuredClone(ledger));
+    },
+  };
+}
+
+describe("Vault indexer", () => {
+  let vault: Address;
+  let transactions: FakeTransaction[];
+
+  before(async () => {
+    [vault] = await findVaultPda({ owner: OWNER });
+    const owner = createNoopSigner(OWNER);
+    // Withdraw with only the accounts the program reads, which the
+    // generated parser (expecting the system program too) rejects
+    // / 只带程序实际读取账户的 Withdraw，生成的解析器（还需要 system program）会拒绝它
+    const shortWithdraw: Instruction = {
+      programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+      accounts: [
+        { address: OWNER, role: AccountRole.WRITABLE_SIGNER },
+        { address: vault, role: AccountRole.WRITABLE },
+      ],
+      data: new Uint8Array([WITHDRAW_DISCRIMINATOR]),
+    };
+    const junk: Instruction = {
+      programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+      accounts: [{ address: OWNER, role: AccountRole.WRITABLE_SIGNER }],
+      data: new Uint8Array([0xff]),
+    };
+
+    transactions = [
+      build(
+        1,
+        [getDepositInstruction({ owner, vault, amount: 100_000_000n })],
+        programLogs("Vault created", "100000000 Lamports deposited to vault"),
+      ),
+      build(2, [junk], [], true),
+      build(
+        3,
+        [shortWithdraw],
+        programLogs("100000000 lamports withdrawn from vault"),
+      ),
+    ];
+  });
+
+  it("keeps instructions the generated parser rejects as undecoded", async () => {
+    const { rpc } = createFakeRpc(transactions);
+    const transaction = await fetchPinocchioDemoTransaction(
+      rpc,
+      transactions[2].signature,
+    );
+
+    assert.ok(transaction);
+    assert.deepStrictEqual(transaction.instructions, []);
+    assert.strictEqual(transaction.undecodedInstructions.length, 1);
+    assert.strictEqual(transaction.undecodedInstructions[0].decodeError, null);
+    assert.deepStrictEqual(transaction.undecodedInstructions[0].events, [
+      { kind: "Withdrawn", instructionIndex: 0, amount: 100_000_000n },
+    ]);
+  });
+
+  it("indexes a two-account withdraw and skips failed transactions", async () => {
+    const { rpc, fetched } = createFakeRpc(transactions);
+    const store = createMemoryStore();
+    const indexer = new VaultIndexer({ rpc, store });
+
+    assert.strictEqual(await indexer.sync(), 2);
+
+    const ledger = await indexer.getLedger();
+    assert.strictEqual(ledger.lastSignature, transactions[2].signature);
+    assert.deepStrictEqual(
+      ledger.entries.map(({ signature, owner, vault, kind, amount }) => ({
+        signature,
+        owner,
+        vault,
+        kind,
+        amount,
+      })),
+      [
+        {
+          signature: transactions[0].signature,
+          owner: OWNER,
+          vault,
+          kind: "deposit",
+          amount: 100_000_000n,
+        },
+        {
+          signature: transactions[2].signature,
+          owner: OWNER,
+          vault,
+          kind: "withdraw",
+          amount: 100_000_000n,
+        },
+      ],
+    );
+    // The failed transaction is recorded as processed without being fetched
+    // / 失败的交易被记为已处理，但不会被拉取
+    assert.deepStrictEqual(fetched, [
+      transactions[0].signature,
+      transactions[2].signature,
+    ]);
+    assert.deepStrictEqual(
+      store.saved.map(({ lastSignature }) => lastSignature),
+      transactions.map(({ signature }) => signature),
+    );
+
+    // A second sync has nothing left to do
+    // / 第二次同步没有剩余工作
+    assert.strictEqual(await indexer.sync(), 0);
+  });
+});
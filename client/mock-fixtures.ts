@@ -0,0 +1,35 @@
+// client/mock-fixtures.ts
+import { generateKeyPairSigner, type KeyPairSigner } from "@solana/kit";
+import {
+  createMockVaultRpc,
+  type MockVaultRpc,
+  type MockVaultRpcConfig,
+} from "../clients/js/src/mock";
+import {
+  getDefaultRentExemptMinimum,
+  VAULT_ACCOUNT_SIZE,
+} from "../clients/js/src/rent";
+import { LAMPORTS_PER_SOL } from "../clients/js/src/units";
+
+export { LAMPORTS_PER_SOL, VAULT_ACCOUNT_SIZE };
+
+/** Fee the mock RPC charges per signature by default. */
+export const FEE = 5_000n;
+
+/** Rent-exempt minimum of a vault, as charged by the mock RPC. */
+export const VAULT_RENT = getDefaultRentExemptMinimum(VAULT_ACCOUNT_SIZE);
+
+/** Generates an owner holding one SOL on the mock cluster. */
+export async function createFundedOwner(
+  mock: MockVaultRpc,
+): Promise<KeyPairSigner> {
+  const owner = await generateKeyPairSigner();
+  mock.airdrop(owner.address, LAMPORTS_PER_SOL);
+  return owner;
+}
+
+/** A mock cluster with an owner holding one SOL. */
+export async function createMockCluster(config: MockVaultRpcConfig = {}) {
+  const mock = createMockVaultRpc(config);
+  return { mock, owner: await createFundedOwner(mock) };
+}
@@ -0,0 +1,513 @@
+// client/mock-rpc-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  AccountRole,
+  airdropFactory,
+  appendTransactionMessageInstruction,
+  compileTransaction,
+  createTransactionMessage,
+  generateKeyPairSigner,
+  getBase64EncodedWireTransaction,
+  getSignatureFromTransaction,
+  isSolanaError,
+  lamports,
+  none,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+  some,
+  SOLANA_ERROR__JSON_RPC__SERVER_ERROR_SEND_TRANSACTION_PREFLIGHT_FAILURE,
+  SOLANA_ERROR__JSON_RPC__SERVER_ERROR_TRANSACTION_SIGNATURE_VERIFICATION_FAILURE,
+  type Instruction,
+  type TransactionSigner,
+} from "@solana/kit";
+import {
+  fetchVaultDelegate,
+  getVaultDelegate,
+} from "../clients/js/src/delegate";
+import {
+  fetchVault,
+  findVaultPda,
+  getDepositInstruction,
+  getSetDelegateInstruction,
+  getWithdrawAmountInstruction,
+  PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+  PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+  PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+} from "../clients/js/src/generated";
+import { createMockVaultRpc, type MockVaultRpc } from "../clients/js/src/mock";
+import {
+  getDefaultRentExemptMinimum,
+  getVaultRentExemptMinimum,
+} from "../clients/js/src/rent";
+import { simulateDeposit } from "../clients/js/src/simulation";
+import { VaultValidationError } from "../clients/js/src/validation";
+import { VaultClient } from "../clients/js/src/vaultClient";
+import { watchVault } from "../clients/js/src/watch";
+import {
+  createFundedOwner,
+  FEE,
+  LAMPORTS_PER_SOL,
+  VAULT_RENT,
+} from "./mock-fixtures";
+
+/** Asserts that `promise` fails preflight with the program error `code`. */
+async function assertProgramError(promise: Promise<unknown>, code: number) {
+  await assert.rejects(promise, (error) => {
+    assert.ok(
+      isSolanaError(
+        error,
+        SOLANA_ERROR__JSON_RPC__SERVER_ERROR_SEND_TRANSACTION_PREFLIGHT_FAILURE,
+      ),
+    );
+    assert.deepStrictEqual(error.context.logs?.slice(-1), [
+      `Program ${PINOCCHIO_DEMO_PROGRAM_ADDRESS} failed: custom program error: 0x${code.toString(16)}`,
+    ]);
+    return true;
+  });
+}
+
+/** Signs `instruction` paid by `feePayer` without sending it. */
+async function signInstruction(
+  mock: MockVaultRpc,
+  feePayer: TransactionSigner,
+  instruction: Instruction,
+) {
+  const { value: latestBlockhash } = await mock.rpc.getLatestBlockhash().send();
+  return await signTransactionMessageWithSigners(
+    pipe(
+      createTransactionMessage({ version: 0 }),
+      (tx) => setTransactionMessageFeePayerSigner(feePayer, tx),
+      (tx) => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+      (tx) => appendTransactionMessageInstruction(instruction, tx),
+    ),
+  );
+}
+
+describe("Mock vault RPC", () => {
+  it("runs a VaultClient deposit, withdraw and close with fees", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const client = new VaultClient({ ...mock, signer: owner });
+
+    const deposited = await client.deposit(100_000_000n);
+    assert.strictEqual(deposited.vaultBalance, VAULT_RENT + 100_000_000n);
+    assert.strictEqual(
+      deposited.ownerBalance,
+      LAMPORTS_PER_SOL - VAULT_RENT - 100_000_000n - FEE,
+    );
+    assert.strictEqual(await client.getWithdrawable(), 100_000_000n);
+
+    const withdrawn = await client.withdraw(40_000_000n);
+    assert.strictEqual(withdrawn.vaultBalance, VAULT_RENT + 60_000_000n);
+
+    const closed = await client.closeVault();
+    assert.strictEqual(closed.vaultBalance, 0n);
+    assert.strictEqual(closed.ownerBalance, LAMPORTS_PER_SOL - 3n * FEE);
+    assert.strictEqual(await client.exists(), false);
+  });
+
+  it("rejects program errors in preflight without charging fees", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const client = new VaultClient({ ...mock, signer: owner });
+    await client.deposit(1_000n);
+    const balance = mock.getBalance(owner.address);
+
+    await assert.rejects(client.withdraw(2_000n), (error) => {
+      assert.ok(
+        isSolanaError(
+          error,
+          SOLANA_ERROR__JSON_RPC__SERVER_ERROR_SEND_TRANSACTION_PREFLIGHT_FAILURE,
+        ),
+      );
+      assert.deepStrictEqual(error.context.logs?.slice(-1), [
+        `Program ${client.programAddress} failed: custom program error: 0x${PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS.toString(16)}`,
+      ]);
+      return true;
+    });
+    assert.strictEqual(mock.getBalance(owner.address), balance);
+  });
+
+  it("lands failed transactions sent without preflight", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const [vault] = await findVaultPda({ owner: owner.address });
+    // A vault PDA taken over by another program
+    // / 被其他程序占用的 vault PDA
+    mock.setAccount(vault, {
+      lamports: VAULT_RENT,
+      owner: owner.address,
+      space: 16,
+    });
+
+    const transaction = await signInstruction(
+      mock,
+      owner,
+      getDepositInstruction({ owner, vault, amount: 1_000n }),
+    );
+    const signature = await mock.rpc
+      .sendTransaction(getBase64EncodedWireTransaction(transaction), {
+        encoding: "base64",
+        skipPreflight: true,
+      })
+      .send();
+    assert.strictEqual(signature, getSignatureFromTransaction(transaction));
+
+    const { value: statuses } = await mock.rpc
+      .getSignatureStatuses([signature])
+      .send();
+    assert.deepStrictEqual(statuses[0]?.err, {
+      InstructionError: [
+        0n,
+        { Custom: BigInt(PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM) },
+      ],
+    });
+    assert.strictEqual(mock.getBalance(owner.address), LAMPORTS_PER_SOL - FEE);
+    assert.strictEqual(mock.getBalance(vault), VAULT_RENT);
+  });
+
+  it("verifies signatures", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const [vault] = await findVaultPda({ owner: owner.address });
+    const { value: latestBlockhash } = await mock.rpc
+      .getLatestBlockhash()
+      .send();
+    // Compiled but never signed
+    // / 已编译但未签名
+    const transaction = compileTransaction(
+      pipe(
+        createTransactionMessage({ version: 0 }),
+        (tx) => setTransactionMessageFeePayerSigner(owner, tx),
+        (tx) =>
+          setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+        (tx) =>
+          appendTransactionMessageInstruction(
+            getWithdrawAmountInstruction({ owner, vault, amount: 1n }),
+            tx,
+          ),
+      ),
+    );
+    await assert.rejects(
+      mock.rpc
+        .sendTransaction(getBase64EncodedWireTransaction(transaction), {
+          encoding: "base64",
+        })
+        .send(),
+      (error) =>
+        isSolanaError(
+          error,
+          SOLANA_ERROR__JSON_RPC__SERVER_ERROR_TRANSACTION_SIGNATURE_VERIFICATION_FAILURE,
+        ),
+    );
+  });
+
+  it("simulates without changing the ledger", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    assert.strictEqual(await getVaultRentExemptMinimum(mock.rpc), VAULT_RENT);
+
+    const simulation = await simulateDeposit(mock.rpc, {
+      owner,
+      amount: 5_000n,
+    });
+    assert.strictEqual(simulation.success, true);
+    assert.strictEqual(simulation.vaultCreated, true);
+    assert.strictEqual(simulation.vault.delta, VAULT_RENT + 5_000n);
+    assert.strictEqual(simulation.owner.delta, -(VAULT_RENT + 5_000n + FEE));
+    assert.strictEqual(mock.getBalance(owner.address), LAMPORTS_PER_SOL);
+  });
+
+  it("publishes airdrops and vault changes to subscribers", async (t) => {
+    const mock = createMockVaultRpc();
+    const owner = await generateKeyPairSigner();
+    const airdrop = airdropFactory(mock);
+    await airdrop({
+      commitment: "confirmed",
+      lamports: lamports(LAMPORTS_PER_SOL),
+      recipientAddress: owner.address,
+    });
+    assert.strictEqual(mock.getBalance(owner.address), LAMPORTS_PER_SOL);
+
+    // The watcher reads its snapshot once it has subscribed
+    // / 监听器在订阅完成后读取快照
+    let snapshotRequested = false;
+    const rpc = new Proxy(mock.rpc, {
+      get(target, property, receiver) {
+        snapshotRequested ||= property === "getMultipleAccounts";
+        return Reflect.get(target, property, receiver);
+      },
+    });
+    const abortController = new AbortController();
+    t.after(() => abortController.abort());
+    const changes = watchVault(
+      rpc,
+      mock.rpcSubscriptions,
+      { owner: owner.address },
+      { abortSignal: abortController.signal },
+    );
+    const next = changes.next();
+    while (!snapshotRequested) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    await new VaultClient({ ...mock, signer: owner }).deposit(5_000n);
+    const change = await next;
+    assert.ok(!change.done);
+    assert.strictEqual(change.value.kind, "created");
+    assert.strictEqual(change.value.lamports, VAULT_RENT + 5_000n);
+    assert.strictEqual(change.value.slot, mock.slot);
+    await changes.return();
+  });
+});
+
+describe("Mock vault RPC WithdrawAmount", () => {
+  /** Funds an owner with a vault holding `amount` above its rent. */
+  async function setup(amount: bigint) {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    await new VaultClient({ ...mock, signer: owner }).deposit(amount);
+    const [vault] = await findVaultPda({ owner: owner.address });
+    return { mock, owner, vault };
+  }
+
+  async function withdrawAmount(
+    mock: MockVaultRpc,
+    owner: TransactionSigner,
+    amount: bigint,
+  ) {
+    const [vault] = await findVaultPda({ owner: owner.address });
+    const transaction = await signInstruction(
+      mock,
+      owner,
+      getWithdrawAmountInstruction({ owner, vault, amount }),
+    );
+    return await mock.rpc
+      .sendTransaction(getBase64EncodedWireTransaction(transaction), {
+        encoding: "base64",
+      })
+      .send();
+  }
+
+  it("pays out exactly the amount, down to the rent", async () => {
+    const { mock, owner, vault } = await setup(100_000_000n);
+    const balance = mock.getBalance(owner.address);
+
+    await withdrawAmount(mock, owner, 30_000_000n);
+    assert.strictEqual(
+      mock.getBalance(owner.address),
+      balance + 30_000_000n - FEE,
+    );
+    assert.strictEqual(mock.getBalance(vault), VAULT_RENT + 70_000_000n);
+
+    await withdrawAmount(mock, owner, 70_000_000n);
+    assert.strictEqual(
+      mock.getBalance(owner.address),
+      balance + 100_000_000n - 2n * FEE,
+    );
+    assert.strictEqual(mock.getBalance(vault), VAULT_RENT);
+  });
+
+  it("rejects amounts that would leave the vault below its rent", async () => {
+    const { mock, owner, vault } = await setup(100_000_000n);
+    const balance = mock.getBalance(owner.address);
+
+    for (const amount of [100_000_001n, VAULT_RENT + 100_000_000n]) {
+      await assertProgramError(
+        withdrawAmount(mock, owner, amount),
+        PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+      );
+    }
+    assert.strictEqual(mock.getBalance(owner.address), balance);
+    assert.strictEqual(mock.getBalance(vault), VAULT_RENT + 100_000_000n);
+  });
+
+  it("rejects a zero amount", async () => {
+    const { mock, owner, vault } = await setup(100_000_000n);
+    const balance = mock.getBalance(owner.address);
+
+    await assert.rejects(withdrawAmount(mock, owner, 0n), (error) => {
+      assert.ok(
+        isSolanaError(
+          error,
+          SOLANA_ERROR__JSON_RPC__SERVER_ERROR_SEND_TRANSACTION_PREFLIGHT_FAILURE,
+        ),
+      );
+      assert.deepStrictEqual(error.context.logs?.slice(-1), [
+        `Program ${PINOCCHIO_DEMO_PROGRAM_ADDRESS} failed: invalid instruction data`,
+      ]);
+      return true;
+    });
+    // The client catches it before signing when validating
+    // / 开启校验时客户端在签名前就会拒绝
+    await assert.rejects(
+      new VaultClient({ ...mock, signer: owner, validate: true }).withdraw(0n),
+      (error) =>
+        error instanceof VaultValidationError &&
+        error.code === "INVALID_AMOUNT",
+    );
+    assert.strictEqual(mock.getBalance(owner.address), balance);
+    assert.strictEqual(mock.getBalance(vault), VAULT_RENT + 100_000_000n);
+  });
+});
+
+describe("Mock vault RPC delegates", () => {
+  it("lets the delegate withdraw to the owner", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const bot = await createFundedOwner(mock);
+    const client = new VaultClient({ ...mock, signer: owner });
+    await client.deposit(100_000_000n);
+    assert.strictEqual(await client.getDelegate(), null);
+
+    await client.setDelegate(bot.address);
+    assert.strictEqual(await client.getDelegate(), bot.address);
+    assert.strictEqual(
+      await fetchVaultDelegate(mock.rpc, owner.address),
+      bot.address,
+    );
+
+    const ownerBalance = mock.getBalance(owner.address);
+    const botClient = new VaultClient({
+      ...mock,
+      signer: bot,
+      owner: owner.address,
+      validate: true,
+    });
+    const withdrawn = await botClient.withdraw(40_000_000n);
+    assert.strictEqual(withdrawn.ownerBalance, ownerBalance + 40_000_000n);
+    assert.strictEqual(withdrawn.vaultBalance, VAULT_RENT + 60_000_000n);
+    // The delegate only pays the fee
+    // / 委托人只支付手续费
+    assert.strictEqual(mock.getBalance(bot.address), LAMPORTS_PER_SOL - FEE);
+
+    // Everything else stays with the owner
+    // / 其他操作仍只能由所有者执行
+    await assert.rejects(botClient.closeVault(), /Only the vault owner/);
+    await assert.rejects(
+      botClient.setDelegate(bot.address),
+      /Only the vault owner/,
+    );
+  });
+
+  it("rejects revoked and unauthorized delegates", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const bot = await createFundedOwner(mock);
+    const stranger = await createFundedOwner(mock);
+    const client = new VaultClient({ ...mock, signer: owner });
+    await client.deposit(100_000_000n);
+    await client.setDelegate(bot.address);
+
+    const strangerClient = new VaultClient({
+      ...mock,
+      signer: stranger,
+      owner: owner.address,
+    });
+    await assertProgramError(
+      strangerClient.withdraw(1_000n),
+      PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+    );
+
+    await client.revokeDelegate();
+    assert.strictEqual(await client.getDelegate(), null);
+    const botConfig = { ...mock, signer: bot, owner: owner.address };
+    await assertProgramError(
+      new VaultClient(botConfig).withdraw(1_000n),
+      PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+    );
+    await assert.rejects(
+      new VaultClient({ ...botConfig, validate: true }).withdraw(1_000n),
+      (error) =>
+        error instanceof VaultValidationError &&
+        error.code === "UNAUTHORIZED_DELEGATE",
+    );
+    assert.strictEqual(mock.getBalance(bot.address), LAMPORTS_PER_SOL);
+    assert.strictEqual(await client.getWithdrawable(), 100_000_000n);
+  });
+
+  it("requires the system program account to set a delegate", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const bot = await generateKeyPairSigner();
+    const [vault] = await findVaultPda({ owner: owner.address });
+    mock.setAccount(vault, {
+      lamports: getDefaultRentExemptMinimum(16),
+      owner: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+      space: 16,
+    });
+    const instruction = getSetDelegateInstruction({
+      owner,
+      vault,
+      delegate: bot.address,
+    });
+    const simulate = async (accounts: Instruction["accounts"]) => {
+      const transaction = await signInstruction(mock, owner, {
+        ...instruction,
+        accounts,
+      });
+      const { value } = await mock.rpc
+        .simulateTransaction(getBase64EncodedWireTransaction(transaction), {
+          encoding: "base64",
+        })
+        .send();
+      return value.err;
+    };
+
+    // Without the system program the legacy vault cannot be grown
+    // / 没有系统程序账户时无法为旧版 vault 扩容
+    assert.deepStrictEqual(await simulate(instruction.accounts.slice(0, 3)), {
+      InstructionError: [0n, "NotEnoughAccountKeys"],
+    });
+    assert.deepStrictEqual(
+      await simulate([
+        ...instruction.accounts.slice(0, 3),
+        { address: bot.address, role: AccountRole.READONLY },
+      ]),
+      { InstructionError: [0n, "IncorrectProgramId"] },
+    );
+    assert.strictEqual(await simulate(instruction.accounts), null);
+  });
+
+  it("grows vaults created before delegation existed", async () => {
+    const mock = createMockVaultRpc();
+    const owner = await createFundedOwner(mock);
+    const bot = await generateKeyPairSigner();
+    const [vault] = await findVaultPda({ owner: owner.address });
+    const legacyRent = getDefaultRentExemptMinimum(16);
+    mock.setAccount(vault, {
+      lamports: legacyRent + 5_000n,
+      owner: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+      space: 16,
+    });
+    const client = new VaultClient({ ...mock, signer: owner });
+    assert.deepStrictEqual(
+      (await fetchVault(mock.rpc, vault)).data.delegate,
+      none(),
+    );
+    assert.strictEqual(await client.getDelegate(), null);
+    assert.strictEqual(await client.getWithdrawable(), 5_000n);
+
+    const result = await client.setDelegate(bot.address);
+    assert.strictEqual(result.vaultBalance, VAULT_RENT + 5_000n);
+    assert.strictEqual(
+      result.ownerBalance,
+      LAMPORTS_PER_SOL - (VAULT_RENT - legacyRent) - FEE,
+    );
+    assert.strictEqual(mock.getAccount(vault)?.space, 48);
+    assert.strictEqual(await client.getWithdrawable(), 5_000n);
+    assert.strictEqual(await client.getDelegate(), bot.address);
+    assert.deepStrictEqual(
+      (await fetchVault(mock.rpc, vault)).data.delegate,
+      some(bot.address),
+    );
+    assert.strictEqual(
+      getVaultDelegate({ address: vault, exists: false }),
+      null,
+    );
+  });
+});
@@ -0,0 +1,237 @@
+// client/parsers-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { getSetComputeUnitLimitInstruction } from "@solana-program/compute-budget";
+import {
+  AccountRole,
+  address,
+  appendTransactionMessageInstructions,
+  compileTransactionMessage,
+  createNoopSigner,
+  createTransactionMessage,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+  type Blockhash,
+  type Instruction,
+} from "@solana/kit";
+import {
+  getCloseVaultInstruction,
+  getDelegateWithdrawInstruction,
+  getDepositInstruction,
+  getRevokeDelegateInstruction,
+  getSetDelegateInstruction,
+  getWithdrawAmountInstruction,
+  getWithdrawInstruction,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  PinocchioDemoInstruction,
+  WITHDRAW_DISCRIMINATOR,
+} from "../clients/js/src/generated";
+import {
+  getPinocchioDemoDecodeError,
+  parsePinocchioDemoInstruction,
+  parsePinocchioDemoTransaction,
+} from "../clients/js/src/parsers";
+
+const OWNER = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+const VAULT = address("HXtBm8XZbxaTt41uqaKhwUAa6Z1aPyvJdsZVENiWsetg");
+const DELEGATE = address("4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T");
+
+const owner = createNoopSigner(OWNER);
+const delegate = createNoopSigner(DELEGATE);
+
+/** Compiles `instructions` into a message paid by the owner. */
+function compile(instructions: Instruction[]) {
+  return compileTransactionMessage(
+    pipe(
+      createTransactionMessage({ version: 0 }),
+      (message) => setTransactionMessageFeePayer(OWNER, message),
+      (message) =>
+        setTransactionMessageLifetimeUsingBlockhash(
+          {
+            blockhash: "11111111111111111111111111111111" as Blockhash,
+            lastValidBlockHeight: 0n,
+          },
+          message,
+        ),
+      (message) => appendTransactionMessageInstructions(instructions, message),
+    ),
+  );
+}
+
+describe("Instruction parser", () => {
+  it("parses a deposit", () => {
+    const parsed = parsePinocchioDemoInstruction(
+      getDepositInstruction({ owner, vault: VAULT, amount: 1_000n }),
+    );
+    assert.ok(parsed.instructionType === PinocchioDemoInstruction.Deposit);
+    assert.strictEqual(parsed.accounts.owner.address, OWNER);
+    assert.strictEqual(parsed.accounts.vault.address, VAULT);
+    assert.deepStrictEqual(parsed.data, { discriminator: 0, amount: 1_000n });
+  });
+
+  it("parses a withdraw", () => {
+    const parsed = parsePinocchioDemoInstruction(
+      getWithdrawInstruction({ owner, vault: VAULT }),
+    );
+    assert.ok(parsed.instructionType === PinocchioDemoInstruction.Withdraw);
+    assert.strictEqual(parsed.accounts.owner.address, OWNER);
+    assert.strictEqual(parsed.accounts.vault.address, VAULT);
+    assert.deepStrictEqual(parsed.data, { discriminator: 1 });
+  });
+
+  it("parses a withdrawal of an amount", () => {
+    const parsed = parsePinocchioDemoInstruction(
+      getWithdrawAmountInstruction({ owner, vault: VAULT, amount: 2_000n }),
+    );
+    assert.ok(
+      parsed.instructionType === PinocchioDemoInstruction.WithdrawAmount,
+    );
+    assert.strictEqual(parsed.accounts.vault.address, VAULT);
+    assert.deepStrictEqual(parsed.data, { discriminator: 2, amount: 2_000n });
+  });
+
+  it("parses a vault closure", () => {
+    const parsed = parsePinocchioDemoInstruction(
+      getCloseVaultInstruction({ owner, vault: VAULT }),
+    );
+    assert.ok(parsed.instructionType === PinocchioDemoInstruction.CloseVault);
+    assert.strictEqual(parsed.accounts.owner.address, OWNER);
+    assert.deepStrictEqual(parsed.data, { discriminator: 3 });
+  });
+
+  it("parses setting and revoking a delegate", () => {
+    const set = parsePinocchioDemoInstruction(
+      getSetDelegateInstruction({ owner, vault: VAULT, delegate: DELEGATE }),
+    );
+    assert.ok(set.instructionType === PinocchioDemoInstruction.SetDelegate);
+    assert.strictEqual(set.accounts.vault.address, VAULT);
+    assert.deepStrictEqual(set.data, { discriminator: 4, delegate: DELEGATE });
+
+    const revoke = parsePinocchioDemoInstruction(
+      getRevokeDelegateInstruction({ owner, vault: VAULT }),
+    );
+    assert.ok(
+      revoke.instructionType === PinocchioDemoInstruction.RevokeDelegate,
+    );
+    assert.strictEqual(revoke.accounts.vault.address, VAULT);
+    assert.deepStrictEqual(revoke.data, { discriminator: 5 });
+  });
+
+  it("parses a delegate withdrawal", () => {
+    const parsed = parsePinocchioDemoInstruction(
+      getDelegateWithdrawInstruction({
+        owner: OWNER,
+        vault: VAULT,
+        delegate,
+        amount: 3_000n,
+      }),
+    );
+    assert.ok(
+      parsed.instructionType === PinocchioDemoInstruction.DelegateWithdraw,
+    );
+    assert.strictEqual(parsed.accounts.owner.address, OWNER);
+    assert.strictEqual(parsed.accounts.delegate.address, DELEGATE);
+    assert.deepStrictEqual(parsed.data, { discriminator: 6, amount: 3_000n });
+  });
+
+  it("throws on an unknown discriminator", () => {
+    for (const data of [new Uint8Array([7]), new Uint8Array()]) {
+      assert.throws(
+        () =>
+          parsePinocchioDemoInstruction({
+            programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+            accounts: [],
+            data,
+          }),
+        /could not be identified as a pinocchioDemo instruction/,
+      );
+    }
+  });
+
+  it("throws on instructions with only the accounts the program reads", () => {
+    // The program only reads the owner and the vault, but the generated
+    // parser expects every account of the IDL
+    // / 程序只读取所有者和 vault，但生成的解析器要求 IDL 中的全部账户
+    const withdraw = {
+      programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+      accounts: [
+        { address: OWNER, role: AccountRole.WRITABLE_SIGNER },
+        { address: VAULT, role: AccountRole.WRITABLE },
+      ],
+      data: new Uint8Array([WITHDRAW_DISCRIMINATOR]),
+    };
+    assert.strictEqual(getPinocchioDemoDecodeError(withdraw), null);
+    assert.throws(
+      () => parsePinocchioDemoInstruction(withdraw),
+      /Not enough accounts/,
+    );
+
+    const deposit = getDepositInstruction({
+      owner,
+      vault: VAULT,
+      amount: 1_000n,
+    });
+    assert.throws(
+      () =>
+        parsePinocchioDemoInstruction({
+          ...deposit,
+          accounts: deposit.accounts.slice(0, 3),
+        }),
+      /Not enough accounts/,
+    );
+  });
+});
+
+describe("Transaction parser", () => {
+  it("parses the vault instructions in order and skips other programs", () => {
+    const parsed = parsePinocchioDemoTransaction(
+      compile([
+        getSetComputeUnitLimitInstruction({ units: 50_000 }),
+        getDepositInstruction({ owner, vault: VAULT, amount: 1_000n }),
+        getSetDelegateInstruction({ owner, vault: VAULT, delegate: DELEGATE }),
+        getWithdrawInstruction({ owner, vault: VAULT }),
+      ]),
+    );
+    assert.deepStrictEqual(
+      parsed.map(({ instructionType }) => instructionType),
+      [
+        PinocchioDemoInstruction.Deposit,
+        PinocchioDemoInstruction.SetDelegate,
+        PinocchioDemoInstruction.Withdraw,
+      ],
+    );
+    assert.ok(parsed[0].instructionType === PinocchioDemoInstruction.Deposit);
+    assert.strictEqual(parsed[0].data.amount, 1_000n);
+    assert.strictEqual(parsed[0].accounts.owner.address, OWNER);
+  });
+
+  it("returns nothing for another program address", () => {
+    assert.deepStrictEqual(
+      parsePinocchioDemoTransaction(
+        compile([getWithdrawInstruction({ owner, vault: VAULT })]),
+        { programAddress: DELEGATE },
+      ),
+      [],
+    );
+  });
+
+  it("throws on a short vault instruction", () => {
+    assert.throws(
+      () =>
+        parsePinocchioDemoTransaction(
+          compile([
+            {
+              programAddress: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+              accounts: [
+                { address: OWNER, role: AccountRole.WRITABLE_SIGNER },
+                { address: VAULT, role: AccountRole.WRITABLE },
+              ],
+              data: new Uint8Array([WITHDRAW_DISCRIMINATOR]),
+            },
+          ]),
+        ),
+      /Not enough accounts/,
+    );
+  });
+});
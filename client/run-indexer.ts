@@ -0,0 +1,38 @@
+// client/run-indexer.ts
+import { createSolanaRpc, createSolanaRpcSubscriptions } from "@solana/kit";
+import {
+  createFileVaultLedgerStore,
+  VaultIndexer,
+} from "../clients/js/src/indexer";
+
+// Connection settings can be overridden through the environment
+// / 可以通过环境变量覆盖连接设置
+const httpProvider = process.env.RPC_URL ?? "http://127.0.0.1:8899";
+const wssProvider = process.env.WS_URL ?? "ws://127.0.0.1:8900";
+const ledgerPath = process.env.LEDGER_PATH ?? "vault-ledger.json";
+
+async function main() {
+  const indexer = new VaultIndexer({
+    rpc: createSolanaRpc(httpProvider),
+    rpcSubscriptions: createSolanaRpcSubscriptions(wssProvider),
+    store: createFileVaultLedgerStore(ledgerPath),
+  });
+
+  const abortController = new AbortController();
+  process.on("SIGINT", () => abortController.abort());
+
+  console.log(`Indexing ${indexer.programAddress} into ${ledgerPath}`);
+  await indexer.watch(abortController.signal);
+
+  for (const summary of await indexer.getSummaries()) {
+    console.log(
+      `${summary.owner} (vault ${summary.vault}): ` +
+        `deposited ${summary.deposited}, withdrawn ${summary.withdrawn}`,
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
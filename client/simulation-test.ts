@@ -0,0 +1,205 @@
+// client/simulation-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { type Address } from "@solana/kit";
+import {
+  findVaultPda,
+  getPinocchioDemoErrorMessage,
+  PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+  PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  type PinocchioDemoError,
+} from "../clients/js/src/generated";
+import {
+  simulateDeposit,
+  simulateWithdraw,
+} from "../clients/js/src/simulation";
+import {
+  createMockCluster,
+  FEE,
+  LAMPORTS_PER_SOL,
+  VAULT_ACCOUNT_SIZE,
+  VAULT_RENT,
+} from "./mock-fixtures";
+
+/**
+ * A mock cluster whose owner is given as a bare address, since simulations
+ * do not check signatures, and optionally a vault holding `vaultLamports`
+ * above its rent.
+ */
+async function setup(vaultLamports?: bigint) {
+  const {
+    mock,
+    owner: { address: owner },
+  } = await createMockCluster({ unitsConsumed: 2_500n });
+  const [vault] = await findVaultPda({ owner });
+  if (vaultLamports !== undefined) {
+    mock.setAccount(vault, {
+      lamports: VAULT_RENT + vaultLamports,
+      owner: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+      space: VAULT_ACCOUNT_SIZE,
+    });
+  }
+  return { mock, owner, vault };
+}
+
+function programError(code: PinocchioDemoError) {
+  return {
+    instructionIndex: 0,
+    code,
+    message: getPinocchioDemoErrorMessage(code),
+  };
+}
+
+function change(address: Address, before: bigint, after: bigint) {
+  return { address, before, after, delta: after - before };
+}
+
+describe("Deposit simulation", () => {
+  it("projects the balances of a deposit that creates the vault", async () => {
+    const { mock, owner, vault } = await setup();
+    const simulation = await simulateDeposit(mock.rpc, {
+      owner,
+      amount: 100_000_000n,
+    });
+
+    assert.strictEqual(simulation.success, true);
+    assert.strictEqual(simulation.err, null);
+    assert.strictEqual(simulation.programError, null);
+    assert.strictEqual(simulation.unitsConsumed, 2_500n);
+    assert.deepStrictEqual(
+      simulation.owner,
+      change(
+        owner,
+        LAMPORTS_PER_SOL,
+        LAMPORTS_PER_SOL - VAULT_RENT - 100_000_000n - FEE,
+      ),
+    );
+    assert.deepStrictEqual(
+      simulation.vault,
+      change(vault, 0n, VAULT_RENT + 100_000_000n),
+    );
+    assert.strictEqual(simulation.vaultCreated, true);
+    assert.strictEqual(simulation.vaultCreationRent, VAULT_RENT);
+    assert.deepStrictEqual(
+      simulation.events.map(({ kind }) => kind),
+      ["VaultCreated", "Deposited"],
+    );
+    // Nothing lands
+    // / 不会上链
+    assert.strictEqual(mock.getBalance(owner), LAMPORTS_PER_SOL);
+    assert.strictEqual(mock.getAccount(vault), null);
+  });
+
+  it("charges no rent when the vault exists", async () => {
+    const { mock, owner, vault } = await setup(1_000n);
+    const simulation = await simulateDeposit(mock.rpc, {
+      owner,
+      amount: 5_000n,
+    });
+
+    assert.strictEqual(simulation.vaultCreated, false);
+    assert.strictEqual(simulation.vaultCreationRent, 0n);
+    assert.strictEqual(simulation.owner.delta, -(5_000n + FEE));
+    assert.deepStrictEqual(
+      simulation.vault,
+      change(vault, VAULT_RENT + 1_000n, VAULT_RENT + 6_000n),
+    );
+  });
+
+  it("decodes the program error and leaves the balances unchanged", async () => {
+    const { mock, owner, vault } = await setup();
+    // A vault PDA taken over by another program
+    // / 被其他程序占用的 vault PDA
+    mock.setAccount(vault, {
+      lamports: VAULT_RENT,
+      owner,
+      space: VAULT_ACCOUNT_SIZE,
+    });
+    const simulation = await simulateDeposit(mock.rpc, {
+      owner,
+      amount: 5_000n,
+    });
+
+    assert.strictEqual(simulation.success, false);
+    assert.deepStrictEqual(simulation.err, {
+      InstructionError: [
+        0n,
+        { Custom: BigInt(PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM) },
+      ],
+    });
+    assert.deepStrictEqual(
+      simulation.programError,
+      programError(PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM),
+    );
+    assert.strictEqual(simulation.owner.delta, 0n);
+    assert.strictEqual(simulation.vault.delta, 0n);
+    assert.deepStrictEqual(simulation.events, []);
+  });
+});
+
+describe("Withdraw simulation", () => {
+  it("projects the balances of a partial withdrawal", async () => {
+    const { mock, owner, vault } = await setup(100_000_000n);
+    const simulation = await simulateWithdraw(mock.rpc, {
+      owner,
+      amount: 40_000_000n,
+    });
+
+    assert.strictEqual(simulation.success, true);
+    assert.deepStrictEqual(
+      simulation.owner,
+      change(owner, LAMPORTS_PER_SOL, LAMPORTS_PER_SOL + 40_000_000n - FEE),
+    );
+    assert.deepStrictEqual(
+      simulation.vault,
+      change(vault, VAULT_RENT + 100_000_000n, VAULT_RENT + 60_000_000n),
+    );
+    assert.deepStrictEqual(simulation.events, [
+      { kind: "Withdrawn", instructionIndex: 0, amount: 40_000_000n },
+    ]);
+  });
+
+  it("withdraws everything above the rent when no amount is given", async () => {
+    const { mock, owner, vault } = await setup(100_000_000n);
+    const simulation = await simulateWithdraw(mock.rpc, { owner });
+
+    assert.strictEqual(simulation.success, true);
+    assert.strictEqual(simulation.owner.delta, 100_000_000n - FEE);
+    assert.deepStrictEqual(
+      simulation.vault,
+      change(vault, VAULT_RENT + 100_000_000n, VAULT_RENT),
+    );
+  });
+
+  it("decodes insufficient funds", async () => {
+    const { mock, owner } = await setup(1_000n);
+    const simulation = await simulateWithdraw(mock.rpc, {
+      owner,
+      amount: 2_000n,
+    });
+
+    assert.strictEqual(simulation.success, false);
+    assert.deepStrictEqual(
+      simulation.programError,
+      programError(PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS),
+    );
+    assert.strictEqual(simulation.owner.delta, 0n);
+    assert.strictEqual(simulation.vault.delta, 0n);
+    assert.ok(
+      simulation.logs.some((log) => log.includes("custom program error")),
+    );
+  });
+
+  it("decodes a withdrawal from a vault that does not exist", async () => {
+    const { mock, owner, vault } = await setup();
+    const simulation = await simulateWithdraw(mock.rpc, { owner });
+
+    assert.strictEqual(simulation.success, false);
+    assert.deepStrictEqual(
+      simulation.programError,
+      programError(PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM),
+    );
+    assert.deepStrictEqual(simulation.vault, change(vault, 0n, 0n));
+  });
+});
@@ -3,8 +3,6 @@ import { describe, it, before } from "node:test";
 import assert from "node:assert";
 import {
   airdropFactory,
-  createSolanaRpc,
-  createSolanaRpcSubscriptions,
   generateKeyPairSigner,
   lamports,
   sendAndConfirmTransactionFactory,
@@ -15,11 +13,34 @@ import {
   appendTransactionMessageInstruction,
   signTransactionMessageWithSigners,
   getSignatureFromTransaction,
-  getProgramDerivedAddress,
-  getAddressEncoder,
-  getUtf8Encoder,
+  fetchEncodedAccount,
 } from "@solana/kit";
 import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+import {
+  findVaultPda,
+  isPinocchioDemoError,
+  PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+  PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+} from "../clients/js/src/generated";
+import { VaultClient } from "../clients/js/src/vaultClient";
+import {
+  getFirstDepositCost,
+  getVaultRentExemptMinimum,
+  getWithdrawableLamports,
+} from "../clients/js/src/rent";
+import {
+  validateDeposit,
+  validateWithdraw,
+  VaultValidationError,
+} from "../clients/js/src/validation";
+import { sendDepositBatch } from "../clients/js/src/batch";
+import {
+  buildDurableNonceVaultTransaction,
+  createNonceAccount,
+  sendSerializedTransaction,
+  signSerializedTransaction,
+} from "../clients/js/src/nonce";
+import { startTestHarness } from "./harness";
 
 // 使用实际部署的程序地址
 const PROGRAM_ID = "GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG";
@@ -30,21 +51,15 @@ describe("Vault Program", () => {
   let rpc: any;
   let rpcSubscriptions: any;
   let signer: any;
-  let vaultRent: BigInt;
+  let vaultRent: bigint;
   let vaultPDA: any;
 
-  const ACCOUNT_DISCRIMINATOR_SIZE = 8; // same as Anchor/Rust
-  const U64_SIZE = 8; // u64 is 8 bytes
-  const VAULT_SIZE = ACCOUNT_DISCRIMINATOR_SIZE + U64_SIZE; // 16
   const DEPOSIT_AMOUNT = BigInt(100000000);
 
   before(async () => {
-    // Establish connection to Solana cluster
-    // / 建立与 Solana 集群的连接
-    const httpProvider = "http://127.0.0.1:8899";
-    const wssProvider = "ws://127.0.0.1:8900";
-    rpc = createSolanaRpc(httpProvider);
-    rpcSubscriptions = createSolanaRpcSubscriptions(wssProvider);
+    // Load the program into an in-process bank instead of a validator
+    // / 将程序加载到进程内的银行，而不是验证器
+    ({ rpc, rpcSubscriptions } = await startTestHarness());
 
     // Generate signers
     // / 生成签名者
@@ -64,18 +79,11 @@ describe("Vault Program", () => {
 
     // get vault rent
     // / 获取 vault 租金
-    vaultRent = await rpc.getMinimumBalanceForRentExemption(VAULT_SIZE).send();
+    vaultRent = await getVaultRentExemptMinimum(rpc);
 
     // Get vault PDA
     // / 获取 vault PDA
-    const seedTag = getUtf8Encoder().encode("vault");
-    const seedSigner = getAddressEncoder().encode(await signer.address);
-    const pdaResult = await getProgramDerivedAddress({
-      programAddress: PROGRAM_ID,
-      seeds: [seedTag, seedSigner],
-    });
-
-    vaultPDA = pdaResult.address;
+    [vaultPDA] = await findVaultPda({ owner: signer.address });
     console.log(`Vault PDA: ${vaultPDA}`);
   });
 
@@ -136,6 +144,12 @@ describe("Vault Program", () => {
 
     const { value } = await rpc.getBalance(vaultPDA).send();
     assert.equal(DEPOSIT_AMOUNT, Number(value) - Number(vaultRent));
+    // The vault holds everything the first deposit cost, apart from fees
+    // / 除手续费外，首次存款的全部花费都存入了 vault
+    assert.equal(
+      value,
+      getFirstDepositCost(DEPOSIT_AMOUNT, { rentExemptMinimum: vaultRent }),
+    );
   });
 
   it("can withdraw from vault", async () => {
@@ -161,6 +175,13 @@ describe("Vault Program", () => {
       programAddress: PROGRAM_ID,
     };
 
+    // Withdraw pays out everything above the rent-exempt minimum
+    // / Withdraw 取出租金最低限额以上的全部余额
+    assert.equal(
+      getWithdrawableLamports(await fetchEncodedAccount(rpc, vaultPDA)),
+      DEPOSIT_AMOUNT,
+    );
+
     const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
     const tx = await pipe(
       createTransactionMessage({ version: 0 }),
@@ -231,9 +252,202 @@ describe("Vault Program", () => {
       sendAndConfirmTransaction(signedTransaction, {
         commitment: "confirmed",
       }),
-      {
-        message: "Transaction simulation failed",
+      (error: any) => {
+        assert.equal(error.message, "Transaction simulation failed");
+        // The other signer's vault PDA does not match the vault address
+        // / 其他签名者的 vault PDA 与该 vault 地址不一致
+        assert.ok(
+          isPinocchioDemoError(
+            error.cause,
+            tx,
+            PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+          ),
+        );
+        return true;
       },
     );
   });
+
+  it("can close the vault and reclaim rent", async () => {
+    const vaultClient = new VaultClient({ rpc, rpcSubscriptions, signer });
+    const { value: ownerBalanceBefore } = await rpc
+      .getBalance(signer.address)
+      .send();
+
+    const { ownerBalance, vaultBalance } = await vaultClient.closeVault();
+
+    // Vault rent is returned to the owner, minus the transaction fee
+    // / vault 租金返还给所有者（扣除交易费）
+    assert.equal(vaultBalance, BigInt(0));
+    assert.equal(await vaultClient.exists(), false);
+    assert.ok(ownerBalance > ownerBalanceBefore);
+  });
+
+  it("can deposit to many vaults in one batch", async () => {
+    const airdrop = airdropFactory({ rpc, rpcSubscriptions });
+    const owners = await Promise.all(
+      Array.from({ length: 3 }, () => generateKeyPairSigner()),
+    );
+    for (const owner of owners) {
+      await airdrop({
+        commitment: "confirmed",
+        lamports: lamports(LAMPORTS_PER_SOL),
+        recipientAddress: owner.address,
+      });
+    }
+
+    const results = await sendDepositBatch(
+      owners.map((owner) => ({ owner, amount: DEPOSIT_AMOUNT })),
+      { rpc, rpcSubscriptions, feePayer: signer },
+    );
+
+    // Every item succeeds and each vault holds its deposit plus rent
+    // / 每一项都成功，每个 vault 持有存款和租金
+    assert.equal(results.length, owners.length);
+    for (const result of results) {
+      assert.equal(result.status, "success");
+      const { value: balance } = await rpc.getBalance(result.vault).send();
+      assert.equal(balance, DEPOSIT_AMOUNT + (vaultRent as bigint));
+    }
+  });
+
+  it("can withdraw with an offline-signed durable nonce transaction", async () => {
+    const vaultClient = new VaultClient({ rpc, rpcSubscriptions, signer });
+    await vaultClient.deposit(DEPOSIT_AMOUNT);
+    const nonceAccount = await generateKeyPairSigner();
+    await createNonceAccount(
+      { rpc, rpcSubscriptions },
+      { payer: signer, nonceAccount, authority: signer.address },
+    );
+
+    // Build online, sign "offline", then broadcast
+    // / 在线构建，离线签名，然后广播
+    const unsigned = await buildDurableNonceVaultTransaction(rpc, {
+      kind: "withdraw",
+      owner: signer.address,
+      nonceAccount: nonceAccount.address,
+      nonceAuthority: signer.address,
+    });
+    const signed = await signSerializedTransaction(unsigned, [signer]);
+    await sendSerializedTransaction({ rpc, rpcSubscriptions }, signed);
+
+    assert.equal(await vaultClient.getBalance(), vaultRent);
+  });
+
+  it("rejects invalid calls before signing when validation is enabled", async () => {
+    const owner = await generateKeyPairSigner();
+    const airdrop = airdropFactory({ rpc, rpcSubscriptions });
+    await airdrop({
+      commitment: "confirmed",
+      lamports: lamports(LAMPORTS_PER_SOL),
+      recipientAddress: owner.address,
+    });
+    const vaultClient = new VaultClient({
+      rpc,
+      rpcSubscriptions,
+      signer: owner,
+      validate: true,
+    });
+    const vault = await vaultClient.getVaultAddress();
+    const rejectsWith = (promise: Promise<unknown>, code: string) =>
+      assert.rejects(promise, (error) => {
+        assert.ok(error instanceof VaultValidationError);
+        assert.equal(error.code, code);
+        return true;
+      });
+
+    await rejectsWith(vaultClient.deposit(0), "INVALID_AMOUNT");
+    await rejectsWith(vaultClient.deposit(2n ** 64n), "INVALID_AMOUNT");
+    await rejectsWith(
+      vaultClient.deposit(LAMPORTS_PER_SOL),
+      "INSUFFICIENT_FUNDS",
+    );
+    await rejectsWith(vaultClient.withdrawAll(), "VAULT_NOT_FOUND");
+    await rejectsWith(vaultClient.closeVault(), "VAULT_NOT_FOUND");
+    await rejectsWith(
+      validateDeposit(rpc, {
+        owner: owner.address,
+        vault: vaultPDA,
+        amount: DEPOSIT_AMOUNT,
+      }),
+      "VAULT_ADDRESS_MISMATCH",
+    );
+
+    // Lamports sent to the PDA create a system account, not a vault
+    // / 向 PDA 转入 lamports 只会创建系统账户，而不是 vault
+    await airdrop({
+      commitment: "confirmed",
+      lamports: lamports(DEPOSIT_AMOUNT),
+      recipientAddress: vault,
+    });
+    await rejectsWith(
+      validateWithdraw(rpc, { owner: owner.address, vault }),
+      "VAULT_NOT_OWNED_BY_PROGRAM",
+    );
+
+    // Nothing was signed or sent
+    // / 没有签名或发送任何交易
+    const { value: ownerBalance } = await rpc.getBalance(owner.address).send();
+    assert.equal(ownerBalance, LAMPORTS_PER_SOL);
+  });
+
+  it("lets a delegate withdraw to the owner until it is revoked", async () => {
+    const airdrop = airdropFactory({ rpc, rpcSubscriptions });
+    const [owner, delegate, stranger] = await Promise.all(
+      Array.from({ length: 3 }, () => generateKeyPairSigner()),
+    );
+    for (const { address } of [owner, delegate, stranger]) {
+      await airdrop({
+        commitment: "confirmed",
+        lamports: lamports(LAMPORTS_PER_SOL),
+        recipientAddress: address,
+      });
+    }
+    const ownerClient = new VaultClient({
+      rpc,
+      rpcSubscriptions,
+      signer: owner,
+    });
+    await ownerClient.deposit(DEPOSIT_AMOUNT);
+    await ownerClient.setDelegate(delegate.address);
+    assert.equal(await ownerClient.getDelegate(), delegate.address);
+
+    // The delegate signs, the owner receives the lamports
+    // / 委托人签名，所有者收到 lamports
+    const delegateClient = new VaultClient({
+      rpc,
+      rpcSubscriptions,
+      signer: delegate,
+      owner: owner.address,
+    });
+    const { value: ownerBalanceBefore } = await rpc
+      .getBalance(owner.address)
+      .send();
+    const { ownerBalance } = await delegateClient.withdraw(DEPOSIT_AMOUNT / 2n);
+    assert.equal(ownerBalance, ownerBalanceBefore + DEPOSIT_AMOUNT / 2n);
+
+    const rejectsWithUnauthorizedDelegate = (promise: Promise<unknown>) =>
+      assert.rejects(promise, (error: any) => {
+        assert.equal(error.message, "Transaction simulation failed");
+        assert.equal(
+          error.cause.context.logs.at(-1),
+          `Program ${PROGRAM_ID} failed: custom program error: 0x${PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE.toString(16)}`,
+        );
+        return true;
+      });
+
+    // Unauthorized signers and revoked delegates are rejected
+    // / 未授权的签名者和已撤销的委托人都会被拒绝
+    await rejectsWithUnauthorizedDelegate(
+      new VaultClient({
+        rpc,
+        rpcSubscriptions,
+        signer: stranger,
+        owner: owner.address,
+      }).withdraw(1n),
+    );
+    await ownerClient.revokeDelegate();
+    assert.equal(await ownerClient.getDelegate(), null);
+    await rejectsWithUnauthorizedDelegate(delegateClient.withdraw(1n));
+  });
 });
@@ -0,0 +1,106 @@
+// client/units-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { formatSol, parseLamports } from "../clients/js/src/units";
+
+describe("parseLamports", () => {
+  it("reads amounts without a unit as SOL", () => {
+    assert.strictEqual(parseLamports("1"), 1_000_000_000n);
+    assert.strictEqual(parseLamports("1.5"), 1_500_000_000n);
+    assert.strictEqual(parseLamports(" 0.25 "), 250_000_000n);
+    assert.strictEqual(parseLamports("0"), 0n);
+  });
+
+  it("accepts SOL and lamport units in any case", () => {
+    assert.strictEqual(parseLamports("1.5 SOL"), 1_500_000_000n);
+    assert.strictEqual(parseLamports("1.5sol"), 1_500_000_000n);
+    assert.strictEqual(parseLamports("1500 lamports"), 1_500n);
+    assert.strictEqual(parseLamports("1500Lamport"), 1_500n);
+  });
+
+  it("keeps every fractional digit up to nine decimals", () => {
+    assert.strictEqual(parseLamports("0.000000001"), 1n);
+    assert.strictEqual(parseLamports("0.1"), 100_000_000n);
+    assert.strictEqual(parseLamports("1.000000001"), 1_000_000_001n);
+    assert.strictEqual(parseLamports("0.123456789"), 123_456_789n);
+    // Beyond the precision of a double
+    // / 超出双精度浮点数的精度
+    assert.strictEqual(
+      parseLamports("18446744073.709551615"),
+      18_446_744_073_709_551_615n,
+    );
+  });
+
+  it("rejects more than nine decimals", () => {
+    assert.throws(
+      () => parseLamports("0.0000000001"),
+      /SOL amounts support at most 9 decimals: "0.0000000001"/,
+    );
+    assert.throws(
+      () => parseLamports("1.1234567890 SOL"),
+      /at most 9 decimals/,
+    );
+  });
+
+  it("rejects fractional lamports", () => {
+    assert.throws(
+      () => parseLamports("1.5 lamports"),
+      /Lamport amounts must be whole numbers: "1.5 lamports"/,
+    );
+  });
+
+  it("rejects negative and malformed amounts", () => {
+    for (const input of [
+      "-1",
+      "-0.5 SOL",
+      "-100 lamports",
+      "",
+      ".5",
+      "1.",
+      "1e9",
+      "1 btc",
+      "one",
+    ]) {
+      assert.throws(() => parseLamports(input), {
+        message: `Invalid amount: "${input}".`,
+      });
+    }
+  });
+});
+
+describe("formatSol", () => {
+  it("drops trailing zeros", () => {
+    assert.strictEqual(formatSol(0n), "0");
+    assert.strictEqual(formatSol(1_000_000_000n), "1");
+    assert.strictEqual(formatSol(1_500_000_000n), "1.5");
+    assert.strictEqual(formatSol(100_000_000n), "0.1");
+  });
+
+  it("keeps all nine decimals", () => {
+    assert.strictEqual(formatSol(1n), "0.000000001");
+    assert.strictEqual(formatSol(1_000_000_001n), "1.000000001");
+    assert.strictEqual(formatSol(123_456_789n), "0.123456789");
+    assert.strictEqual(
+      formatSol(18_446_744_073_709_551_615n),
+      "18446744073.709551615",
+    );
+  });
+
+  it("formats negative amounts", () => {
+    assert.strictEqual(formatSol(-1n), "-0.000000001");
+    assert.strictEqual(formatSol(-1_500_000_000n), "-1.5");
+    assert.strictEqual(formatSol(-2_000_000_000n), "-2");
+  });
+
+  it("round-trips through parseLamports", () => {
+    for (const lamports of [
+      0n,
+      1n,
+      999_999_999n,
+      1_000_000_000n,
+      42_000_000_007n,
+    ]) {
+      assert.strictEqual(parseLamports(formatSol(lamports)), lamports);
+    }
+  });
+});
@@ -0,0 +1,243 @@
+// client/vault-client-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { generateKeyPairSigner } from "@solana/kit";
+import { findVaultPda } from "../clients/js/src/generated";
+import {
+  VaultValidationError,
+  type VaultValidationErrorCode,
+} from "../clients/js/src/validation";
+import {
+  VaultClient,
+  type VaultClientConfig,
+} from "../clients/js/src/vaultClient";
+import {
+  createMockCluster,
+  FEE,
+  LAMPORTS_PER_SOL,
+  VAULT_ACCOUNT_SIZE,
+  VAULT_RENT,
+} from "./mock-fixtures";
+
+/** A client signed by the owner of a mock cluster. */
+async function setup(config: Partial<VaultClientConfig> = {}) {
+  const { mock, owner } = await createMockCluster();
+  const client = new VaultClient({ ...mock, signer: owner, ...config });
+  return { mock, owner, client };
+}
+
+/** Asserts that `promise` fails validation with `code`. */
+async function assertValidationError(
+  promise: Promise<unknown>,
+  code: VaultValidationErrorCode,
+) {
+  await assert.rejects(promise, (error) => {
+    assert.ok(error instanceof VaultValidationError);
+    assert.strictEqual(error.code, code);
+    return true;
+  });
+}
+
+describe("VaultClient", () => {
+  it("derives the owner's vault address", async () => {
+    const { owner, client } = await setup();
+    const [vault] = await findVaultPda({ owner: owner.address });
+
+    assert.strictEqual(client.owner, owner.address);
+    assert.strictEqual(client.isDelegate, false);
+    assert.strictEqual(await client.getVaultAddress(), vault);
+    assert.strictEqual(await client.exists(), false);
+    assert.strictEqual(await client.getBalance(), 0n);
+    assert.strictEqual(await client.getWithdrawable(), 0n);
+  });
+
+  it("creates the vault on the first deposit and tops it up after", async () => {
+    const { mock, owner, client } = await setup();
+
+    const created = await client.deposit(100_000_000n);
+    assert.strictEqual(created.vaultBalance, VAULT_RENT + 100_000_000n);
+    assert.strictEqual(
+      created.ownerBalance,
+      LAMPORTS_PER_SOL - VAULT_RENT - 100_000_000n - FEE,
+    );
+    assert.strictEqual(await client.exists(), true);
+
+    const toppedUp = await client.deposit(50_000_000n);
+    assert.strictEqual(toppedUp.vaultBalance, VAULT_RENT + 150_000_000n);
+    assert.strictEqual(
+      toppedUp.ownerBalance,
+      created.ownerBalance - 50_000_000n - FEE,
+    );
+    assert.strictEqual(mock.getBalance(owner.address), toppedUp.ownerBalance);
+    assert.strictEqual(await client.getWithdrawable(), 150_000_000n);
+  });
+
+  it("withdraws everything above the rent", async () => {
+    const { client } = await setup();
+    const { ownerBalance } = await client.deposit(100_000_000n);
+
+    const withdrawn = await client.withdrawAll();
+    assert.strictEqual(withdrawn.vaultBalance, VAULT_RENT);
+    assert.strictEqual(
+      withdrawn.ownerBalance,
+      ownerBalance + 100_000_000n - FEE,
+    );
+    assert.strictEqual(await client.getWithdrawable(), 0n);
+    assert.strictEqual(await client.exists(), true);
+  });
+
+  it("closes the vault and returns the rent", async () => {
+    const { mock, client } = await setup();
+    await client.deposit(100_000_000n);
+
+    const closed = await client.closeVault();
+    assert.strictEqual(closed.vaultBalance, 0n);
+    assert.strictEqual(closed.ownerBalance, LAMPORTS_PER_SOL - 2n * FEE);
+    assert.strictEqual(await client.exists(), false);
+    assert.strictEqual(mock.getAccount(await client.getVaultAddress()), null);
+  });
+});
+
+describe("VaultClient validation", () => {
+  it("rejects invalid amounts before signing", async () => {
+    const { mock, owner, client } = await setup({ validate: true });
+    await assertValidationError(client.deposit(0n), "INVALID_AMOUNT");
+    await assertValidationError(client.deposit(1.5), "INVALID_AMOUNT");
+    await assertValidationError(client.deposit(2n ** 64n), "INVALID_AMOUNT");
+    await client.deposit(1_000n);
+    await assertValidationError(client.withdraw(-1n), "INVALID_AMOUNT");
+    // Only the successful deposit paid a fee
+    // / 只有成功的存款支付了手续费
+    assert.strictEqual(
+      mock.getBalance(owner.address),
+      LAMPORTS_PER_SOL - VAULT_RENT - 1_000n - FEE,
+    );
+  });
+
+  it("rejects deposits the owner cannot fund, counting the vault rent", async () => {
+    const { mock, owner, client } = await setup({ validate: true });
+    await assertValidationError(
+      client.deposit(LAMPORTS_PER_SOL - VAULT_RENT + 1n),
+      "INSUFFICIENT_FUNDS",
+    );
+    assert.strictEqual(mock.getBalance(owner.address), LAMPORTS_PER_SOL);
+  });
+
+  it("rejects withdrawals from a missing or foreign vault", async () => {
+    const { mock, owner, client } = await setup({ validate: true });
+    await assertValidationError(client.withdrawAll(), "VAULT_NOT_FOUND");
+    await assertValidationError(client.closeVault(), "VAULT_NOT_FOUND");
+    await assertValidationError(client.withdraw(1_000n), "VAULT_NOT_FOUND");
+
+    mock.setAccount(await client.getVaultAddress(), {
+      lamports: VAULT_RENT,
+      owner: owner.address,
+      space: VAULT_ACCOUNT_SIZE,
+    });
+    await assertValidationError(
+      client.deposit(1_000n),
+      "VAULT_NOT_OWNED_BY_PROGRAM",
+    );
+    await assertValidationError(
+      client.withdrawAll(),
+      "VAULT_NOT_OWNED_BY_PROGRAM",
+    );
+    assert.strictEqual(mock.getBalance(owner.address), LAMPORTS_PER_SOL);
+  });
+
+  it("rejects a signer that is not the vault's delegate", async () => {
+    const { mock, owner, client } = await setup();
+    await client.deposit(100_000_000n);
+    const stranger = await generateKeyPairSigner();
+    mock.airdrop(stranger.address, LAMPORTS_PER_SOL);
+    const delegateClient = new VaultClient({
+      ...mock,
+      signer: stranger,
+      owner: owner.address,
+      validate: true,
+    });
+
+    await assertValidationError(
+      delegateClient.withdraw(1_000n),
+      "UNAUTHORIZED_DELEGATE",
+    );
+    assert.strictEqual(mock.getBalance(stranger.address), LAMPORTS_PER_SOL);
+
+    await client.setDelegate(stranger.address);
+    const { vaultBalance } = await delegateClient.withdraw(1_000n);
+    assert.strictEqual(vaultBalance, VAULT_RENT + 100_000_000n - 1_000n);
+  });
+
+  it("leaves validation to the program when disabled", async () => {
+    const { client } = await setup();
+    await assert.rejects(
+      client.withdrawAll(),
+      (error) => !(error instanceof VaultValidationError),
+    );
+  });
+});
+
+describe("VaultClient delegates", () => {
+  it("only lets the owner call owner methods", async () => {
+    const { mock, owner, client } = await setup();
+    const delegate = await generateKeyPairSigner();
+    mock.airdrop(delegate.address, LAMPORTS_PER_SOL);
+    await client.deposit(100_000_000n);
+    await client.setDelegate(delegate.address);
+    const delegateClient = new VaultClient({
+      ...mock,
+      signer: delegate,
+      owner: owner.address,
+    });
+
+    assert.strictEqual(delegateClient.isDelegate, true);
+    assert.strictEqual(
+      await delegateClient.getVaultAddress(),
+      await client.getVaultAddress(),
+    );
+    assert.strictEqual(await delegateClient.getDelegate(), delegate.address);
+    const calls = {
+      deposit: () => delegateClient.deposit(1_000n),
+      withdrawAll: () => delegateClient.withdrawAll(),
+      closeVault: () => delegateClient.closeVault(),
+      setDelegate: () => delegateClient.setDelegate(delegate.address),
+      revokeDelegate: () => delegateClient.revokeDelegate(),
+    };
+    for (const [method, call] of Object.entries(calls)) {
+      await assert.rejects(call(), {
+        message: `Only the vault owner ${owner.address} can call ${method}; ${delegate.address} is a delegate.`,
+      });
+    }
+    // Nothing was sent
+    // / 没有发送任何交易
+    assert.strictEqual(mock.getBalance(delegate.address), LAMPORTS_PER_SOL);
+    assert.strictEqual(await client.getBalance(), VAULT_RENT + 100_000_000n);
+  });
+
+  it("withdraws to the owner as the delegate", async () => {
+    const { mock, owner, client } = await setup();
+    const delegate = await generateKeyPairSigner();
+    mock.airdrop(delegate.address, LAMPORTS_PER_SOL);
+    await client.deposit(100_000_000n);
+    await client.setDelegate(delegate.address);
+    const ownerBalance = mock.getBalance(owner.address);
+
+    const withdrawn = await new VaultClient({
+      ...mock,
+      signer: delegate,
+      owner: owner.address,
+      validate: true,
+    }).withdraw(40_000_000n);
+    // The delegate pays the fee and the owner receives the lamports
+    // / 委托人支付手续费，所有者收到 lamports
+    assert.strictEqual(withdrawn.ownerBalance, ownerBalance + 40_000_000n);
+    assert.strictEqual(withdrawn.vaultBalance, VAULT_RENT + 60_000_000n);
+    assert.strictEqual(
+      mock.getBalance(delegate.address),
+      LAMPORTS_PER_SOL - FEE,
+    );
+
+    await client.revokeDelegate();
+    assert.strictEqual(await client.getDelegate(), null);
+  });
+});
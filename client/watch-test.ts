@@ -0,0 +1,356 @@
+// client/watch-test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  address,
+  type AccountNotificationsApi,
+  type Address,
+  type GetMultipleAccountsApi,
+  type Rpc,
+  type RpcSubscriptions,
+} from "@solana/kit";
+import {
+  findVaultPda,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+} from "../clients/js/src/generated";
+import {
+  watchVault,
+  watchVaults,
+  type VaultBalanceChange,
+} from "../clients/js/src/watch";
+
+const SYSTEM_PROGRAM = address("11111111111111111111111111111111");
+const OWNER = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+const OTHER_OWNER = address("4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T");
+const WATCH_TIMEOUT_MS = 2000;
+
+type FakeAccount = { lamports: bigint; owner: Address };
+type Listener = {
+  push(notification: unknown): void;
+  fail(error: Error): void;
+};
+
+/**
+ * In-memory stand-in for a cluster: `getMultipleAccounts` reads `accounts`
+ * and `accountNotifications` streams whatever `setAccount` publishes until
+ * `disconnect` makes every open subscription fail.
+ */
+function createFakeCluster() {
+  const accounts = new Map<Address, FakeAccount>();
+  const listeners = new Map<Address, Set<Listener>>();
+  let slot = 100n;
+  let subscribeCount = 0;
+  let pollCount = 0;
+  let refuseSubscriptions = false;
+
+  const rpc = {
+    getMultipleAccounts(addresses: Address[]) {
+      return {
+        send: async () => {
+          pollCount += 1;
+          return {
+            context: { slot },
+            value: addresses.map((item) => accounts.get(item) ?? null),
+          };
+        },
+      };
+    },
+  } as unknown as Rpc<GetMultipleAccountsApi>;
+
+  const rpcSubscriptions = {
+    accountNotifications(account: Address) {
+      return {
+        subscribe: async ({ abortSignal }: { abortSignal: AbortSignal }) => {
+          if (refuseSubscriptions) {
+            throw new Error("WebSocket connection refused");
+          }
+          subscribeCount += 1;
+          const queue: unknown[] = [];
+          let failure: Error | undefined;
+          let wake: (() => void) | undefined;
+          const listener: Listener = {
+            push(notification) {
+              queue.push(notification);
+              wake?.();
+            },
+            fail(error) {
+              failure = error;
+              wake?.();
+            },
+          };
+          const set = listeners.get(account) ?? new Set();
+          set.add(listener);
+          listeners.set(account, set);
+          abortSignal.addEventListener("abort", () => {
+            set.delete(listener);
+            wake?.();
+          });
+          return {
+            async *[Symbol.asyncIterator]() {
+              while (!abortSignal.aborted) {
+                if (queue.length > 0) {
+                  yield queue.shift();
+                } else if (failure) {
+                  throw failure;
+                } else {
+                  await new Promise<void>((resolve) => (wake = resolve));
+                }
+              }
+            },
+          };
+        },
+      };
+    },
+  } as unknown as RpcSubscriptions<AccountNotificationsApi>;
+
+  return {
+    rpc,
+    rpcSubscriptions,
+    get subscribeCount() {
+      return subscribeCount;
+    },
+    get pollCount() {
+      return pollCount;
+    },
+    get openSubscriptions() {
+      return [...listeners.values()].reduce((sum, set) => sum + set.size, 0);
+    },
+    /** Updates an account at the next slot, optionally without notifying. */
+    setAccount(
+      account: Address,
+      value: FakeAccount | null,
+      { silent = false } = {},
+    ) {
+      slot += 1n;
+      if (value) {
+        accounts.set(account, value);
+      } else {
+        accounts.delete(account);
+      }
+      if (!silent) {
+        const notification = {
+          context: { slot },
+          value: value ?? { lamports: 0n, owner: SYSTEM_PROGRAM },
+        };
+        listeners
+          .get(account)
+          ?.forEach((listener) => listener.push(notification));
+      }
+    },
+    /** Publishes a notification for an older slot. */
+    sendStale(account: Address, value: FakeAccount) {
+      const notification = { context: { slot: slot - 10n }, value };
+      listeners
+        .get(account)
+        ?.forEach((listener) => listener.push(notification));
+    },
+    disconnect({ refuse = false } = {}) {
+      refuseSubscriptions = refuse;
+      for (const set of listeners.values()) {
+        set.forEach((listener) =>
+          listener.fail(new Error("WebSocket connection closed")),
+        );
+        set.clear();
+      }
+    },
+    allowSubscriptions() {
+      refuseSubscriptions = false;
+    },
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + WATCH_TIMEOUT_MS;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the watcher.");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/** Waits until the watcher has subscribed and read its first snapshot. */
+async function waitForWatcher(
+  cluster: ReturnType<typeof createFakeCluster>,
+  subscriptions: number,
+): Promise<void> {
+  await waitFor(
+    () => cluster.openSubscriptions === subscriptions && cluster.pollCount > 0,
+  );
+}
+
+async function receive(
+  next: Promise<IteratorResult<VaultBalanceChange, void>>,
+): Promise<VaultBalanceChange> {
+  let timeout: NodeJS.Timeout | undefined;
+  const result = await Promise.race([
+    next,
+    new Promise<never>((_, reject) => {
+      timeout = setTimeout(
+        () => reject(new Error("Timed out waiting for a vault change.")),
+        WATCH_TIMEOUT_MS,
+      );
+    }),
+  ]).finally(() => clearTimeout(timeout));
+  assert.ok(!result.done, "the watcher stopped unexpectedly");
+  return result.value;
+}
+
+const programAccount = (lamports: bigint): FakeAccount => ({
+  lamports,
+  owner: PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+});
+
+describe("Vault Program watcher", () => {
+  it("emits created, increased, decreased and closed changes", async () => {
+    const cluster = createFakeCluster();
+    const [vault] = await findVaultPda({ owner: OWNER });
+    const changes = watchVault(cluster.rpc, cluster.rpcSubscriptions, {
+      owner: OWNER,
+    });
+    const first = changes.next();
+    await waitForWatcher(cluster, 1);
+
+    cluster.setAccount(vault, programAccount(1_002_240n + 500n));
+    cluster.setAccount(vault, programAccount(1_002_240n + 800n));
+    cluster.setAccount(vault, programAccount(1_002_240n + 100n));
+    cluster.setAccount(vault, null);
+
+    const received = [await receive(first)];
+    for (let index = 0; index < 3; index++) {
+      received.push(await receive(changes.next()));
+    }
+    assert.deepStrictEqual(
+      received.map(({ kind, lamports, delta, slot }) => ({
+        kind,
+        lamports,
+        delta,
+        slot,
+      })),
+      [
+        {
+          kind: "created",
+          lamports: 1_002_740n,
+          delta: 1_002_740n,
+          slot: 101n,
+        },
+        { kind: "increased", lamports: 1_003_040n, delta: 300n, slot: 102n },
+        { kind: "decreased", lamports: 1_002_340n, delta: -700n, slot: 103n },
+        { kind: "closed", lamports: 0n, delta: -1_002_340n, slot: 104n },
+      ],
+    );
+    assert.ok(received.every((change) => change.vault === vault));
+    assert.ok(received.every((change) => change.owner === OWNER));
+
+    await changes.return();
+    assert.strictEqual(cluster.openSubscriptions, 0);
+  });
+
+  it("starts from the current balance and ignores stale notifications", async () => {
+    const cluster = createFakeCluster();
+    const [vault] = await findVaultPda({ owner: OWNER });
+    cluster.setAccount(vault, programAccount(2_000_000n));
+    const changes = watchVault(cluster.rpc, cluster.rpcSubscriptions, {
+      vault,
+    });
+    const next = changes.next();
+    await waitForWatcher(cluster, 1);
+
+    // Older than the snapshot: must not be reported as a withdrawal
+    // / 早于快照的通知不应被当作取款
+    cluster.sendStale(vault, programAccount(1_500_000n));
+    cluster.setAccount(vault, programAccount(2_500_000n));
+
+    assert.deepStrictEqual(await receive(next), {
+      kind: "increased",
+      vault,
+      owner: null,
+      slot: 102n,
+      lamports: 2_500_000n,
+      delta: 500_000n,
+    });
+    await changes.return();
+  });
+
+  it("watches many vaults through one subscription client", async () => {
+    const cluster = createFakeCluster();
+    const [vault] = await findVaultPda({ owner: OWNER });
+    const [otherVault] = await findVaultPda({ owner: OTHER_OWNER });
+    const changes = watchVaults(cluster.rpc, cluster.rpcSubscriptions, [
+      { owner: OWNER },
+      { owner: OTHER_OWNER },
+      // Duplicates share a single subscription
+      // / 重复的 vault 共用同一个订阅
+      { vault },
+    ]);
+    const next = changes.next();
+    await waitForWatcher(cluster, 2);
+
+    cluster.setAccount(otherVault, programAccount(3_000_000n));
+    cluster.setAccount(vault, programAccount(4_000_000n));
+
+    const received = [await receive(next), await receive(changes.next())];
+    assert.deepStrictEqual(
+      received.map(({ kind, owner }) => ({ kind, owner })),
+      [
+        { kind: "created", owner: OTHER_OWNER },
+        { kind: "created", owner: OWNER },
+      ],
+    );
+    await changes.return();
+  });
+
+  it("polls while disconnected and resubscribes", async (t) => {
+    const cluster = createFakeCluster();
+    const [vault] = await findVaultPda({ owner: OWNER });
+    cluster.setAccount(vault, programAccount(2_000_000n));
+    const abortController = new AbortController();
+    // Stops the polling loop even if an assertion fails
+    // / 即使断言失败也停止轮询循环
+    t.after(() => abortController.abort());
+    const changes = watchVault(
+      cluster.rpc,
+      cluster.rpcSubscriptions,
+      { owner: OWNER },
+      {
+        abortSignal: abortController.signal,
+        pollIntervalMs: 10,
+        reconnectDelayMs: 200,
+      },
+    );
+    const next = changes.next();
+    await waitForWatcher(cluster, 1);
+
+    // The change is only visible through polling
+    // / 该变化只能通过轮询发现
+    cluster.disconnect({ refuse: true });
+    cluster.setAccount(vault, programAccount(1_500_000n), { silent: true });
+    const polled = await receive(next);
+    assert.strictEqual(polled.kind, "decreased");
+    assert.strictEqual(polled.delta, -500_000n);
+
+    cluster.allowSubscriptions();
+    await waitFor(() => cluster.openSubscriptions === 1);
+    assert.strictEqual(cluster.subscribeCount, 2);
+    cluster.setAccount(vault, programAccount(1_700_000n));
+    const notified = await receive(changes.next());
+    assert.strictEqual(notified.kind, "increased");
+    assert.strictEqual(notified.delta, 200_000n);
+
+    abortController.abort();
+    assert.deepStrictEqual(await changes.next(), {
+      done: true,
+      value: undefined,
+    });
+    assert.strictEqual(cluster.openSubscriptions, 0);
+  });
+
+  it("throws when the first connection fails", async () => {
+    const cluster = createFakeCluster();
+    cluster.disconnect({ refuse: true });
+    const changes = watchVault(cluster.rpc, cluster.rpcSubscriptions, {
+      owner: OWNER,
+    });
+    await assert.rejects(changes.next(), /connection refused/);
+  });
+});
@@ -0,0 +1,284 @@
+import { MAX_COMPUTE_UNIT_LIMIT } from "@solana-program/compute-budget";
+import {
+  appendTransactionMessageInstructions,
+  assertIsTransactionWithBlockhashLifetime,
+  createTransactionMessage,
+  getSignatureFromTransaction,
+  getTransactionMessageSize,
+  pipe,
+  sendAndConfirmTransactionFactory,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+  TRANSACTION_SIZE_LIMIT,
+  type Address,
+  type Blockhash,
+  type Commitment,
+  type Instruction,
+  type Rpc,
+  type RpcSubscriptions,
+  type Signature,
+  type SolanaRpcApi,
+  type SolanaRpcSubscriptionsApi,
+  type TransactionSigner,
+} from "@solana/kit";
+import {
+  getComputeBudgetInstructions,
+  withComputeBudget,
+  type ComputeBudgetConfig,
+} from "./fees";
+import {
+  findVaultPda,
+  getDepositInstruction,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+} from "./generated";
+
+export type BatchDepositItem = {
+  /** Vault owner; signs the transaction and funds the deposit. */
+  owner: TransactionSigner;
+  amount: number | bigint;
+};
+
+export type BatchDepositPackingConfig = {
+  /** Pays the fees of every transaction in the batch. */
+  feePayer: TransactionSigner;
+  programAddress?: Address;
+  /**
+   * Compute units budgeted for one deposit, including a possible vault
+   * creation. Defaults to 10,000.
+   */
+  computeUnitsPerDeposit?: number;
+  /** Compute units a single transaction may use. Defaults to 1,400,000. */
+  maxComputeUnitsPerTransaction?: number;
+  /**
+   * Reserves room for the compute budget instructions when set; see
+   * {@link ComputeBudgetConfig}.
+   */
+  computeBudget?: ComputeBudgetConfig;
+};
+
+export type BatchDepositConfig = BatchDepositPackingConfig & {
+  rpc: Rpc<SolanaRpcApi>;
+  rpcSubscriptions: RpcSubscriptions<SolanaRpcSubscriptionsApi>;
+  /** Commitment used for blockhashes and confirmations. Defaults to `confirmed`. */
+  commitment?: Commitment;
+  /** Number of transactions in flight at once. Defaults to 4. */
+  concurrency?: number;
+};
+
+export type PackedDepositTransaction = {
+  /** Indexes of the batch items deposited by this transaction. */
+  itemIndexes: number[];
+  instructions: Instruction[];
+};
+
+export type BatchDepositResult = {
+  /** Index of the item in the batch. */
+  index: number;
+  owner: Address;
+  vault: Address;
+  amount: bigint;
+} & (
+  | { status: "success"; signature: Signature }
+  | {
+      status: "failed";
+      /** Set when the transaction was signed before it failed. */
+      signature: Signature | null;
+      error: unknown;
+    }
+);
+
+const DEFAULT_COMPUTE_UNITS_PER_DEPOSIT = 10_000;
+const DEFAULT_CONCURRENCY = 4;
+
+// Transactions are only sized while packing, so any blockhash will do.
+const PLACEHOLDER_LIFETIME = {
+  blockhash: "11111111111111111111111111111111" as Blockhash,
+  lastValidBlockHeight: 0n,
+};
+
+function getMessageSize(
+  feePayer: TransactionSigner,
+  instructions: readonly Instruction[],
+): number {
+  return getTransactionMessageSize(
+    pipe(
+      createTransactionMessage({ version: 0 }),
+      (tx) => setTransactionMessageFeePayerSigner(feePayer, tx),
+      (tx) =>
+        setTransactionMessageLifetimeUsingBlockhash(PLACEHOLDER_LIFETIME, tx),
+      (tx) => appendTransactionMessageInstructions(instructions, tx),
+    ),
+  );
+}
+
+/**
+ * Groups the deposit instructions of `items` into as few transactions as
+ * possible, keeping each one under the packet size and compute unit limits.
+ * Items keep their order, so each transaction covers a contiguous range.
+ */
+export async function packDepositBatch(
+  items: readonly BatchDepositItem[],
+  config: BatchDepositPackingConfig,
+): Promise<PackedDepositTransaction[]> {
+  const {
+    feePayer,
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    computeUnitsPerDeposit = DEFAULT_COMPUTE_UNITS_PER_DEPOSIT,
+    maxComputeUnitsPerTransaction = MAX_COMPUTE_UNIT_LIMIT,
+  } = config;
+  const maxDepositsPerTransaction = Math.max(
+    1,
+    Math.floor(maxComputeUnitsPerTransaction / computeUnitsPerDeposit),
+  );
+  // Worst-case budget instructions, so planning them later cannot push a
+  // packed transaction over the size limit.
+  const budgetInstructions = config.computeBudget
+    ? getComputeBudgetInstructions({
+        computeUnitLimit: MAX_COMPUTE_UNIT_LIMIT,
+        computeUnitPrice: 1n,
+      })
+    : [];
+
+  const transactions: PackedDepositTransaction[] = [];
+  let current: PackedDepositTransaction | null = null;
+  for (const [index, item] of items.entries()) {
+    const [vault] = await findVaultPda(
+      { owner: item.owner.address },
+      { programAddress },
+    );
+    const instruction = getDepositInstruction(
+      {
+        owner: item.owner,
+        vault,
+        amount: item.amount,
+      },
+      { programAddress },
+    );
+    const fits =
+      current !== null &&
+      current.itemIndexes.length < maxDepositsPerTransaction &&
+      getMessageSize(feePayer, [
+        ...budgetInstructions,
+        ...current.instructions,
+        instruction,
+      ]) <= TRANSACTION_SIZE_LIMIT;
+    if (current && fits) {
+      current.itemIndexes.push(index);
+      current.instructions.push(instruction);
+    } else {
+      current = { itemIndexes: [index], instructions: [instruction] };
+      transactions.push(current);
+    }
+  }
+  return transactions;
+}
+
+/** Runs `task` over `inputs` with at most `concurrency` calls in flight. */
+async function forEachWithConcurrency<T>(
+  inputs: readonly T[],
+  concurrency: number,
+  task: (input: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(Math.max(1, concurrency), inputs.length) },
+    async () => {
+      while (next < inputs.length) {
+        await task(inputs[next++]);
+      }
+    },
+  );
+  await Promise.all(workers);
+}
+
+/**
+ * Deposits into many vaults at once. Deposits are packed into as few
+ * transactions as fit (see {@link packDepositBatch}) and sent with bounded
+ * concurrency.
+ *
+ * Never throws for a failed transaction: every item gets a result, in batch
+ * order, and all items of a failed transaction are reported as failed since
+ * transactions are atomic.
+ */
+export async function sendDepositBatch(
+  items: readonly BatchDepositItem[],
+  config: BatchDepositConfig,
+): Promise<BatchDepositResult[]> {
+  const {
+    rpc,
+    rpcSubscriptions,
+    feePayer,
+    commitment = "confirmed",
+    concurrency = DEFAULT_CONCURRENCY,
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    computeBudget,
+  } = config;
+  const transactions = await packDepositBatch(items, config);
+  const sendAndConfirmTransaction = sendAndConfirmTransactionFactory({
+    rpc,
+    rpcSubscriptions,
+  });
+
+  const results: BatchDepositResult[] = new Array(items.length);
+  const settle = async (
+    itemIndexes: number[],
+    outcome:
+      | { status: "success"; signature: Signature }
+      | { status: "failed"; signature: Signature | null; error: unknown },
+  ) => {
+    for (const index of itemIndexes) {
+      const item = items[index];
+      const [vault] = await findVaultPda(
+        { owner: item.owner.address },
+        { programAddress },
+      );
+      results[index] = {
+        index,
+        owner: item.owner.address,
+        vault,
+        amount: BigInt(item.amount),
+        ...outcome,
+      };
+    }
+  };
+
+  await forEachWithConcurrency(
+    transactions,
+    concurrency,
+    async ({ itemIndexes, instructions }) => {
+      let signature: Signature | null = null;
+      try {
+        const budgetedInstructions = computeBudget
+          ? (
+              await withComputeBudget(
+                rpc,
+                { feePayer, instructions },
+                { commitment, ...computeBudget },
+              )
+            ).instructions
+          : instructions;
+        const { value: latestBlockhash } = await rpc
+          .getLatestBlockhash({ commitment })
+          .send();
+        const transactionMessage = pipe(
+          createTransactionMessage({ version: 0 }),
+          (tx) => setTransactionMessageFeePayerSigner(feePayer, tx),
+          (tx) =>
+            setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+          (tx) =>
+            appendTransactionMessageInstructions(budgetedInstructions, tx),
+        );
+        const signedTransaction =
+          await signTransactionMessageWithSigners(transactionMessage);
+        assertIsTransactionWithBlockhashLifetime(signedTransaction);
+        signature = getSignatureFromTransaction(signedTransaction);
+        await sendAndConfirmTransaction(signedTransaction, { commitment });
+        await settle(itemIndexes, { status: "success", signature });
+      } catch (error) {
+        await settle(itemIndexes, { status: "failed", signature, error });
+      }
+    },
+  );
+  return results;
+}
@@ -0,0 +1,431 @@
+#!/usr/bin/env -S npx tsx
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  address,
+  createKeyPairSignerFromBytes,
+  createSolanaRpc,
+  createSolanaRpcSubscriptions,
+  fetchEncodedAccount,
+  type Address,
+  type Commitment,
+  type KeyPairSigner,
+  type Signature,
+} from "@solana/kit";
+import { getVaultDelegate } from "./delegate";
+import { type PriorityFeeStrategy } from "./fees";
+import {
+  findVaultPda,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  PinocchioDemoInstruction,
+} from "./generated";
+import {
+  formatVaultStatementCsv,
+  formatVaultStatementJson,
+  getVaultHistory,
+} from "./history";
+import { getVaultRentExemptMinimum, getWithdrawableLamports } from "./rent";
+import { fetchPinocchioDemoTransaction } from "./transactions";
+import { formatSol, parseLamports } from "./units";
+import { VaultClient } from "./vaultClient";
+
+const USAGE = `Usage: pinocchio-vault <command> [options]
+
+Commands:
+  derive                 Print the vault PDA and bump of an owner
+  deposit <amount>       Deposit an amount (e.g. 0.5, 0.5sol, 500000lamports)
+  withdraw [amount]      Withdraw an amount, or everything above rent if omitted
+  balance                Print the vault balance, withdrawable lamports and delegate
+  history                List recent vault activity with the running balance
+  inspect <signature>    Decode the vault instructions of a transaction
+
+Options:
+  -u, --url <url>        RPC URL or moniker (localhost, devnet, testnet, mainnet-beta)
+      --ws <url>         WebSocket URL (derived from the RPC URL by default)
+  -k, --keypair <path>   Owner keypair file
+  -C, --config <path>    Solana CLI config file
+      --owner <address>  Owner address for read-only commands
+      --commitment <c>   processed, confirmed or finalized (default: confirmed)
+      --limit <n>        Number of signatures to scan for history (default: 20)
+      --before <sig>     Only list history older than this signature
+      --csv              Print the history as a CSV statement
+      --priority-fee <f> Compute unit price in micro-lamports, or a percentile
+                         of recent fees such as p75 (deposit and withdraw)
+      --json             Print machine-readable JSON
+  -h, --help             Show this help`;
+
+const URL_MONIKERS: Record<string, string> = {
+  l: "http://127.0.0.1:8899",
+  localhost: "http://127.0.0.1:8899",
+  d: "https://api.devnet.solana.com",
+  devnet: "https://api.devnet.solana.com",
+  t: "https://api.testnet.solana.com",
+  testnet: "https://api.testnet.solana.com",
+  m: "https://api.mainnet-beta.solana.com",
+  "mainnet-beta": "https://api.mainnet-beta.solana.com",
+};
+
+const COMMITMENTS: readonly Commitment[] = [
+  "processed",
+  "confirmed",
+  "finalized",
+];
+
+type SolanaCliConfig = {
+  json_rpc_url?: string;
+  websocket_url?: string;
+  keypair_path?: string;
+  commitment?: string;
+};
+
+type CliContext = {
+  rpcUrl: string;
+  wsUrl: string;
+  keypairPath: string;
+  commitment: Commitment;
+  priorityFee: PriorityFeeStrategy | undefined;
+  json: boolean;
+};
+
+/** Reads the top-level scalar keys of the Solana CLI YAML config. */
+async function readSolanaCliConfig(path: string): Promise<SolanaCliConfig> {
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf8");
+  } catch {
+    return {};
+  }
+  const config: Record<string, string> = {};
+  for (const line of contents.split("\n")) {
+    const match = /^(\w+):\s*(.*?)\s*$/.exec(line);
+    if (match && match[2]) {
+      config[match[1]] = match[2].replace(/^(['"])(.*)\1$/, "$2");
+    }
+  }
+  return config;
+}
+
+/** Mirrors the Solana CLI: same scheme with `ws`, and port + 1 if explicit. */
+function getWebSocketUrl(rpcUrl: string): string {
+  const url = new URL(rpcUrl);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  if (url.port) {
+    url.port = String(Number(url.port) + 1);
+  }
+  return url.toString();
+}
+
+async function loadSigner(path: string): Promise<KeyPairSigner> {
+  const bytes = JSON.parse(await readFile(path, "utf8")) as number[];
+  return await createKeyPairSignerFromBytes(new Uint8Array(bytes));
+}
+
+function print(context: CliContext, value: unknown, text: string): void {
+  if (context.json) {
+    console.log(
+      JSON.stringify(
+        value,
+        (_, item) => (typeof item === "bigint" ? item.toString() : item),
+        2,
+      ),
+    );
+  } else {
+    console.log(text);
+  }
+}
+
+async function getOwner(
+  context: CliContext,
+  owner: string | undefined,
+): Promise<Address> {
+  return owner
+    ? address(owner)
+    : (await loadSigner(context.keypairPath)).address;
+}
+
+/** Parses `--priority-fee`: a fixed price like `5000` or a percentile like `p75`. */
+function parsePriorityFee(input: string): PriorityFeeStrategy {
+  const match = /^(p)?(\d+)$/i.exec(input.trim());
+  if (!match) {
+    throw new Error(`Invalid priority fee: "${input}".`);
+  }
+  return match[1]
+    ? { kind: "percentile", percentile: Number(match[2]) }
+    : { kind: "fixed", microLamports: BigInt(match[2]) };
+}
+
+/** Parses `--limit`: a positive whole number of signatures. */
+function parseLimit(input: string): number {
+  const limit = Number(input.trim());
+  if (
+    !/^\d+$/.test(input.trim()) ||
+    !Number.isSafeInteger(limit) ||
+    limit < 1
+  ) {
+    throw new Error(
+      `Invalid limit: "${input}". Usage: --limit <n> with n a positive whole number`,
+    );
+  }
+  return limit;
+}
+
+/** Checks `--commitment`, or the commitment of the Solana CLI config. */
+function parseCommitment(input: string): Commitment {
+  const commitment = COMMITMENTS.find((item) => item === input.trim());
+  if (!commitment) {
+    throw new Error(
+      `Invalid commitment: "${input}". Usage: --commitment <c> with c one of ${COMMITMENTS.join(", ")}`,
+    );
+  }
+  return commitment;
+}
+
+async function createVaultClient(context: CliContext): Promise<VaultClient> {
+  return new VaultClient({
+    rpc: createSolanaRpc(context.rpcUrl),
+    rpcSubscriptions: createSolanaRpcSubscriptions(context.wsUrl),
+    signer: await loadSigner(context.keypairPath),
+    commitment: context.commitment,
+    computeBudget: context.priorityFee
+      ? { priorityFee: context.priorityFee }
+      : undefined,
+  });
+}
+
+async function main(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: "string", short: "u" },
+      ws: { type: "string" },
+      keypair: { type: "string", short: "k" },
+      config: { type: "string", short: "C" },
+      owner: { type: "string" },
+      commitment: { type: "string" },
+      limit: { type: "string" },
+      before: { type: "string" },
+      csv: { type: "boolean", default: false },
+      "priority-fee": { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, argument] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const cliConfig = await readSolanaCliConfig(
+    values.config ?? join(homedir(), ".config", "solana", "cli", "config.yml"),
+  );
+  const urlOption = values.url ?? cliConfig.json_rpc_url ?? "localhost";
+  const rpcUrl = URL_MONIKERS[urlOption] ?? urlOption;
+  const context: CliContext = {
+    rpcUrl,
+    wsUrl:
+      values.ws ??
+      (values.url ? undefined : cliConfig.websocket_url) ??
+      getWebSocketUrl(rpcUrl),
+    keypairPath:
+      values.keypair ??
+      cliConfig.keypair_path ??
+      join(homedir(), ".config", "solana", "id.json"),
+    commitment: parseCommitment(
+      values.commitment ?? cliConfig.commitment ?? "confirmed",
+    ),
+    priorityFee:
+      values["priority-fee"] === undefined
+        ? undefined
+        : parsePriorityFee(values["priority-fee"]),
+    json: values.json ?? false,
+  };
+
+  switch (command) {
+    case "derive": {
+      const owner = await getOwner(context, values.owner);
+      const [vault, bump] = await findVaultPda({ owner });
+      print(
+        context,
+        { owner, vault, bump },
+        `Owner: ${owner}\nVault: ${vault}\nBump:  ${bump}`,
+      );
+      return;
+    }
+    case "deposit": {
+      if (!argument) {
+        throw new Error("Missing amount. Usage: deposit <amount>");
+      }
+      const amount = parseLamports(argument);
+      const client = await createVaultClient(context);
+      const result = await client.deposit(amount);
+      print(
+        context,
+        { amount, ...result },
+        `Deposited ${formatSol(amount)} SOL\n` +
+          `Signature:     ${result.signature}\n` +
+          `Vault balance: ${formatSol(result.vaultBalance)} SOL`,
+      );
+      return;
+    }
+    case "withdraw": {
+      const client = await createVaultClient(context);
+      const amount = argument ? parseLamports(argument) : null;
+      const vaultBalanceBefore = await client.getBalance();
+      const result =
+        amount === null
+          ? await client.withdrawAll()
+          : await client.withdraw(amount);
+      const withdrawn = vaultBalanceBefore - result.vaultBalance;
+      print(
+        context,
+        { amount: withdrawn, ...result },
+        `Withdrew ${formatSol(withdrawn)} SOL\n` +
+          `Signature:     ${result.signature}\n` +
+          `Vault balance: ${formatSol(result.vaultBalance)} SOL`,
+      );
+      return;
+    }
+    case "balance": {
+      const rpc = createSolanaRpc(context.rpcUrl);
+      const owner = await getOwner(context, values.owner);
+      const [vault] = await findVaultPda({ owner });
+      const account = await fetchEncodedAccount(rpc, vault, {
+        commitment: context.commitment,
+      });
+      const exists =
+        account.exists &&
+        account.programAddress === PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+      const balance = account.exists ? account.lamports : 0n;
+      const withdrawable = exists
+        ? getWithdrawableLamports(account, {
+            rentExemptMinimum: await getVaultRentExemptMinimum(rpc, {
+              commitment: context.commitment,
+            }),
+          })
+        : 0n;
+      const delegate = getVaultDelegate(account);
+      print(
+        context,
+        { owner, vault, exists, balance, withdrawable, delegate },
+        `Vault:        ${vault}${exists ? "" : " (not created)"}\n` +
+          `Balance:      ${formatSol(balance)} SOL\n` +
+          `Withdrawable: ${formatSol(withdrawable)} SOL\n` +
+          `Delegate:     ${delegate ?? "none"}`,
+      );
+      return;
+    }
+    case "history": {
+      const limit = values.limit === undefined ? 20 : parseLimit(values.limit);
+      const rpc = createSolanaRpc(context.rpcUrl);
+      const owner = await getOwner(context, values.owner);
+      const history = await getVaultHistory(rpc, owner, {
+        before: values.before as Signature | undefined,
+        limit,
+        commitment:
+          context.commitment === "processed" ? "confirmed" : context.commitment,
+      });
+      if (values.csv) {
+        process.stdout.write(formatVaultStatementCsv(history));
+        return;
+      }
+      if (context.json) {
+        console.log(formatVaultStatementJson(history));
+        return;
+      }
+      console.log(
+        history.entries.length === 0
+          ? `No vault activity found for ${history.vault}`
+          : history.entries
+              .map((entry) => {
+                const activity =
+                  entry.instructions.map(({ kind }) => kind).join("+") ||
+                  "transfer";
+                return (
+                  `${entry.slot}  ${activity.padEnd(16)} ` +
+                  `${formatSol(entry.delta).padStart(15)} SOL ` +
+                  `${formatSol(entry.postBalance).padStart(14)} SOL  ${entry.signature}`
+                );
+              })
+              .join("\n"),
+      );
+      return;
+    }
+    case "inspect": {
+      if (!argument) {
+        throw new Error("Missing signature. Usage: inspect <signature>");
+      }
+      const transaction = await fetchPinocchioDemoTransaction(
+        createSolanaRpc(context.rpcUrl),
+        argument as Signature,
+        { commitment: context.commitment },
+      );
+      if (!transaction) {
+        throw new Error(`Transaction ${argument} not found.`);
+      }
+      const instructions = transaction.instructions.map(
+        ({ index, instruction, events }) => ({
+          index,
+          type: PinocchioDemoInstruction[instruction.instructionType],
+          owner: instruction.accounts.owner.address,
+          vault: instruction.accounts.vault.address,
+          data: instruction.data,
+          events,
+        }),
+      );
+      print(
+        context,
+        {
+          signature: transaction.signature,
+          slot: transaction.slot,
+          err: transaction.err,
+          programError: transaction.programError,
+          instructions,
+          undecodedInstructions: transaction.undecodedInstructions,
+        },
+        [
+          `Signature: ${transaction.signature}`,
+          `Slot:      ${transaction.slot}`,
+          `Status:    ${transaction.err ? `failed (${JSON.stringify(transaction.err)})` : "success"}`,
+          ...(transaction.programError
+            ? [
+                `Error:     #${transaction.programError.instructionIndex} ${transaction.programError.message}`,
+              ]
+            : []),
+          ...instructions.map(
+            (instruction) =>
+              `#${instruction.index} ${instruction.type} owner=${instruction.owner} vault=${instruction.vault}` +
+              instruction.events
+                .map((event) =>
+                  "amount" in event
+                    ? `\n    ${event.kind} ${formatSol(event.amount)} SOL`
+                    : `\n    ${event.kind}`,
+                )
+                .join(""),
+          ),
+          ...transaction.undecodedInstructions.map(
+            ({ index, accounts, decodeError }) =>
+              `#${index} undecoded (${decodeError ?? "missing optional accounts"})` +
+              accounts
+                .slice(0, 2)
+                .map(({ address }, position) =>
+                  position === 0 ? ` owner=${address}` : ` vault=${address}`,
+                )
+                .join(""),
+          ),
+        ].join("\n"),
+      );
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
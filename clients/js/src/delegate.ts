@@ -0,0 +1,55 @@
+import {
+  address,
+  fetchEncodedAccount,
+  unwrapOption,
+  type Address,
+  type Commitment,
+  type GetAccountInfoApi,
+  type MaybeEncodedAccount,
+  type Rpc,
+} from "@solana/kit";
+import {
+  findVaultPda,
+  getVaultDecoder,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+} from "./generated";
+
+/** The all-zero address, stored by vaults without a delegate. */
+const NO_DELEGATE = address("11111111111111111111111111111111");
+
+/**
+ * Returns the delegate recorded in a vault's data, or `null` if it has none.
+ *
+ * Vaults created before delegation existed only hold 16 bytes and never
+ * had a delegate; `SetDelegate` grows them to the current size, and
+ * `getVaultDecoder` reads their missing delegate as `None`. Accounts that
+ * do not exist or are not owned by the program have no delegate either.
+ */
+export function getVaultDelegate(
+  vault: MaybeEncodedAccount,
+  config: { programAddress?: Address } = {},
+): Address | null {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  if (!vault.exists || vault.programAddress !== programAddress) {
+    return null;
+  }
+  const delegate = unwrapOption(getVaultDecoder().decode(vault.data).delegate);
+  return delegate === NO_DELEGATE ? null : delegate;
+}
+
+/** Fetches the vault of `owner` and returns its delegate, if any. */
+export async function fetchVaultDelegate(
+  rpc: Rpc<GetAccountInfoApi>,
+  owner: Address,
+  config: { programAddress?: Address; commitment?: Commitment } = {},
+): Promise<Address | null> {
+  const {
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    commitment = "confirmed",
+  } = config;
+  const [vault] = await findVaultPda({ owner }, { programAddress });
+  return getVaultDelegate(
+    await fetchEncodedAccount(rpc, vault, { commitment }),
+    { programAddress },
+  );
+}
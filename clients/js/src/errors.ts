@@ -0,0 +1,67 @@
+import type { Address, TransactionError } from "@solana/kit";
+import {
+  getPinocchioDemoErrorMessage,
+  PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+  PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+  PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER,
+  PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+  PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  type PinocchioDemoError,
+} from "./generated";
+
+const PINOCCHIO_DEMO_ERROR_CODES: readonly number[] = [
+  PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER,
+  PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+  PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+  PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+  PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+];
+
+export type DecodedPinocchioDemoError = {
+  /** Index of the failing instruction among the top-level instructions. */
+  instructionIndex: number;
+  code: PinocchioDemoError;
+  message: string;
+};
+
+/**
+ * Decodes the vault program error behind the `err` of a failed transaction,
+ * as returned by `getTransaction`, `getSignatureStatuses` or a simulation.
+ *
+ * Returns `null` unless the failing instruction targets the vault program
+ * and returned one of its custom codes. The program address is checked
+ * because a system program error raised through a CPI is reported with the
+ * same instruction index.
+ */
+export function decodePinocchioDemoError(
+  err: TransactionError | null,
+  transactionMessage: {
+    instructions: Record<number, { programAddress: Address }>;
+  },
+  config: { programAddress?: Address } = {},
+): DecodedPinocchioDemoError | null {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  if (!err || typeof err !== "object" || !("InstructionError" in err)) {
+    return null;
+  }
+  const [index, instructionError] = err.InstructionError;
+  if (typeof instructionError !== "object" || !("Custom" in instructionError)) {
+    return null;
+  }
+  // Some transports hand out u32 fields as bigints
+  const instructionIndex = Number(index);
+  const code = Number(instructionError.Custom);
+  if (
+    transactionMessage.instructions[instructionIndex]?.programAddress !==
+      programAddress ||
+    !PINOCCHIO_DEMO_ERROR_CODES.includes(code)
+  ) {
+    return null;
+  }
+  return {
+    instructionIndex,
+    code: code as PinocchioDemoError,
+    message: getPinocchioDemoErrorMessage(code as PinocchioDemoError),
+  };
+}
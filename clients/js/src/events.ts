@@ -0,0 +1,122 @@
+import { type Address } from "@solana/kit";
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from "./generated";
+
+export type VaultCreatedEvent = {
+  kind: "VaultCreated";
+  instructionIndex: number;
+};
+
+export type DepositedEvent = {
+  kind: "Deposited";
+  instructionIndex: number;
+  amount: bigint;
+};
+
+export type WithdrawnEvent = {
+  kind: "Withdrawn";
+  instructionIndex: number;
+  amount: bigint;
+};
+
+export type VaultClosedEvent = {
+  kind: "VaultClosed";
+  instructionIndex: number;
+  amount: bigint;
+};
+
+/**
+ * Events emitted by the program through `log!`.
+ *
+ * `instructionIndex` is the index of the top-level instruction during which
+ * the event was logged, counting every top-level invocation in the
+ * transaction regardless of program.
+ */
+export type PinocchioDemoEvent =
+  | VaultCreatedEvent
+  | DepositedEvent
+  | WithdrawnEvent
+  | VaultClosedEvent;
+
+const INVOKE_PATTERN = /^Program (\w+) invoke \[(\d+)\]$/;
+const EXIT_PATTERN = /^Program (\w+) (?:success|failed: .*)$/;
+const LOG_PREFIX = "Program log: ";
+
+const DEPOSITED_PATTERN = /^(\d+) Lamports deposited to vault$/;
+const WITHDRAWN_PATTERN = /^(\d+) lamports withdrawn from vault$/;
+const VAULT_CLOSED_PATTERN = /^Vault closed, (\d+) lamports returned to owner$/;
+
+function parseProgramLog(
+  message: string,
+  instructionIndex: number,
+): PinocchioDemoEvent | null {
+  if (message === "Vault created") {
+    return { kind: "VaultCreated", instructionIndex };
+  }
+  let match = DEPOSITED_PATTERN.exec(message);
+  if (match) {
+    return { kind: "Deposited", instructionIndex, amount: BigInt(match[1]) };
+  }
+  match = WITHDRAWN_PATTERN.exec(message);
+  if (match) {
+    return { kind: "Withdrawn", instructionIndex, amount: BigInt(match[1]) };
+  }
+  match = VAULT_CLOSED_PATTERN.exec(message);
+  if (match) {
+    return { kind: "VaultClosed", instructionIndex, amount: BigInt(match[1]) };
+  }
+  return null;
+}
+
+/**
+ * Turns the `logMessages` of a transaction into typed program events.
+ *
+ * Only `Program log:` lines emitted while the program itself is executing
+ * are considered, so logs from CPIs into other programs (or from other
+ * programs invoking ours with the same text) never produce events.
+ * Informational logs such as "Vault already exists" are ignored.
+ *
+ * The caller is responsible for checking the transaction status: logs of a
+ * failed transaction are parsed like any other, although their effects were
+ * rolled back.
+ */
+export function parsePinocchioDemoEvents(
+  logMessages: readonly string[],
+  config: { programAddress?: Address } = {},
+): PinocchioDemoEvent[] {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  const events: PinocchioDemoEvent[] = [];
+  const invokeStack: string[] = [];
+  let instructionIndex = -1;
+
+  for (const line of logMessages) {
+    const invoke = INVOKE_PATTERN.exec(line);
+    if (invoke) {
+      const depth = Number(invoke[2]);
+      if (depth === 1) {
+        instructionIndex += 1;
+        invokeStack.length = 0;
+      }
+      invokeStack.length = Math.min(invokeStack.length, depth - 1);
+      invokeStack.push(invoke[1]);
+      continue;
+    }
+    if (EXIT_PATTERN.test(line)) {
+      invokeStack.pop();
+      continue;
+    }
+    if (
+      line.startsWith(LOG_PREFIX) &&
+      invokeStack[invokeStack.length - 1] === programAddress
+    ) {
+      const event = parseProgramLog(
+        line.slice(LOG_PREFIX.length),
+        instructionIndex,
+      );
+      if (event) {
+        events.push(event);
+      }
+    }
+  }
+
+  return events;
+}
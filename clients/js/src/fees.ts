@@ -0,0 +1,230 @@
+import {
+  getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+  MAX_COMPUTE_UNIT_LIMIT,
+} from "@solana-program/compute-budget";
+import {
+  AccountRole,
+  type Address,
+  type Commitment,
+  type GetMultipleAccountsApi,
+  type GetRecentPrioritizationFeesApi,
+  type Instruction,
+  type Rpc,
+  type SimulateTransactionApi,
+  type TransactionSigner,
+} from "@solana/kit";
+import { simulateInstructions } from "./simulation";
+
+/** How the compute unit price (priority fee) is chosen. */
+export type PriorityFeeStrategy =
+  | { kind: "none" }
+  | { kind: "fixed"; microLamports: bigint }
+  | {
+      kind: "percentile";
+      /** Between 0 and 100, e.g. 75 for the 75th percentile. */
+      percentile: number;
+      minMicroLamports?: bigint;
+      maxMicroLamports?: bigint;
+    };
+
+export type ComputeBudgetConfig = {
+  /** Multiplier applied to the simulated compute units. Defaults to 1.1. */
+  unitMargin?: number;
+  /** Defaults to `{ kind: "none" }`. */
+  priorityFee?: PriorityFeeStrategy;
+  commitment?: Commitment;
+};
+
+export type ComputeBudgetPlan = {
+  /** Compute units consumed in simulation. */
+  unitsConsumed: number;
+  computeUnitLimit: number;
+  /** Compute unit price in micro-lamports. */
+  computeUnitPrice: bigint;
+  /** Priority fee paid on top of the base fee, in lamports. */
+  priorityFeeLamports: bigint;
+};
+
+export type ComputeBudgetRpc = Rpc<
+  GetMultipleAccountsApi &
+    GetRecentPrioritizationFeesApi &
+    SimulateTransactionApi
+>;
+
+const DEFAULT_UNIT_MARGIN = 1.1;
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000n;
+
+/**
+ * Resolves a priority fee strategy into a compute unit price. Percentile
+ * strategies look at recent fees paid for transactions that write to any of
+ * `writableAccounts`.
+ */
+export async function getComputeUnitPrice(
+  rpc: Rpc<GetRecentPrioritizationFeesApi>,
+  strategy: PriorityFeeStrategy,
+  writableAccounts: Address[],
+): Promise<bigint> {
+  switch (strategy.kind) {
+    case "none":
+      return 0n;
+    case "fixed":
+      return strategy.microLamports;
+    case "percentile": {
+      if (strategy.percentile < 0 || strategy.percentile > 100) {
+        throw new Error(
+          `Percentile must be between 0 and 100, got ${strategy.percentile}.`,
+        );
+      }
+      const recentFees = await rpc
+        .getRecentPrioritizationFees(writableAccounts)
+        .send();
+      const fees = recentFees
+        .map(({ prioritizationFee }) => BigInt(prioritizationFee))
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      let price =
+        fees.length === 0
+          ? 0n
+          : fees[
+              Math.min(
+                fees.length - 1,
+                Math.floor((strategy.percentile / 100) * fees.length),
+              )
+            ];
+      if (strategy.minMicroLamports !== undefined) {
+        price =
+          price < strategy.minMicroLamports ? strategy.minMicroLamports : price;
+      }
+      if (strategy.maxMicroLamports !== undefined) {
+        price =
+          price > strategy.maxMicroLamports ? strategy.maxMicroLamports : price;
+      }
+      return price;
+    }
+  }
+}
+
+/**
+ * Simulates `instructions` to measure their compute units and picks a
+ * compute unit limit and price for them.
+ *
+ * Throws if the simulation fails, since the transaction would fail too, or
+ * if the RPC does not report the compute units consumed.
+ */
+export async function planComputeBudget(
+  rpc: ComputeBudgetRpc,
+  input: { feePayer: TransactionSigner; instructions: readonly Instruction[] },
+  config: ComputeBudgetConfig = {},
+): Promise<ComputeBudgetPlan> {
+  const {
+    unitMargin = DEFAULT_UNIT_MARGIN,
+    priorityFee = { kind: "none" },
+    commitment,
+  } = config;
+  const writableAccounts = [
+    ...new Set(
+      input.instructions.flatMap((instruction) =>
+        (instruction.accounts ?? [])
+          .filter(
+            (account) =>
+              account.role === AccountRole.WRITABLE ||
+              account.role === AccountRole.WRITABLE_SIGNER,
+          )
+          .map((account) => account.address),
+      ),
+    ),
+  ];
+  const computeUnitPrice = await getComputeUnitPrice(
+    rpc,
+    priorityFee,
+    writableAccounts,
+  );
+
+  // Simulate with the final budget instructions in place so their own cost
+  // is measured too, but with the maximum limit so the simulation never runs
+  // out of compute units.
+  const simulation = await simulateInstructions(
+    rpc,
+    {
+      feePayer: input.feePayer,
+      instructions: [
+        ...getComputeBudgetInstructions({
+          computeUnitLimit: MAX_COMPUTE_UNIT_LIMIT,
+          computeUnitPrice,
+        }),
+        ...input.instructions,
+      ],
+      addresses: [],
+    },
+    { commitment },
+  );
+  if (simulation.err) {
+    throw new Error(
+      `Compute unit simulation failed: ${JSON.stringify(
+        simulation.err,
+        (_, value) => (typeof value === "bigint" ? value.toString() : value),
+      )}`,
+    );
+  }
+
+  if (simulation.unitsConsumed === null) {
+    throw new Error(
+      "Compute unit simulation did not report the units consumed.",
+    );
+  }
+  const unitsConsumed = Number(simulation.unitsConsumed);
+  const computeUnitLimit = Math.min(
+    MAX_COMPUTE_UNIT_LIMIT,
+    Math.ceil(unitsConsumed * unitMargin),
+  );
+  const priorityFeeLamports =
+    (BigInt(computeUnitLimit) * computeUnitPrice +
+      MICRO_LAMPORTS_PER_LAMPORT -
+      1n) /
+    MICRO_LAMPORTS_PER_LAMPORT;
+  return {
+    unitsConsumed,
+    computeUnitLimit,
+    computeUnitPrice,
+    priorityFeeLamports,
+  };
+}
+
+/**
+ * Returns the `SetComputeUnitLimit` and, when the price is not zero, the
+ * `SetComputeUnitPrice` instructions for a plan.
+ */
+export function getComputeBudgetInstructions(
+  plan: Pick<ComputeBudgetPlan, "computeUnitLimit" | "computeUnitPrice">,
+): Instruction[] {
+  const instructions: Instruction[] = [
+    getSetComputeUnitLimitInstruction({ units: plan.computeUnitLimit }),
+  ];
+  if (plan.computeUnitPrice > 0n) {
+    instructions.push(
+      getSetComputeUnitPriceInstruction({
+        microLamports: plan.computeUnitPrice,
+      }),
+    );
+  }
+  return instructions;
+}
+
+/**
+ * Plans a compute budget for `instructions` and returns them with the
+ * compute budget instructions prepended, ready to append to a message.
+ */
+export async function withComputeBudget(
+  rpc: ComputeBudgetRpc,
+  input: { feePayer: TransactionSigner; instructions: readonly Instruction[] },
+  config: ComputeBudgetConfig = {},
+): Promise<{ plan: ComputeBudgetPlan; instructions: Instruction[] }> {
+  const plan = await planComputeBudget(rpc, input, config);
+  return {
+    plan,
+    instructions: [
+      ...getComputeBudgetInstructions(plan),
+      ...input.instructions,
+    ],
+  };
+}
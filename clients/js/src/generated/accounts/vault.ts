@@ -0,0 +1,154 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  assertAccountExists,
+  assertAccountsExist,
+  combineCodec,
+  decodeAccount,
+  fetchEncodedAccount,
+  fetchEncodedAccounts,
+  fixDecoderSize,
+  fixEncoderSize,
+  getAddressDecoder,
+  getAddressEncoder,
+  getBytesDecoder,
+  getBytesEncoder,
+  getOptionDecoder,
+  getOptionEncoder,
+  getStructDecoder,
+  getStructEncoder,
+  getU64Decoder,
+  getU64Encoder,
+  type Account,
+  type Address,
+  type Codec,
+  type Decoder,
+  type EncodedAccount,
+  type Encoder,
+  type FetchAccountConfig,
+  type FetchAccountsConfig,
+  type MaybeAccount,
+  type MaybeEncodedAccount,
+  type Option,
+  type OptionOrNullable,
+  type ReadonlyUint8Array,
+} from '@solana/kit';
+import { findVaultPda, VaultSeeds } from '../pdas';
+
+export type Vault = {
+  discriminator: ReadonlyUint8Array;
+  reserved: bigint;
+  delegate: Option<Address>;
+};
+
+export type VaultArgs = {
+  discriminator: ReadonlyUint8Array;
+  reserved: number | bigint;
+  delegate: OptionOrNullable<Address>;
+};
+
+/** Gets the encoder for {@link VaultArgs} account data. */
+export function getVaultEncoder(): Encoder<VaultArgs> {
+  return getStructEncoder([
+    ['discriminator', fixEncoderSize(getBytesEncoder(), 8)],
+    ['reserved', getU64Encoder()],
+    ['delegate', getOptionEncoder(getAddressEncoder(), { prefix: null })],
+  ]);
+}
+
+/** Gets the decoder for {@link Vault} account data. */
+export function getVaultDecoder(): Decoder<Vault> {
+  return getStructDecoder([
+    ['discriminator', fixDecoderSize(getBytesDecoder(), 8)],
+    ['reserved', getU64Decoder()],
+    ['delegate', getOptionDecoder(getAddressDecoder(), { prefix: null })],
+  ]);
+}
+
+/** Gets the codec for {@link Vault} account data. */
+export function getVaultCodec(): Codec<VaultArgs, Vault> {
+  return combineCodec(getVaultEncoder(), getVaultDecoder());
+}
+
+export function decodeVault<TAddress extends string = string>(
+  encodedAccount: EncodedAccount<TAddress>
+): Account<Vault, TAddress>;
+export function decodeVault<TAddress extends string = string>(
+  encodedAccount: MaybeEncodedAccount<TAddress>
+): MaybeAccount<Vault, TAddress>;
+export function decodeVault<TAddress extends string = string>(
+  encodedAccount: EncodedAccount<TAddress> | MaybeEncodedAccount<TAddress>
+): Account<Vault, TAddress> | MaybeAccount<Vault, TAddress> {
+  return decodeAccount(
+    encodedAccount as MaybeEncodedAccount<TAddress>,
+    getVaultDecoder()
+  );
+}
+
+export async function fetchVault<TAddress extends string = string>(
+  rpc: Parameters<typeof fetchEncodedAccount>[0],
+  address: Address<TAddress>,
+  config?: FetchAccountConfig
+): Promise<Account<Vault, TAddress>> {
+  const maybeAccount = await fetchMaybeVault(rpc, address, config);
+  assertAccountExists(maybeAccount);
+  return maybeAccount;
+}
+
+export async function fetchMaybeVault<TAddress extends string = string>(
+  rpc: Parameters<typeof fetchEncodedAccount>[0],
+  address: Address<TAddress>,
+  config?: FetchAccountConfig
+): Promise<MaybeAccount<Vault, TAddress>> {
+  const maybeAccount = await fetchEncodedAccount(rpc, address, config);
+  return decodeVault(maybeAccount);
+}
+
+export async function fetchAllVault(
+  rpc: Parameters<typeof fetchEncodedAccounts>[0],
+  addresses: Array<Address>,
+  config?: FetchAccountsConfig
+): Promise<Account<Vault>[]> {
+  const maybeAccounts = await fetchAllMaybeVault(rpc, addresses, config);
+  assertAccountsExist(maybeAccounts);
+  return maybeAccounts;
+}
+
+export async function fetchAllMaybeVault(
+  rpc: Parameters<typeof fetchEncodedAccounts>[0],
+  addresses: Array<Address>,
+  config?: FetchAccountsConfig
+): Promise<MaybeAccount<Vault>[]> {
+  const maybeAccounts = await fetchEncodedAccounts(rpc, addresses, config);
+  return maybeAccounts.map((maybeAccount) => decodeVault(maybeAccount));
+}
+
+export function getVaultSize(): number {
+  return 48;
+}
+
+export async function fetchVaultFromSeeds(
+  rpc: Parameters<typeof fetchEncodedAccount>[0],
+  seeds: VaultSeeds,
+  config: FetchAccountConfig & { programAddress?: Address } = {}
+): Promise<Account<Vault>> {
+  const maybeAccount = await fetchMaybeVaultFromSeeds(rpc, seeds, config);
+  assertAccountExists(maybeAccount);
+  return maybeAccount;
+}
+
+export async function fetchMaybeVaultFromSeeds(
+  rpc: Parameters<typeof fetchEncodedAccount>[0],
+  seeds: VaultSeeds,
+  config: FetchAccountConfig & { programAddress?: Address } = {}
+): Promise<MaybeAccount<Vault>> {
+  const { programAddress, ...fetchConfig } = config;
+  const [address] = await findVaultPda(seeds, { programAddress });
+  return await fetchMaybeVault(rpc, address, fetchConfig);
+}
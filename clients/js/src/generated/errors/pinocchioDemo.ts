@@ -0,0 +1,72 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  isProgramError,
+  type Address,
+  type SOLANA_ERROR__INSTRUCTION_ERROR__CUSTOM,
+  type SolanaError,
+} from '@solana/kit';
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from '../programs';
+
+/** OwnerNotSigner: Vault owner must sign the transaction */
+export const PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER = 0x1770; // 6000
+/** InvalidVaultAddress: Vault address does not match the owner's vault PDA */
+export const PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS = 0x1771; // 6001
+/** VaultNotOwnedByProgram: Vault account is not owned by the vault program */
+export const PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM = 0x1772; // 6002
+/** InsufficientVaultFunds: Vault does not hold enough lamports above its rent-exempt minimum */
+export const PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS = 0x1773; // 6003
+/** UnauthorizedDelegate: Signer is not the vault's delegate */
+export const PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE = 0x1774; // 6004
+
+export type PinocchioDemoError =
+  | typeof PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS
+  | typeof PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS
+  | typeof PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER
+  | typeof PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE
+  | typeof PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM;
+
+let pinocchioDemoErrorMessages: Record<PinocchioDemoError, string> | undefined;
+if (process.env.NODE_ENV !== 'production') {
+  pinocchioDemoErrorMessages = {
+    [PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS]: `Vault does not hold enough lamports above its rent-exempt minimum`,
+    [PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS]: `Vault address does not match the owner's vault PDA`,
+    [PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER]: `Vault owner must sign the transaction`,
+    [PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE]: `Signer is not the vault's delegate`,
+    [PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM]: `Vault account is not owned by the vault program`,
+  };
+}
+
+export function getPinocchioDemoErrorMessage(code: PinocchioDemoError): string {
+  if (process.env.NODE_ENV !== 'production') {
+    return (pinocchioDemoErrorMessages as Record<PinocchioDemoError, string>)[
+      code
+    ];
+  }
+
+  return 'Error message not available in production bundles.';
+}
+
+export function isPinocchioDemoError<
+  TProgramErrorCode extends PinocchioDemoError,
+>(
+  error: unknown,
+  transactionMessage: {
+    instructions: Record<number, { programAddress: Address }>;
+  },
+  code?: TProgramErrorCode
+): error is SolanaError<typeof SOLANA_ERROR__INSTRUCTION_ERROR__CUSTOM> &
+  Readonly<{ context: Readonly<{ code: TProgramErrorCode }> }> {
+  return isProgramError<TProgramErrorCode>(
+    error,
+    transactionMessage,
+    PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    code
+  );
+}
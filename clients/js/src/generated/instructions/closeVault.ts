@@ -0,0 +1,276 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  combineCodec,
+  getStructDecoder,
+  getStructEncoder,
+  getU8Decoder,
+  getU8Encoder,
+  transformEncoder,
+  type AccountMeta,
+  type AccountSignerMeta,
+  type Address,
+  type FixedSizeCodec,
+  type FixedSizeDecoder,
+  type FixedSizeEncoder,
+  type Instruction,
+  type InstructionWithAccounts,
+  type InstructionWithData,
+  type ReadonlyAccount,
+  type ReadonlyUint8Array,
+  type TransactionSigner,
+  type WritableAccount,
+  type WritableSignerAccount,
+} from '@solana/kit';
+import { findVaultPda } from '../pdas';
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from '../programs';
+import {
+  expectAddress,
+  getAccountMetaFactory,
+  type ResolvedAccount,
+} from '../shared';
+
+export const CLOSE_VAULT_DISCRIMINATOR = 3;
+
+export function getCloseVaultDiscriminatorBytes() {
+  return getU8Encoder().encode(CLOSE_VAULT_DISCRIMINATOR);
+}
+
+export type CloseVaultInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountOwner extends string | AccountMeta<string> = string,
+  TAccountVault extends string | AccountMeta<string> = string,
+  TAccountProgram extends
+    | string
+    | AccountMeta<string> = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG',
+  TRemainingAccounts extends readonly AccountMeta<string>[] = [],
+> = Instruction<TProgram> &
+  InstructionWithData<ReadonlyUint8Array> &
+  InstructionWithAccounts<
+    [
+      TAccountOwner extends string
+        ? WritableSignerAccount<TAccountOwner> &
+            AccountSignerMeta<TAccountOwner>
+        : TAccountOwner,
+      TAccountVault extends string
+        ? WritableAccount<TAccountVault>
+        : TAccountVault,
+      TAccountProgram extends string
+        ? ReadonlyAccount<TAccountProgram>
+        : TAccountProgram,
+      ...TRemainingAccounts,
+    ]
+  >;
+
+export type CloseVaultInstructionData = { discriminator: number };
+
+export type CloseVaultInstructionDataArgs = {};
+
+export function getCloseVaultInstructionDataEncoder(): FixedSizeEncoder<CloseVaultInstructionDataArgs> {
+  return transformEncoder(
+    getStructEncoder([['discriminator', getU8Encoder()]]),
+    (value) => ({ ...value, discriminator: CLOSE_VAULT_DISCRIMINATOR })
+  );
+}
+
+export function getCloseVaultInstructionDataDecoder(): FixedSizeDecoder<CloseVaultInstructionData> {
+  return getStructDecoder([['discriminator', getU8Decoder()]]);
+}
+
+export function getCloseVaultInstructionDataCodec(): FixedSizeCodec<
+  CloseVaultInstructionDataArgs,
+  CloseVaultInstructionData
+> {
+  return combineCodec(
+    getCloseVaultInstructionDataEncoder(),
+    getCloseVaultInstructionDataDecoder()
+  );
+}
+
+export type CloseVaultAsyncInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+> = {
+  /** Vault owner and rent recipient */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault?: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+};
+
+export async function getCloseVaultInstructionAsync<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: CloseVaultAsyncInput<TAccountOwner, TAccountVault, TAccountProgram>,
+  config?: { programAddress?: TProgramAddress }
+): Promise<
+  CloseVaultInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Resolve default values.
+  if (!accounts.vault.value) {
+    accounts.vault.value = await findVaultPda({
+      owner: expectAddress(accounts.owner.value),
+    });
+  }
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+    ],
+    data: getCloseVaultInstructionDataEncoder().encode({}),
+    programAddress,
+  } as CloseVaultInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >);
+}
+
+export type CloseVaultInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+> = {
+  /** Vault owner and rent recipient */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+};
+
+export function getCloseVaultInstruction<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: CloseVaultInput<TAccountOwner, TAccountVault, TAccountProgram>,
+  config?: { programAddress?: TProgramAddress }
+): CloseVaultInstruction<
+  TProgramAddress,
+  TAccountOwner,
+  TAccountVault,
+  TAccountProgram
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Resolve default values.
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+    ],
+    data: getCloseVaultInstructionDataEncoder().encode({}),
+    programAddress,
+  } as CloseVaultInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >);
+}
+
+export type ParsedCloseVaultInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountMetas extends readonly AccountMeta[] = readonly AccountMeta[],
+> = {
+  programAddress: Address<TProgram>;
+  accounts: {
+    /** Vault owner and rent recipient */
+    owner: TAccountMetas[0];
+    /** Vault PDA for lamports */
+    vault: TAccountMetas[1];
+    /** Program Address */
+    program: TAccountMetas[2];
+  };
+  data: CloseVaultInstructionData;
+};
+
+export function parseCloseVaultInstruction<
+  TProgram extends string,
+  TAccountMetas extends readonly AccountMeta[],
+>(
+  instruction: Instruction<TProgram> &
+    InstructionWithAccounts<TAccountMetas> &
+    InstructionWithData<ReadonlyUint8Array>
+): ParsedCloseVaultInstruction<TProgram, TAccountMetas> {
+  if (instruction.accounts.length < 3) {
+    // TODO: Coded error.
+    throw new Error('Not enough accounts');
+  }
+  let accountIndex = 0;
+  const getNextAccount = () => {
+    const accountMeta = (instruction.accounts as TAccountMetas)[accountIndex]!;
+    accountIndex += 1;
+    return accountMeta;
+  };
+  return {
+    programAddress: instruction.programAddress,
+    accounts: {
+      owner: getNextAccount(),
+      vault: getNextAccount(),
+      program: getNextAccount(),
+    },
+    data: getCloseVaultInstructionDataDecoder().decode(instruction.data),
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  combineCodec,
+  getStructDecoder,
+  getStructEncoder,
+  getU64Decoder,
+  getU64Encoder,
+  getU8Decoder,
+  getU8Encoder,
+  transformEncoder,
+  type AccountMeta,
+  type AccountSignerMeta,
+  type Address,
+  type FixedSizeCodec,
+  type FixedSizeDecoder,
+  type FixedSizeEncoder,
+  type Instruction,
+  type InstructionWithAccounts,
+  type InstructionWithData,
+  type ReadonlyAccount,
+  type ReadonlySignerAccount,
+  type ReadonlyUint8Array,
+  type TransactionSigner,
+  type WritableAccount,
+} from '@solana/kit';
+import { findVaultPda } from '../pdas';
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from '../programs';
+import {
+  expectAddress,
+  getAccountMetaFactory,
+  type ResolvedAccount,
+} from '../shared';
+
+export const DELEGATE_WITHDRAW_DISCRIMINATOR = 6;
+
+export function getDelegateWithdrawDiscriminatorBytes() {
+  return getU8Encoder().encode(DELEGATE_WITHDRAW_DISCRIMINATOR);
+}
+
+export type DelegateWithdrawInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountOwner extends string | AccountMeta<string> = string,
+  TAccountVault extends string | AccountMeta<string> = string,
+  TAccountDelegate extends string | AccountMeta<string> = string,
+  TAccountProgram extends
+    | string
+    | AccountMeta<string> = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG',
+  TRemainingAccounts extends readonly AccountMeta<string>[] = [],
+> = Instruction<TProgram> &
+  InstructionWithData<ReadonlyUint8Array> &
+  InstructionWithAccounts<
+    [
+      TAccountOwner extends string
+        ? WritableAccount<TAccountOwner>
+        : TAccountOwner,
+      TAccountVault extends string
+        ? WritableAccount<TAccountVault>
+        : TAccountVault,
+      TAccountDelegate extends string
+        ? ReadonlySignerAccount<TAccountDelegate> &
+            AccountSignerMeta<TAccountDelegate>
+        : TAccountDelegate,
+      TAccountProgram extends string
+        ? ReadonlyAccount<TAccountProgram>
+        : TAccountProgram,
+      ...TRemainingAccounts,
+    ]
+  >;
+
+export type DelegateWithdrawInstructionData = {
+  discriminator: number;
+  amount: bigint;
+};
+
+export type DelegateWithdrawInstructionDataArgs = { amount: number | bigint };
+
+export function getDelegateWithdrawInstructionDataEncoder(): FixedSizeEncoder<DelegateWithdrawInstructionDataArgs> {
+  return transformEncoder(
+    getStructEncoder([
+      ['discriminator', getU8Encoder()],
+      ['amount', getU64Encoder()],
+    ]),
+    (value) => ({ ...value, discriminator: DELEGATE_WITHDRAW_DISCRIMINATOR })
+  );
+}
+
+export function getDelegateWithdrawInstructionDataDecoder(): FixedSizeDecoder<DelegateWithdrawInstructionData> {
+  return getStructDecoder([
+    ['discriminator', getU8Decoder()],
+    ['amount', getU64Decoder()],
+  ]);
+}
+
+export function getDelegateWithdrawInstructionDataCodec(): FixedSizeCodec<
+  DelegateWithdrawInstructionDataArgs,
+  DelegateWithdrawInstructionData
+> {
+  return combineCodec(
+    getDelegateWithdrawInstructionDataEncoder(),
+    getDelegateWithdrawInstructionDataDecoder()
+  );
+}
+
+export type DelegateWithdrawAsyncInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountDelegate extends string = string,
+  TAccountProgram extends string = string,
+> = {
+  /** Vault owner and withdrawal recipient */
+  owner: Address<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault?: Address<TAccountVault>;
+  /** Vault delegate */
+  delegate: TransactionSigner<TAccountDelegate>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+  amount: DelegateWithdrawInstructionDataArgs['amount'];
+};
+
+export async function getDelegateWithdrawInstructionAsync<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountDelegate extends string,
+  TAccountProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: DelegateWithdrawAsyncInput<
+    TAccountOwner,
+    TAccountVault,
+    TAccountDelegate,
+    TAccountProgram
+  >,
+  config?: { programAddress?: TProgramAddress }
+): Promise<
+  DelegateWithdrawInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountDelegate,
+    TAccountProgram
+  >
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    delegate: { value: input.delegate ?? null, isWritable: false },
+    program: { value: input.program ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Original args.
+  const args = { ...input };
+
+  // Resolve default values.
+  if (!accounts.vault.value) {
+    accounts.vault.value = await findVaultPda({
+      owner: expectAddress(accounts.owner.value),
+    });
+  }
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.delegate),
+      getAccountMeta(accounts.program),
+    ],
+    data: getDelegateWithdrawInstructionDataEncoder().encode(
+      args as DelegateWithdrawInstructionDataArgs
+    ),
+    programAddress,
+  } as DelegateWithdrawInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountDelegate,
+    TAccountProgram
+  >);
+}
+
+export type DelegateWithdrawInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountDelegate extends string = string,
+  TAccountProgram extends string = string,
+> = {
+  /** Vault owner and withdrawal recipient */
+  owner: Address<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault: Address<TAccountVault>;
+  /** Vault delegate */
+  delegate: TransactionSigner<TAccountDelegate>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+  amount: DelegateWithdrawInstructionDataArgs['amount'];
+};
+
+export function getDelegateWithdrawInstruction<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountDelegate extends string,
+  TAccountProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: DelegateWithdrawInput<
+    TAccountOwner,
+    TAccountVault,
+    TAccountDelegate,
+    TAccountProgram
+  >,
+  config?: { programAddress?: TProgramAddress }
+): DelegateWithdrawInstruction<
+  TProgramAddress,
+  TAccountOwner,
+  TAccountVault,
+  TAccountDelegate,
+  TAccountProgram
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    delegate: { value: input.delegate ?? null, isWritable: false },
+    program: { value: input.program ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Original args.
+  const args = { ...input };
+
+  // Resolve default values.
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.delegate),
+      getAccountMeta(accounts.program),
+    ],
+    data: getDelegateWithdrawInstructionDataEncoder().encode(
+      args as DelegateWithdrawInstructionDataArgs
+    ),
+    programAddress,
+  } as DelegateWithdrawInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountDelegate,
+    TAccountProgram
+  >);
+}
+
+export type ParsedDelegateWithdrawInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountMetas extends readonly AccountMeta[] = readonly AccountMeta[],
+> = {
+  programAddress: Address<TProgram>;
+  accounts: {
+    /** Vault owner and withdrawal recipient */
+    owner: TAccountMetas[0];
+    /** Vault PDA for lamports */
+    vault: TAccountMetas[1];
+    /** Vault delegate */
+    delegate: TAccountMetas[2];
+    /** Program Address */
+    program: TAccountMetas[3];
+  };
+  data: DelegateWithdrawInstructionData;
+};
+
+export function parseDelegateWithdrawInstruction<
+  TProgram extends string,
+  TAccountMetas extends readonly AccountMeta[],
+>(
+  instruction: Instruction<TProgram> &
+    InstructionWithAccounts<TAccountMetas> &
+    InstructionWithData<ReadonlyUint8Array>
+): ParsedDelegateWithdrawInstruction<TProgram, TAccountMetas> {
+  if (instruction.accounts.length < 4) {
+    // TODO: Coded error.
+    throw new Error('Not enough accounts');
+  }
+  let accountIndex = 0;
+  const getNextAccount = () => {
+    const accountMeta = (instruction.accounts as TAccountMetas)[accountIndex]!;
+    accountIndex += 1;
+    return accountMeta;
+  };
+  return {
+    programAddress: instruction.programAddress,
+    accounts: {
+      owner: getNextAccount(),
+      vault: getNextAccount(),
+      delegate: getNextAccount(),
+      program: getNextAccount(),
+    },
+    data: getDelegateWithdrawInstructionDataDecoder().decode(instruction.data),
+  };
+}
@@ -30,8 +30,13 @@ import {
   type WritableAccount,
   type WritableSignerAccount,
 } from '@solana/kit';
+import { findVaultPda } from '../pdas';
 import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from '../programs';
-import { getAccountMetaFactory, type ResolvedAccount } from '../shared';
+import {
+  expectAddress,
+  getAccountMetaFactory,
+  type ResolvedAccount,
+} from '../shared';
 
 export const DEPOSIT_DISCRIMINATOR = 0;
 
@@ -43,7 +48,9 @@ export type DepositInstruction<
   TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
   TAccountOwner extends string | AccountMeta<string> = string,
   TAccountVault extends string | AccountMeta<string> = string,
-  TAccountProgram extends string | AccountMeta<string> = string,
+  TAccountProgram extends
+    | string
+    | AccountMeta<string> = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG',
   TAccountSystemProgram extends
     | string
     | AccountMeta<string> = '11111111111111111111111111111111',
@@ -100,6 +107,101 @@ export function getDepositInstructionDataCodec(): FixedSizeCodec<
   );
 }
 
+export type DepositAsyncInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+  TAccountSystemProgram extends string = string,
+> = {
+  /** Vault owner and payer */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault?: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+  /** System Program Address */
+  systemProgram?: Address<TAccountSystemProgram>;
+  amount: DepositInstructionDataArgs['amount'];
+};
+
+export async function getDepositInstructionAsync<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TAccountSystemProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: DepositAsyncInput<
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >,
+  config?: { programAddress?: TProgramAddress }
+): Promise<
+  DepositInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+    systemProgram: { value: input.systemProgram ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Original args.
+  const args = { ...input };
+
+  // Resolve default values.
+  if (!accounts.vault.value) {
+    accounts.vault.value = await findVaultPda({
+      owner: expectAddress(accounts.owner.value),
+    });
+  }
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+  if (!accounts.systemProgram.value) {
+    accounts.systemProgram.value =
+      '11111111111111111111111111111111' as Address<'11111111111111111111111111111111'>;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+      getAccountMeta(accounts.systemProgram),
+    ],
+    data: getDepositInstructionDataEncoder().encode(
+      args as DepositInstructionDataArgs
+    ),
+    programAddress,
+  } as DepositInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >);
+}
+
 export type DepositInput<
   TAccountOwner extends string = string,
   TAccountVault extends string = string,
@@ -111,7 +213,7 @@ export type DepositInput<
   /** Vault PDA for lamports */
   vault: Address<TAccountVault>;
   /** Program Address */
-  program: Address<TAccountProgram>;
+  program?: Address<TAccountProgram>;
   /** System Program Address */
   systemProgram?: Address<TAccountSystemProgram>;
   amount: DepositInstructionDataArgs['amount'];
@@ -158,6 +260,10 @@ export function getDepositInstruction<
   const args = { ...input };
 
   // Resolve default values.
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
   if (!accounts.systemProgram.value) {
     accounts.systemProgram.value =
       '11111111111111111111111111111111' as Address<'11111111111111111111111111111111'>;
@@ -6,5 +6,10 @@
  * @see https://github.com/codama-idl/codama
  */
 
+export * from './closeVault';
+export * from './delegateWithdraw';
 export * from './deposit';
+export * from './revokeDelegate';
+export * from './setDelegate';
 export * from './withdraw';
+export * from './withdrawAmount';
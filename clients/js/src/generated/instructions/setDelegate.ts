@@ -0,0 +1,342 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  combineCodec,
+  getAddressDecoder,
+  getAddressEncoder,
+  getStructDecoder,
+  getStructEncoder,
+  getU8Decoder,
+  getU8Encoder,
+  transformEncoder,
+  type AccountMeta,
+  type AccountSignerMeta,
+  type Address,
+  type FixedSizeCodec,
+  type FixedSizeDecoder,
+  type FixedSizeEncoder,
+  type Instruction,
+  type InstructionWithAccounts,
+  type InstructionWithData,
+  type ReadonlyAccount,
+  type ReadonlyUint8Array,
+  type TransactionSigner,
+  type WritableAccount,
+  type WritableSignerAccount,
+} from '@solana/kit';
+import { findVaultPda } from '../pdas';
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from '../programs';
+import {
+  expectAddress,
+  getAccountMetaFactory,
+  type ResolvedAccount,
+} from '../shared';
+
+export const SET_DELEGATE_DISCRIMINATOR = 4;
+
+export function getSetDelegateDiscriminatorBytes() {
+  return getU8Encoder().encode(SET_DELEGATE_DISCRIMINATOR);
+}
+
+export type SetDelegateInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountOwner extends string | AccountMeta<string> = string,
+  TAccountVault extends string | AccountMeta<string> = string,
+  TAccountProgram extends
+    | string
+    | AccountMeta<string> = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG',
+  TAccountSystemProgram extends
+    | string
+    | AccountMeta<string> = '11111111111111111111111111111111',
+  TRemainingAccounts extends readonly AccountMeta<string>[] = [],
+> = Instruction<TProgram> &
+  InstructionWithData<ReadonlyUint8Array> &
+  InstructionWithAccounts<
+    [
+      TAccountOwner extends string
+        ? WritableSignerAccount<TAccountOwner> &
+            AccountSignerMeta<TAccountOwner>
+        : TAccountOwner,
+      TAccountVault extends string
+        ? WritableAccount<TAccountVault>
+        : TAccountVault,
+      TAccountProgram extends string
+        ? ReadonlyAccount<TAccountProgram>
+        : TAccountProgram,
+      TAccountSystemProgram extends string
+        ? ReadonlyAccount<TAccountSystemProgram>
+        : TAccountSystemProgram,
+      ...TRemainingAccounts,
+    ]
+  >;
+
+export type SetDelegateInstructionData = {
+  discriminator: number;
+  delegate: Address;
+};
+
+export type SetDelegateInstructionDataArgs = { delegate: Address };
+
+export function getSetDelegateInstructionDataEncoder(): FixedSizeEncoder<SetDelegateInstructionDataArgs> {
+  return transformEncoder(
+    getStructEncoder([
+      ['discriminator', getU8Encoder()],
+      ['delegate', getAddressEncoder()],
+    ]),
+    (value) => ({ ...value, discriminator: SET_DELEGATE_DISCRIMINATOR })
+  );
+}
+
+export function getSetDelegateInstructionDataDecoder(): FixedSizeDecoder<SetDelegateInstructionData> {
+  return getStructDecoder([
+    ['discriminator', getU8Decoder()],
+    ['delegate', getAddressDecoder()],
+  ]);
+}
+
+export function getSetDelegateInstructionDataCodec(): FixedSizeCodec<
+  SetDelegateInstructionDataArgs,
+  SetDelegateInstructionData
+> {
+  return combineCodec(
+    getSetDelegateInstructionDataEncoder(),
+    getSetDelegateInstructionDataDecoder()
+  );
+}
+
+export type SetDelegateAsyncInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+  TAccountSystemProgram extends string = string,
+> = {
+  /** Vault owner and payer */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault?: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+  /** System Program Address */
+  systemProgram?: Address<TAccountSystemProgram>;
+  delegate: SetDelegateInstructionDataArgs['delegate'];
+};
+
+export async function getSetDelegateInstructionAsync<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TAccountSystemProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: SetDelegateAsyncInput<
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >,
+  config?: { programAddress?: TProgramAddress }
+): Promise<
+  SetDelegateInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+    systemProgram: { value: input.systemProgram ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Original args.
+  const args = { ...input };
+
+  // Resolve default values.
+  if (!accounts.vault.value) {
+    accounts.vault.value = await findVaultPda({
+      owner: expectAddress(accounts.owner.value),
+    });
+  }
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+  if (!accounts.systemProgram.value) {
+    accounts.systemProgram.value =
+      '11111111111111111111111111111111' as Address<'11111111111111111111111111111111'>;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+      getAccountMeta(accounts.systemProgram),
+    ],
+    data: getSetDelegateInstructionDataEncoder().encode(
+      args as SetDelegateInstructionDataArgs
+    ),
+    programAddress,
+  } as SetDelegateInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >);
+}
+
+export type SetDelegateInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+  TAccountSystemProgram extends string = string,
+> = {
+  /** Vault owner and payer */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+  /** System Program Address */
+  systemProgram?: Address<TAccountSystemProgram>;
+  delegate: SetDelegateInstructionDataArgs['delegate'];
+};
+
+export function getSetDelegateInstruction<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TAccountSystemProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: SetDelegateInput<
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >,
+  config?: { programAddress?: TProgramAddress }
+): SetDelegateInstruction<
+  TProgramAddress,
+  TAccountOwner,
+  TAccountVault,
+  TAccountProgram,
+  TAccountSystemProgram
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+    systemProgram: { value: input.systemProgram ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Original args.
+  const args = { ...input };
+
+  // Resolve default values.
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+  if (!accounts.systemProgram.value) {
+    accounts.systemProgram.value =
+      '11111111111111111111111111111111' as Address<'11111111111111111111111111111111'>;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+      getAccountMeta(accounts.systemProgram),
+    ],
+    data: getSetDelegateInstructionDataEncoder().encode(
+      args as SetDelegateInstructionDataArgs
+    ),
+    programAddress,
+  } as SetDelegateInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram,
+    TAccountSystemProgram
+  >);
+}
+
+export type ParsedSetDelegateInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountMetas extends readonly AccountMeta[] = readonly AccountMeta[],
+> = {
+  programAddress: Address<TProgram>;
+  accounts: {
+    /** Vault owner and payer */
+    owner: TAccountMetas[0];
+    /** Vault PDA for lamports */
+    vault: TAccountMetas[1];
+    /** Program Address */
+    program: TAccountMetas[2];
+    /** System Program Address */
+    systemProgram: TAccountMetas[3];
+  };
+  data: SetDelegateInstructionData;
+};
+
+export function parseSetDelegateInstruction<
+  TProgram extends string,
+  TAccountMetas extends readonly AccountMeta[],
+>(
+  instruction: Instruction<TProgram> &
+    InstructionWithAccounts<TAccountMetas> &
+    InstructionWithData<ReadonlyUint8Array>
+): ParsedSetDelegateInstruction<TProgram, TAccountMetas> {
+  if (instruction.accounts.length < 4) {
+    // TODO: Coded error.
+    throw new Error('Not enough accounts');
+  }
+  let accountIndex = 0;
+  const getNextAccount = () => {
+    const accountMeta = (instruction.accounts as TAccountMetas)[accountIndex]!;
+    accountIndex += 1;
+    return accountMeta;
+  };
+  return {
+    programAddress: instruction.programAddress,
+    accounts: {
+      owner: getNextAccount(),
+      vault: getNextAccount(),
+      program: getNextAccount(),
+      systemProgram: getNextAccount(),
+    },
+    data: getSetDelegateInstructionDataDecoder().decode(instruction.data),
+  };
+}
@@ -28,8 +28,13 @@ import {
   type WritableAccount,
   type WritableSignerAccount,
 } from '@solana/kit';
+import { findVaultPda } from '../pdas';
 import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from '../programs';
-import { getAccountMetaFactory, type ResolvedAccount } from '../shared';
+import {
+  expectAddress,
+  getAccountMetaFactory,
+  type ResolvedAccount,
+} from '../shared';
 
 export const WITHDRAW_DISCRIMINATOR = 1;
 
@@ -41,7 +46,9 @@ export type WithdrawInstruction<
   TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
   TAccountOwner extends string | AccountMeta<string> = string,
   TAccountVault extends string | AccountMeta<string> = string,
-  TAccountProgram extends string | AccountMeta<string> = string,
+  TAccountProgram extends
+    | string
+    | AccountMeta<string> = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG',
   TRemainingAccounts extends readonly AccountMeta<string>[] = [],
 > = Instruction<TProgram> &
   InstructionWithData<ReadonlyUint8Array> &
@@ -86,6 +93,78 @@ export function getWithdrawInstructionDataCodec(): FixedSizeCodec<
   );
 }
 
+export type WithdrawAsyncInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+> = {
+  /** Vault owner and authority */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault?: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+};
+
+export async function getWithdrawInstructionAsync<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: WithdrawAsyncInput<TAccountOwner, TAccountVault, TAccountProgram>,
+  config?: { programAddress?: TProgramAddress }
+): Promise<
+  WithdrawInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Resolve default values.
+  if (!accounts.vault.value) {
+    accounts.vault.value = await findVaultPda({
+      owner: expectAddress(accounts.owner.value),
+    });
+  }
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+    ],
+    data: getWithdrawInstructionDataEncoder().encode({}),
+    programAddress,
+  } as WithdrawInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >);
+}
+
 export type WithdrawInput<
   TAccountOwner extends string = string,
   TAccountVault extends string = string,
@@ -96,7 +175,7 @@ export type WithdrawInput<
   /** Vault PDA for lamports */
   vault: Address<TAccountVault>;
   /** Program Address */
-  program: Address<TAccountProgram>;
+  program?: Address<TAccountProgram>;
 };
 
 export function getWithdrawInstruction<
@@ -128,6 +207,12 @@ export function getWithdrawInstruction<
     ResolvedAccount
   >;
 
+  // Resolve default values.
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
   const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
   return Object.freeze({
     accounts: [
@@ -0,0 +1,303 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  combineCodec,
+  getStructDecoder,
+  getStructEncoder,
+  getU64Decoder,
+  getU64Encoder,
+  getU8Decoder,
+  getU8Encoder,
+  transformEncoder,
+  type AccountMeta,
+  type AccountSignerMeta,
+  type Address,
+  type FixedSizeCodec,
+  type FixedSizeDecoder,
+  type FixedSizeEncoder,
+  type Instruction,
+  type InstructionWithAccounts,
+  type InstructionWithData,
+  type ReadonlyAccount,
+  type ReadonlyUint8Array,
+  type TransactionSigner,
+  type WritableAccount,
+  type WritableSignerAccount,
+} from '@solana/kit';
+import { findVaultPda } from '../pdas';
+import { PINOCCHIO_DEMO_PROGRAM_ADDRESS } from '../programs';
+import {
+  expectAddress,
+  getAccountMetaFactory,
+  type ResolvedAccount,
+} from '../shared';
+
+export const WITHDRAW_AMOUNT_DISCRIMINATOR = 2;
+
+export function getWithdrawAmountDiscriminatorBytes() {
+  return getU8Encoder().encode(WITHDRAW_AMOUNT_DISCRIMINATOR);
+}
+
+export type WithdrawAmountInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountOwner extends string | AccountMeta<string> = string,
+  TAccountVault extends string | AccountMeta<string> = string,
+  TAccountProgram extends
+    | string
+    | AccountMeta<string> = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG',
+  TRemainingAccounts extends readonly AccountMeta<string>[] = [],
+> = Instruction<TProgram> &
+  InstructionWithData<ReadonlyUint8Array> &
+  InstructionWithAccounts<
+    [
+      TAccountOwner extends string
+        ? WritableSignerAccount<TAccountOwner> &
+            AccountSignerMeta<TAccountOwner>
+        : TAccountOwner,
+      TAccountVault extends string
+        ? WritableAccount<TAccountVault>
+        : TAccountVault,
+      TAccountProgram extends string
+        ? ReadonlyAccount<TAccountProgram>
+        : TAccountProgram,
+      ...TRemainingAccounts,
+    ]
+  >;
+
+export type WithdrawAmountInstructionData = {
+  discriminator: number;
+  amount: bigint;
+};
+
+export type WithdrawAmountInstructionDataArgs = { amount: number | bigint };
+
+export function getWithdrawAmountInstructionDataEncoder(): FixedSizeEncoder<WithdrawAmountInstructionDataArgs> {
+  return transformEncoder(
+    getStructEncoder([
+      ['discriminator', getU8Encoder()],
+      ['amount', getU64Encoder()],
+    ]),
+    (value) => ({ ...value, discriminator: WITHDRAW_AMOUNT_DISCRIMINATOR })
+  );
+}
+
+export function getWithdrawAmountInstructionDataDecoder(): FixedSizeDecoder<WithdrawAmountInstructionData> {
+  return getStructDecoder([
+    ['discriminator', getU8Decoder()],
+    ['amount', getU64Decoder()],
+  ]);
+}
+
+export function getWithdrawAmountInstructionDataCodec(): FixedSizeCodec<
+  WithdrawAmountInstructionDataArgs,
+  WithdrawAmountInstructionData
+> {
+  return combineCodec(
+    getWithdrawAmountInstructionDataEncoder(),
+    getWithdrawAmountInstructionDataDecoder()
+  );
+}
+
+export type WithdrawAmountAsyncInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+> = {
+  /** Vault owner and authority */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault?: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+  amount: WithdrawAmountInstructionDataArgs['amount'];
+};
+
+export async function getWithdrawAmountInstructionAsync<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: WithdrawAmountAsyncInput<
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >,
+  config?: { programAddress?: TProgramAddress }
+): Promise<
+  WithdrawAmountInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Original args.
+  const args = { ...input };
+
+  // Resolve default values.
+  if (!accounts.vault.value) {
+    accounts.vault.value = await findVaultPda({
+      owner: expectAddress(accounts.owner.value),
+    });
+  }
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+    ],
+    data: getWithdrawAmountInstructionDataEncoder().encode(
+      args as WithdrawAmountInstructionDataArgs
+    ),
+    programAddress,
+  } as WithdrawAmountInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >);
+}
+
+export type WithdrawAmountInput<
+  TAccountOwner extends string = string,
+  TAccountVault extends string = string,
+  TAccountProgram extends string = string,
+> = {
+  /** Vault owner and authority */
+  owner: TransactionSigner<TAccountOwner>;
+  /** Vault PDA for lamports */
+  vault: Address<TAccountVault>;
+  /** Program Address */
+  program?: Address<TAccountProgram>;
+  amount: WithdrawAmountInstructionDataArgs['amount'];
+};
+
+export function getWithdrawAmountInstruction<
+  TAccountOwner extends string,
+  TAccountVault extends string,
+  TAccountProgram extends string,
+  TProgramAddress extends Address = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+>(
+  input: WithdrawAmountInput<TAccountOwner, TAccountVault, TAccountProgram>,
+  config?: { programAddress?: TProgramAddress }
+): WithdrawAmountInstruction<
+  TProgramAddress,
+  TAccountOwner,
+  TAccountVault,
+  TAccountProgram
+> {
+  // Program address.
+  const programAddress =
+    config?.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+
+  // Original accounts.
+  const originalAccounts = {
+    owner: { value: input.owner ?? null, isWritable: true },
+    vault: { value: input.vault ?? null, isWritable: true },
+    program: { value: input.program ?? null, isWritable: false },
+  };
+  const accounts = originalAccounts as Record<
+    keyof typeof originalAccounts,
+    ResolvedAccount
+  >;
+
+  // Original args.
+  const args = { ...input };
+
+  // Resolve default values.
+  if (!accounts.program.value) {
+    accounts.program.value = programAddress;
+    accounts.program.isWritable = false;
+  }
+
+  const getAccountMeta = getAccountMetaFactory(programAddress, 'programId');
+  return Object.freeze({
+    accounts: [
+      getAccountMeta(accounts.owner),
+      getAccountMeta(accounts.vault),
+      getAccountMeta(accounts.program),
+    ],
+    data: getWithdrawAmountInstructionDataEncoder().encode(
+      args as WithdrawAmountInstructionDataArgs
+    ),
+    programAddress,
+  } as WithdrawAmountInstruction<
+    TProgramAddress,
+    TAccountOwner,
+    TAccountVault,
+    TAccountProgram
+  >);
+}
+
+export type ParsedWithdrawAmountInstruction<
+  TProgram extends string = typeof PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  TAccountMetas extends readonly AccountMeta[] = readonly AccountMeta[],
+> = {
+  programAddress: Address<TProgram>;
+  accounts: {
+    /** Vault owner and authority */
+    owner: TAccountMetas[0];
+    /** Vault PDA for lamports */
+    vault: TAccountMetas[1];
+    /** Program Address */
+    program: TAccountMetas[2];
+  };
+  data: WithdrawAmountInstructionData;
+};
+
+export function parseWithdrawAmountInstruction<
+  TProgram extends string,
+  TAccountMetas extends readonly AccountMeta[],
+>(
+  instruction: Instruction<TProgram> &
+    InstructionWithAccounts<TAccountMetas> &
+    InstructionWithData<ReadonlyUint8Array>
+): ParsedWithdrawAmountInstruction<TProgram, TAccountMetas> {
+  if (instruction.accounts.length < 3) {
+    // TODO: Coded error.
+    throw new Error('Not enough accounts');
+  }
+  let accountIndex = 0;
+  const getNextAccount = () => {
+    const accountMeta = (instruction.accounts as TAccountMetas)[accountIndex]!;
+    accountIndex += 1;
+    return accountMeta;
+  };
+  return {
+    programAddress: instruction.programAddress,
+    accounts: {
+      owner: getNextAccount(),
+      vault: getNextAccount(),
+      program: getNextAccount(),
+    },
+    data: getWithdrawAmountInstructionDataDecoder().decode(instruction.data),
+  };
+}
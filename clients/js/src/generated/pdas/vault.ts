@@ -0,0 +1,37 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  getAddressEncoder,
+  getProgramDerivedAddress,
+  getUtf8Encoder,
+  type Address,
+  type ProgramDerivedAddress,
+} from '@solana/kit';
+
+export type VaultSeeds = {
+  /** The address of the vault owner */
+  owner: Address;
+};
+
+/** Vault PDA derived from the "vault" tag and the owner address */
+export async function findVaultPda(
+  seeds: VaultSeeds,
+  config: { programAddress?: Address | undefined } = {}
+): Promise<ProgramDerivedAddress> {
+  const {
+    programAddress = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG' as Address<'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG'>,
+  } = config;
+  return await getProgramDerivedAddress({
+    programAddress,
+    seeds: [
+      getUtf8Encoder().encode('vault'),
+      getAddressEncoder().encode(seeds.owner),
+    ],
+  });
+}
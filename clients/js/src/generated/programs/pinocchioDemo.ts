@@ -11,41 +11,85 @@ import {
   getU8Encoder,
   type Address,
   type ReadonlyUint8Array,
-} from "@solana/kit";
+} from '@solana/kit';
 import {
+  type ParsedCloseVaultInstruction,
+  type ParsedDelegateWithdrawInstruction,
   type ParsedDepositInstruction,
+  type ParsedRevokeDelegateInstruction,
+  type ParsedSetDelegateInstruction,
+  type ParsedWithdrawAmountInstruction,
   type ParsedWithdrawInstruction,
-} from "../instructions";
+} from '../instructions';
 
 export const PINOCCHIO_DEMO_PROGRAM_ADDRESS =
-  "GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG" as Address<"GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG">;
+  'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG' as Address<'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG'>;
+
+export enum PinocchioDemoAccount {
+  Vault,
+}
 
 export enum PinocchioDemoInstruction {
   Deposit,
   Withdraw,
+  WithdrawAmount,
+  CloseVault,
+  SetDelegate,
+  RevokeDelegate,
+  DelegateWithdraw,
 }
 
 export function identifyPinocchioDemoInstruction(
-  instruction: { data: ReadonlyUint8Array } | ReadonlyUint8Array,
+  instruction: { data: ReadonlyUint8Array } | ReadonlyUint8Array
 ): PinocchioDemoInstruction {
-  const data = "data" in instruction ? instruction.data : instruction;
+  const data = 'data' in instruction ? instruction.data : instruction;
   if (containsBytes(data, getU8Encoder().encode(0), 0)) {
     return PinocchioDemoInstruction.Deposit;
   }
   if (containsBytes(data, getU8Encoder().encode(1), 0)) {
     return PinocchioDemoInstruction.Withdraw;
   }
+  if (containsBytes(data, getU8Encoder().encode(2), 0)) {
+    return PinocchioDemoInstruction.WithdrawAmount;
+  }
+  if (containsBytes(data, getU8Encoder().encode(3), 0)) {
+    return PinocchioDemoInstruction.CloseVault;
+  }
+  if (containsBytes(data, getU8Encoder().encode(4), 0)) {
+    return PinocchioDemoInstruction.SetDelegate;
+  }
+  if (containsBytes(data, getU8Encoder().encode(5), 0)) {
+    return PinocchioDemoInstruction.RevokeDelegate;
+  }
+  if (containsBytes(data, getU8Encoder().encode(6), 0)) {
+    return PinocchioDemoInstruction.DelegateWithdraw;
+  }
   throw new Error(
-    "The provided instruction could not be identified as a pinocchioDemo instruction.",
+    'The provided instruction could not be identified as a pinocchioDemo instruction.'
   );
 }
 
 export type ParsedPinocchioDemoInstruction<
-  TProgram extends string = "GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG",
+  TProgram extends string = 'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG',
 > =
   | ({
       instructionType: PinocchioDemoInstruction.Deposit;
     } & ParsedDepositInstruction<TProgram>)
   | ({
       instructionType: PinocchioDemoInstruction.Withdraw;
-    } & ParsedWithdrawInstruction<TProgram>);
+    } & ParsedWithdrawInstruction<TProgram>)
+  | ({
+      instructionType: PinocchioDemoInstruction.WithdrawAmount;
+    } & ParsedWithdrawAmountInstruction<TProgram>)
+  | ({
+      instructionType: PinocchioDemoInstruction.CloseVault;
+    } & ParsedCloseVaultInstruction<TProgram>)
+  | ({
+      instructionType: PinocchioDemoInstruction.SetDelegate;
+    } & ParsedSetDelegateInstruction<TProgram>)
+  | ({
+      instructionType: PinocchioDemoInstruction.RevokeDelegate;
+    } & ParsedRevokeDelegateInstruction<TProgram>)
+  | ({
+      instructionType: PinocchioDemoInstruction.DelegateWithdraw;
+    } & ParsedDelegateWithdrawInstruction<TProgram>);
@@ -0,0 +1,225 @@
+import {
+  type Address,
+  type Commitment,
+  type GetSignaturesForAddressApi,
+  type GetTransactionApi,
+  type Rpc,
+  type Signature,
+} from "@solana/kit";
+import { findVaultPda, PINOCCHIO_DEMO_PROGRAM_ADDRESS } from "./generated";
+import { getVaultLedgerEntries, type VaultLedgerEntryKind } from "./indexer";
+import { fetchPinocchioDemoTransaction } from "./transactions";
+
+export type VaultHistoryConfig = {
+  /** Only list transactions older than this signature. */
+  before?: Signature;
+  /** Stop at this signature, which is not listed. */
+  until?: Signature;
+  /** Maximum number of signatures to scan. Defaults to every signature. */
+  limit?: number;
+  /** Must be `confirmed` or `finalized`. Defaults to `confirmed`. */
+  commitment?: Extract<Commitment, "confirmed" | "finalized">;
+  programAddress?: Address;
+};
+
+export type VaultHistoryInstruction = {
+  /** Index of the instruction among the transaction's top-level instructions. */
+  index: number;
+  kind: VaultLedgerEntryKind;
+  /** Lamports moved into (deposit) or out of (withdraw, close) the vault. */
+  amount: bigint;
+  /** Whether this deposit created the vault account. */
+  vaultCreated: boolean;
+};
+
+export type VaultHistoryEntry = {
+  signature: Signature;
+  slot: bigint;
+  blockTime: bigint | null;
+  /**
+   * Vault program instructions acting on this vault. Empty for transfers
+   * that reach the vault without going through the program.
+   */
+  instructions: VaultHistoryInstruction[];
+  /** Vault lamports before the transaction. */
+  preBalance: bigint;
+  /** Vault lamports after the transaction, i.e. the running balance. */
+  postBalance: bigint;
+  /** `postBalance - preBalance`; includes the rent paid on creation. */
+  delta: bigint;
+};
+
+export type VaultHistory = {
+  owner: Address;
+  vault: Address;
+  /** Successful transactions touching the vault, oldest first. */
+  entries: VaultHistoryEntry[];
+  /**
+   * Pass as `before` to continue with older transactions, or `null` once
+   * the history is exhausted.
+   */
+  nextBefore: Signature | null;
+};
+
+const SIGNATURES_PAGE_SIZE = 1000;
+
+/**
+ * Lists the vault activity of `owner` from newest to oldest signature of
+ * the vault PDA, then decodes each transaction. Balances come from the
+ * transaction metadata, so they are exact even for transfers the program
+ * did not log. Failed transactions are skipped since they move no vault
+ * lamports.
+ */
+export async function getVaultHistory(
+  rpc: Rpc<GetSignaturesForAddressApi & GetTransactionApi>,
+  owner: Address,
+  config: VaultHistoryConfig = {},
+): Promise<VaultHistory> {
+  const {
+    commitment = "confirmed",
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    limit = Infinity,
+  } = config;
+  const [vault] = await findVaultPda({ owner }, { programAddress });
+
+  const entries: VaultHistoryEntry[] = [];
+  let before = config.before;
+  let scanned = 0;
+  let exhausted = false;
+  while (scanned < limit) {
+    const pageSize = Math.min(SIGNATURES_PAGE_SIZE, limit - scanned);
+    const page = await rpc
+      .getSignaturesForAddress(vault, {
+        before,
+        until: config.until,
+        commitment,
+        limit: pageSize,
+      })
+      .send();
+    scanned += page.length;
+    if (page.length > 0) {
+      before = page[page.length - 1].signature;
+    }
+    for (const { signature, err } of page) {
+      if (err) {
+        continue;
+      }
+      const transaction = await fetchPinocchioDemoTransaction(rpc, signature, {
+        commitment,
+        programAddress,
+      });
+      const accountIndex = transaction?.accountKeys.indexOf(vault) ?? -1;
+      if (!transaction || transaction.err || accountIndex < 0) {
+        continue;
+      }
+      const preBalance = transaction.preBalances[accountIndex];
+      const postBalance = transaction.postBalances[accountIndex];
+      entries.push({
+        signature,
+        slot: transaction.slot,
+        blockTime: transaction.blockTime,
+        instructions: getVaultLedgerEntries(transaction)
+          .filter((entry) => entry.vault === vault)
+          .map(({ instructionIndex, kind, amount, vaultCreated }) => ({
+            index: instructionIndex,
+            kind,
+            amount,
+            vaultCreated,
+          })),
+        preBalance,
+        postBalance,
+        delta: postBalance - preBalance,
+      });
+    }
+    if (page.length < pageSize) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  return {
+    owner,
+    vault,
+    entries: entries.reverse(),
+    nextBefore: exhausted ? null : (before ?? null),
+  };
+}
+
+const CSV_HEADER = [
+  "slot",
+  "block_time",
+  "signature",
+  "activity",
+  "delta_lamports",
+  "balance_lamports",
+];
+
+function formatBlockTime(blockTime: bigint | null): string | null {
+  return blockTime === null
+    ? null
+    : new Date(Number(blockTime) * 1000).toISOString();
+}
+
+/** Describes the instructions of an entry, e.g. `deposit 5000 (vault created)`. */
+function describeActivity(entry: VaultHistoryEntry): string {
+  if (entry.instructions.length === 0) {
+    return "transfer";
+  }
+  return entry.instructions
+    .map(
+      ({ kind, amount, vaultCreated }) =>
+        `${kind} ${amount}${vaultCreated ? " (vault created)" : ""}`,
+    )
+    .join("; ");
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats a history as a CSV statement, one row per transaction with the
+ * running vault balance after it. Amounts are in lamports and block times
+ * in UTC.
+ */
+export function formatVaultStatementCsv(history: VaultHistory): string {
+  const rows = history.entries.map((entry) => [
+    entry.slot.toString(),
+    formatBlockTime(entry.blockTime) ?? "",
+    entry.signature,
+    describeActivity(entry),
+    entry.delta.toString(),
+    entry.postBalance.toString(),
+  ]);
+  return (
+    [CSV_HEADER, ...rows]
+      .map((row) => row.map(escapeCsvField).join(","))
+      .join("\n") + "\n"
+  );
+}
+
+/**
+ * Formats a history as a JSON statement with opening and closing balances.
+ * Lamport amounts are strings so that they survive `JSON.parse`.
+ */
+export function formatVaultStatementJson(history: VaultHistory): string {
+  const { entries } = history;
+  const statement = {
+    owner: history.owner,
+    vault: history.vault,
+    openingBalance: (entries[0]?.preBalance ?? 0n).toString(),
+    closingBalance: (entries[entries.length - 1]?.postBalance ?? 0n).toString(),
+    entries: entries.map((entry) => ({
+      signature: entry.signature,
+      slot: entry.slot.toString(),
+      blockTime: formatBlockTime(entry.blockTime),
+      instructions: entry.instructions.map((instruction) => ({
+        ...instruction,
+        amount: instruction.amount.toString(),
+      })),
+      delta: entry.delta.toString(),
+      balance: entry.postBalance.toString(),
+    })),
+  };
+  return JSON.stringify(statement, null, 2);
+}
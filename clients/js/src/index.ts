@@ -0,0 +1,19 @@
+export * from "./generated";
+export * from "./parsers";
+export * from "./errors";
+export * from "./vaultClient";
+export * from "./events";
+export * from "./transactions";
+export * from "./indexer";
+export * from "./units";
+export * from "./simulation";
+export * from "./fees";
+export * from "./batch";
+export * from "./nonce";
+export * from "./model";
+export * from "./validation";
+export * from "./watch";
+export * from "./rent";
+export * from "./delegate";
+export * from "./history";
+export * from "./mock";
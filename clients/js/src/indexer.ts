@@ -0,0 +1,377 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import {
+  type Address,
+  type Commitment,
+  type GetSignaturesForAddressApi,
+  type GetTransactionApi,
+  type LogsNotificationsApi,
+  type Rpc,
+  type RpcSubscriptions,
+  type Signature,
+} from "@solana/kit";
+import {
+  DEPOSIT_DISCRIMINATOR,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  PinocchioDemoInstruction,
+} from "./generated";
+import {
+  fetchPinocchioDemoTransaction,
+  type PinocchioDemoTransaction,
+} from "./transactions";
+
+export type VaultLedgerEntryKind = "deposit" | "withdraw" | "close";
+
+export type VaultLedgerEntry = {
+  signature: Signature;
+  slot: bigint;
+  blockTime: bigint | null;
+  /** Index of the instruction among the transaction's top-level instructions. */
+  instructionIndex: number;
+  owner: Address;
+  vault: Address;
+  kind: VaultLedgerEntryKind;
+  /** Lamports moved into (deposit) or out of (withdraw, close) the vault. */
+  amount: bigint;
+  /** Whether this deposit created the vault account. */
+  vaultCreated: boolean;
+};
+
+export type VaultLedger = {
+  /** Most recent program signature that has been processed. */
+  lastSignature: Signature | null;
+  entries: VaultLedgerEntry[];
+};
+
+export type VaultLedgerSummary = {
+  owner: Address;
+  vault: Address;
+  deposited: bigint;
+  withdrawn: bigint;
+  entryCount: number;
+  lastSlot: bigint;
+};
+
+/** Persistence layer used by {@link VaultIndexer}. */
+export interface VaultLedgerStore {
+  load(): Promise<VaultLedger>;
+  save(ledger: VaultLedger): Promise<void>;
+}
+
+type SerializedVaultLedgerEntry = Omit<
+  VaultLedgerEntry,
+  "slot" | "blockTime" | "amount"
+> & {
+  slot: string;
+  blockTime: string | null;
+  amount: string;
+};
+
+/**
+ * Stores the ledger as a JSON file. Writes go to a temporary file first and
+ * are renamed into place so an interrupted run never leaves a torn ledger.
+ */
+export function createFileVaultLedgerStore(path: string): VaultLedgerStore {
+  return {
+    async load() {
+      let contents: string;
+      try {
+        contents = await readFile(path, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return { lastSignature: null, entries: [] };
+        }
+        throw error;
+      }
+      const raw = JSON.parse(contents) as {
+        lastSignature: Signature | null;
+        entries: SerializedVaultLedgerEntry[];
+      };
+      return {
+        lastSignature: raw.lastSignature,
+        entries: raw.entries.map((entry) => ({
+          ...entry,
+          slot: BigInt(entry.slot),
+          blockTime: entry.blockTime === null ? null : BigInt(entry.blockTime),
+          amount: BigInt(entry.amount),
+        })),
+      };
+    },
+    async save(ledger) {
+      const serialized = {
+        lastSignature: ledger.lastSignature,
+        entries: ledger.entries.map(
+          (entry): SerializedVaultLedgerEntry => ({
+            ...entry,
+            slot: entry.slot.toString(),
+            blockTime:
+              entry.blockTime === null ? null : entry.blockTime.toString(),
+            amount: entry.amount.toString(),
+          }),
+        ),
+      };
+      const temporaryPath = `${path}.tmp`;
+      await writeFile(temporaryPath, JSON.stringify(serialized, null, 2));
+      await rename(temporaryPath, path);
+    },
+  };
+}
+
+/**
+ * Turns a decoded transaction into ledger entries. Failed transactions and
+ * instructions without a matching event yield no entries.
+ *
+ * Undecoded instructions the program accepts are included: the program
+ * only reads their first two accounts, the owner and the vault.
+ */
+export function getVaultLedgerEntries(
+  transaction: PinocchioDemoTransaction,
+): VaultLedgerEntry[] {
+  if (transaction.err) {
+    return [];
+  }
+  const instructions = [
+    ...transaction.instructions.map(({ index, instruction, events }) => ({
+      index,
+      events,
+      owner: instruction.accounts.owner.address,
+      vault: instruction.accounts.vault.address,
+      isDeposit:
+        instruction.instructionType === PinocchioDemoInstruction.Deposit,
+    })),
+    ...transaction.undecodedInstructions
+      .filter(({ decodeError }) => decodeError === null)
+      .map(({ index, accounts, data, events }) => ({
+        index,
+        events,
+        owner: accounts[0].address,
+        vault: accounts[1].address,
+        isDeposit: data[0] === DEPOSIT_DISCRIMINATOR,
+      })),
+  ].sort((a, b) => a.index - b.index);
+
+  const entries: VaultLedgerEntry[] = [];
+  for (const { index, events, owner, vault, isDeposit } of instructions) {
+    const base = {
+      signature: transaction.signature,
+      slot: transaction.slot,
+      blockTime: transaction.blockTime,
+      instructionIndex: index,
+      owner,
+      vault,
+    };
+    const vaultCreated = events.some((event) => event.kind === "VaultCreated");
+    for (const event of events) {
+      if (event.kind === "Deposited" && isDeposit) {
+        entries.push({
+          ...base,
+          kind: "deposit",
+          amount: event.amount,
+          vaultCreated,
+        });
+      } else if (event.kind === "Withdrawn") {
+        entries.push({
+          ...base,
+          kind: "withdraw",
+          amount: event.amount,
+          vaultCreated: false,
+        });
+      } else if (event.kind === "VaultClosed") {
+        entries.push({
+          ...base,
+          kind: "close",
+          amount: event.amount,
+          vaultCreated: false,
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+/** Aggregates ledger entries per owner and vault. */
+export function summarizeVaultLedger(
+  entries: readonly VaultLedgerEntry[],
+): VaultLedgerSummary[] {
+  const summaries = new Map<string, VaultLedgerSummary>();
+  for (const entry of entries) {
+    const key = `${entry.owner}:${entry.vault}`;
+    const summary = summaries.get(key) ?? {
+      owner: entry.owner,
+      vault: entry.vault,
+      deposited: 0n,
+      withdrawn: 0n,
+      entryCount: 0,
+      lastSlot: entry.slot,
+    };
+    if (entry.kind === "deposit") {
+      summary.deposited += entry.amount;
+    } else {
+      summary.withdrawn += entry.amount;
+    }
+    summary.entryCount += 1;
+    summary.lastSlot =
+      entry.slot > summary.lastSlot ? entry.slot : summary.lastSlot;
+    summaries.set(key, summary);
+  }
+  return [...summaries.values()];
+}
+
+export type VaultIndexerConfig = {
+  rpc: Rpc<GetSignaturesForAddressApi & GetTransactionApi>;
+  /** Required by {@link VaultIndexer.watch} only. */
+  rpcSubscriptions?: RpcSubscriptions<LogsNotificationsApi>;
+  store: VaultLedgerStore;
+  /** Must be `confirmed` or `finalized`. Defaults to `confirmed`. */
+  commitment?: Extract<Commitment, "confirmed" | "finalized">;
+  programAddress?: Address;
+};
+
+const SIGNATURES_PAGE_SIZE = 1000;
+const FETCH_RETRIES = 5;
+const FETCH_RETRY_DELAY_MS = 500;
+
+/**
+ * Builds a per-owner vault ledger from the program's transaction history.
+ *
+ * The ledger is persisted after every processed transaction, so an
+ * interrupted {@link sync} resumes from the last processed signature.
+ */
+export class VaultIndexer {
+  readonly programAddress: Address;
+
+  private readonly rpc: VaultIndexerConfig["rpc"];
+  private readonly rpcSubscriptions: VaultIndexerConfig["rpcSubscriptions"];
+  private readonly store: VaultLedgerStore;
+  private readonly commitment: "confirmed" | "finalized";
+  private ledger: VaultLedger | undefined;
+  private readonly indexedSignatures = new Set<Signature>();
+
+  constructor(config: VaultIndexerConfig) {
+    this.rpc = config.rpc;
+    this.rpcSubscriptions = config.rpcSubscriptions;
+    this.store = config.store;
+    this.commitment = config.commitment ?? "confirmed";
+    this.programAddress =
+      config.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+  }
+
+  /** Returns the ledger, loading it from the store on first use. */
+  async getLedger(): Promise<VaultLedger> {
+    if (!this.ledger) {
+      this.ledger = await this.store.load();
+      for (const entry of this.ledger.entries) {
+        this.indexedSignatures.add(entry.signature);
+      }
+    }
+    return this.ledger;
+  }
+
+  /**
+   * Replays every program signature newer than the last processed one,
+   * oldest first. Returns the number of ledger entries added.
+   */
+  async sync(): Promise<number> {
+    const ledger = await this.getLedger();
+    const signatures: { signature: Signature; failed: boolean }[] = [];
+    let before: Signature | undefined;
+    for (;;) {
+      const page = await this.rpc
+        .getSignaturesForAddress(this.programAddress, {
+          before,
+          commitment: this.commitment,
+          limit: SIGNATURES_PAGE_SIZE,
+          until: ledger.lastSignature ?? undefined,
+        })
+        .send();
+      signatures.push(
+        ...page.map(({ signature, err }) => ({ signature, failed: !!err })),
+      );
+      if (page.length < SIGNATURES_PAGE_SIZE) {
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    let added = 0;
+    for (const { signature, failed } of signatures.reverse()) {
+      added += await this.indexSignature(signature, failed);
+    }
+    return added;
+  }
+
+  /**
+   * Indexes new program transactions as they are confirmed, after catching
+   * up with {@link sync}. Resolves when `abortSignal` fires.
+   */
+  async watch(abortSignal: AbortSignal): Promise<void> {
+    if (!this.rpcSubscriptions) {
+      throw new Error("VaultIndexer.watch requires rpcSubscriptions.");
+    }
+    // Subscribe before syncing so nothing confirmed in between is missed.
+    const notifications = await this.rpcSubscriptions
+      .logsNotifications(
+        { mentions: [this.programAddress] },
+        { commitment: this.commitment },
+      )
+      .subscribe({ abortSignal });
+    await this.sync();
+    try {
+      for await (const { value } of notifications) {
+        if (value.err) {
+          continue;
+        }
+        await this.indexSignature(value.signature);
+      }
+    } catch (error) {
+      if (!abortSignal.aborted) {
+        throw error;
+      }
+    }
+  }
+
+  /** Returns per-owner totals for the current ledger. */
+  async getSummaries(): Promise<VaultLedgerSummary[]> {
+    const { entries } = await this.getLedger();
+    return summarizeVaultLedger(entries);
+  }
+
+  /**
+   * Adds the entries of one transaction and records it as processed.
+   * Failed transactions moved no lamports, so they are not even fetched.
+   */
+  private async indexSignature(
+    signature: Signature,
+    failed = false,
+  ): Promise<number> {
+    const ledger = await this.getLedger();
+    if (this.indexedSignatures.has(signature)) {
+      return 0;
+    }
+    const entries = failed
+      ? []
+      : getVaultLedgerEntries(await this.fetchTransaction(signature));
+    ledger.entries.push(...entries);
+    ledger.lastSignature = signature;
+    this.indexedSignatures.add(signature);
+    await this.store.save(ledger);
+    return entries.length;
+  }
+
+  private async fetchTransaction(
+    signature: Signature,
+  ): Promise<PinocchioDemoTransaction> {
+    // A freshly notified transaction may not be queryable immediately.
+    for (let attempt = 0; attempt < FETCH_RETRIES; attempt++) {
+      const transaction = await fetchPinocchioDemoTransaction(
+        this.rpc,
+        signature,
+        { commitment: this.commitment, programAddress: this.programAddress },
+      );
+      if (transaction) {
+        return transaction;
+      }
+      await new Promise((resolve) => setTimeout(resolve, FETCH_RETRY_DELAY_MS));
+    }
+    throw new Error(`Transaction ${signature} could not be fetched.`);
+  }
+}
@@ -0,0 +1,764 @@
+import {
+  createRpc,
+  createSolanaRpcApi,
+  createSolanaRpcSubscriptionsApi,
+  createSubscriptionRpc,
+  decompileTransactionMessage,
+  getBase58Decoder,
+  getBase64Decoder,
+  getBase64Encoder,
+  getCompiledTransactionMessageDecoder,
+  getPublicKeyFromAddress,
+  getTransactionDecoder,
+  isWritableRole,
+  verifySignature,
+  type AccountMeta,
+  type Address,
+  type Blockhash,
+  type Commitment,
+  type Rpc,
+  type RpcSubscriptions,
+  type RpcSubscriptionsChannel,
+  type RpcSubscriptionsTransport,
+  type RpcTransport,
+  type Signature,
+  type SolanaRpcApi,
+  type SolanaRpcSubscriptionsApi,
+  type TransactionError,
+} from "@solana/kit";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+import { getVaultEncoder } from "./generated";
+import {
+  getVaultModelInstructionErrorMessage,
+  VaultProgramModel,
+  type ModelAccount,
+  type VaultModelError,
+  type VaultModelInstructionError,
+  type VaultProgramModelConfig,
+} from "./model";
+import { getDefaultRentExemptMinimum } from "./rent";
+
+export type MockVaultRpcConfig = VaultProgramModelConfig & {
+  /** Fee charged to the fee payer per signature. Defaults to 5,000 lamports. */
+  lamportsPerSignature?: bigint;
+  /**
+   * Fees `getRecentPrioritizationFees` returns, whatever the accounts
+   * asked about. Defaults to none.
+   */
+  recentPrioritizationFees?: readonly {
+    slot: bigint;
+    prioritizationFee: bigint;
+  }[];
+  /**
+   * Compute units `simulateTransaction` reports for every transaction,
+   * since the model does not meter them. Not reported by default.
+   */
+  unitsConsumed?: bigint;
+};
+
+export type MockVaultRpc = {
+  /**
+   * Kit RPC answered from the in-memory ledger. Supports the account,
+   * balance, blockhash, rent, slot, signature status, airdrop, send and
+   * simulate methods; others fail with "Method not found".
+   */
+  rpc: Rpc<SolanaRpcApi>;
+  /**
+   * Kit subscriptions for `accountNotifications`, `logsNotifications`,
+   * `signatureNotifications` and `slotNotifications`, published as
+   * transactions land.
+   */
+  rpcSubscriptions: RpcSubscriptions<SolanaRpcSubscriptionsApi>;
+  /** Slot of the last landed transaction; every transaction gets its own. */
+  readonly slot: bigint;
+  /** Credits `lamports` to `address` in a new slot, like `requestAirdrop`. */
+  airdrop(address: Address, lamports: number | bigint): Signature;
+  getAccount(address: Address): ModelAccount | null;
+  getBalance(address: Address): bigint;
+  /**
+   * Seeds or replaces an account without a transaction, e.g. a vault PDA
+   * held by another program. Subscribers are not notified.
+   */
+  setAccount(address: Address, account: ModelAccount | null): void;
+};
+
+type JsonRpcRequest = {
+  id: string | number;
+  method: string;
+  params?: unknown[];
+};
+
+/** `SolanaRpcApi` methods the mock answers. */
+type MockRpcMethod =
+  | "getAccountInfo"
+  | "getBalance"
+  | "getBlockHeight"
+  | "getEpochInfo"
+  | "getLatestBlockhash"
+  | "getMinimumBalanceForRentExemption"
+  | "getMultipleAccounts"
+  | "getRecentPrioritizationFees"
+  | "getSignatureStatuses"
+  | "getSlot"
+  | "isBlockhashValid"
+  | "requestAirdrop"
+  | "sendTransaction"
+  | "simulateTransaction";
+
+/**
+ * Each handler takes the parameters of its `SolanaRpcApi` method and
+ * resolves to the result, which the transport wraps in `{ context, value }`
+ * for contextual methods.
+ */
+type MockRpcHandlers = {
+  [TMethod in MockRpcMethod]: (
+    ...params: Parameters<SolanaRpcApi[TMethod]>
+  ) => Promise<unknown>;
+};
+
+type AccountConfig = {
+  commitment?: Commitment;
+  encoding?: string;
+  dataSlice?: { offset: number | bigint; length: number | bigint };
+};
+
+type SignatureStatus = { slot: bigint; err: TransactionError | null };
+
+/** Outcome of a transaction against a copy of the ledger. */
+type ExecutedTransaction = {
+  signature: Signature;
+  logs: string[];
+  /** Static account keys of the message. */
+  accountKeys: Address[];
+  /** Accounts the transaction may write, fee payer first. */
+  writableAccounts: Address[];
+} & (
+  | {
+      err: TransactionError | null;
+      /** Ledger after the transaction, fee included. */
+      ledger: VaultProgramModel;
+    }
+  | {
+      err: TransactionError;
+      /** Rejected before paying its fee. */
+      ledger: null;
+    }
+);
+
+type Subscription = { method: string; params: unknown[] };
+type ChannelListener = (data: unknown) => void;
+
+/** Error answered to the Kit RPC as a JSON-RPC error response. */
+class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_LAMPORTS_PER_SIGNATURE = 5_000n;
+const MAX_PROCESSING_AGE = 150n;
+const SLOTS_PER_EPOCH = 432_000n;
+const RENT_EXEMPT_RENT_EPOCH = 2n ** 64n - 1n;
+
+/** Builds the blockhash handed out at `slot`; any 32 bytes will do. */
+function getBlockhashAtSlot(slot: bigint): Blockhash {
+  const bytes = new Uint8Array(32).fill(0x5a);
+  new DataView(bytes.buffer).setBigUint64(0, slot, true);
+  return getBase58Decoder().decode(bytes) as Blockhash;
+}
+
+function encodeAccount(
+  account: ModelAccount | null,
+  config: AccountConfig = {},
+) {
+  if (!account) {
+    return null;
+  }
+  const { encoding = "base58", dataSlice } = config;
+  // The program only writes the vault delegate, so the rest reads as zeros
+  const data = new Uint8Array(account.space);
+  if (account.delegate) {
+    data.set(
+      getVaultEncoder().encode({
+        discriminator: new Uint8Array(8),
+        reserved: 0n,
+        delegate: account.delegate,
+      }),
+    );
+  }
+  const slice = data.slice(
+    Number(dataSlice?.offset ?? 0),
+    dataSlice
+      ? Number(dataSlice.offset) + Number(dataSlice.length)
+      : account.space,
+  );
+  let encodedData: [string, string];
+  if (encoding === "base64") {
+    encodedData = [getBase64Decoder().decode(slice), "base64"];
+  } else if (encoding === "base58") {
+    encodedData = [getBase58Decoder().decode(slice), "base58"];
+  } else {
+    throw new JsonRpcError(-32602, `Unsupported account encoding ${encoding}`);
+  }
+  return {
+    data: encodedData,
+    executable: false,
+    lamports: account.lamports,
+    owner: account.owner,
+    rentEpoch: RENT_EXEMPT_RENT_EPOCH,
+    space: BigInt(account.space),
+  };
+}
+
+/**
+ * Converts a model error to the RPC `TransactionError` shape, which refers
+ * to accounts by their index in the message.
+ */
+function toTransactionError(
+  error: VaultModelError,
+  accountKeys: Address[],
+): TransactionError {
+  if ("InsufficientFundsForRent" in error) {
+    return {
+      InsufficientFundsForRent: {
+        account_index: accountKeys.indexOf(
+          error.InsufficientFundsForRent.account,
+        ),
+      },
+    };
+  }
+  return error as TransactionError;
+}
+
+/** Message of a preflight failure, as a validator words it. */
+function getTransactionErrorMessage(error: TransactionError): string {
+  if (typeof error === "string") {
+    switch (error) {
+      case "AccountNotFound":
+        return "Attempt to debit an account but found no record of a prior credit.";
+      case "AlreadyProcessed":
+        return "This transaction has already been processed";
+      case "BlockhashNotFound":
+        return "Blockhash not found";
+      case "InsufficientFundsForFee":
+        return "Insufficient funds for fee";
+      default:
+        return error;
+    }
+  }
+  if ("InstructionError" in error) {
+    const [index, instructionError] = error.InstructionError;
+    return `Error processing Instruction ${index}: ${getVaultModelInstructionErrorMessage(
+      instructionError as VaultModelInstructionError,
+    )}`;
+  }
+  if ("InsufficientFundsForRent" in error) {
+    return `Transaction results in an account (${error.InsufficientFundsForRent.account_index}) with insufficient funds for rent`;
+  }
+  return JSON.stringify(error);
+}
+
+/** The error `sendTransaction` answers when preflight fails. */
+function getPreflightFailure(
+  err: TransactionError,
+  logs: string[],
+): JsonRpcError {
+  return new JsonRpcError(
+    -32002,
+    `Transaction simulation failed: ${getTransactionErrorMessage(err)}`,
+    {
+      accounts: null,
+      err,
+      logs,
+      returnData: null,
+      unitsConsumed: undefined,
+    },
+  );
+}
+
+/**
+ * Creates a Kit RPC and subscriptions client backed by an in-memory ledger
+ * that executes vault program instructions with {@link VaultProgramModel},
+ * so application code can be unit tested without a validator or an SVM.
+ *
+ * Transactions are decoded from the wire, their signatures verified and
+ * their fee charged before the instructions run, and each landed
+ * transaction is immediately finalized in a slot of its own. Besides the
+ * vault program, only system transfers and compute budget instructions are
+ * executed; other programs, address lookup tables and durable nonces are
+ * rejected. Compute units are not metered (see
+ * {@link MockVaultRpcConfig.unitsConsumed}) and priority fees are not
+ * charged.
+ */
+export function createMockVaultRpc(
+  config: MockVaultRpcConfig = {},
+): MockVaultRpc {
+  const {
+    getRentExemptMinimum = getDefaultRentExemptMinimum,
+    lamportsPerSignature = DEFAULT_LAMPORTS_PER_SIGNATURE,
+    recentPrioritizationFees = [],
+    unitsConsumed,
+  } = config;
+  let model = new VaultProgramModel(config);
+  let slot = 1n;
+  let airdropCount = 0;
+  // Blockhashes handed out, with the block height after which they expire
+  const blockhashes = new Map<Blockhash, bigint>();
+  const statuses = new Map<Signature, SignatureStatus>();
+
+  const getLatestBlockhash = () => {
+    const blockhash = getBlockhashAtSlot(slot);
+    const lastValidBlockHeight = slot + MAX_PROCESSING_AGE;
+    blockhashes.set(blockhash, lastValidBlockHeight);
+    return { blockhash, lastValidBlockHeight };
+  };
+
+  const executeTransaction = async (
+    wireTransaction: string,
+    options: { sigVerify: boolean; replaceRecentBlockhash: boolean },
+  ): Promise<ExecutedTransaction> => {
+    const transaction = getTransactionDecoder().decode(
+      getBase64Encoder().encode(wireTransaction),
+    );
+    const compiledMessage = getCompiledTransactionMessageDecoder().decode(
+      transaction.messageBytes,
+    );
+    if (
+      compiledMessage.version !== "legacy" &&
+      compiledMessage.addressTableLookups?.length
+    ) {
+      throw new JsonRpcError(
+        -32602,
+        "The mock RPC does not support address lookup tables",
+      );
+    }
+    if (options.sigVerify) {
+      for (const [signer, signatureBytes] of Object.entries(
+        transaction.signatures,
+      )) {
+        const publicKey = await getPublicKeyFromAddress(signer as Address);
+        if (
+          !signatureBytes ||
+          !(await verifySignature(
+            publicKey,
+            signatureBytes,
+            transaction.messageBytes,
+          ))
+        ) {
+          throw new JsonRpcError(
+            -32003,
+            "Transaction signature verification failure",
+          );
+        }
+      }
+    }
+
+    const accountKeys = [...compiledMessage.staticAccounts];
+    const [feePayer] = accountKeys;
+    const signature = getBase58Decoder().decode(
+      transaction.signatures[feePayer] ?? new Uint8Array(64),
+    ) as Signature;
+    const message = decompileTransactionMessage(compiledMessage);
+    const writableAccounts = [
+      ...new Set([
+        feePayer,
+        ...message.instructions.flatMap((instruction) =>
+          ((instruction.accounts ?? []) as readonly AccountMeta[])
+            .filter((account) => isWritableRole(account.role))
+            .map((account) => account.address),
+        ),
+      ]),
+    ];
+    const reject = (err: TransactionError): ExecutedTransaction => ({
+      signature,
+      err,
+      logs: [],
+      accountKeys,
+      writableAccounts,
+      ledger: null,
+    });
+
+    const lastValidBlockHeight = blockhashes.get(
+      compiledMessage.lifetimeToken as Blockhash,
+    );
+    if (
+      !options.replaceRecentBlockhash &&
+      (lastValidBlockHeight === undefined || slot > lastValidBlockHeight)
+    ) {
+      return reject("BlockhashNotFound");
+    }
+    if (statuses.has(signature)) {
+      return reject("AlreadyProcessed");
+    }
+    const fee =
+      lamportsPerSignature * BigInt(compiledMessage.header.numSignerAccounts);
+    const payer = model.getAccount(feePayer);
+    if (!payer) {
+      return reject("AccountNotFound");
+    }
+    if (payer.lamports < fee) {
+      return reject("InsufficientFundsForFee");
+    }
+
+    // The fee is paid even when the instructions fail
+    const ledger = model.clone();
+    ledger.setAccount(feePayer, { ...payer, lamports: payer.lamports - fee });
+    let result: Awaited<ReturnType<VaultProgramModel["executeTransaction"]>>;
+    try {
+      result = await ledger.executeTransaction(message.instructions);
+    } catch (error) {
+      // Programs the model does not know
+      throw new JsonRpcError(
+        -32602,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    return {
+      signature,
+      err: result.err && toTransactionError(result.err, accountKeys),
+      logs: result.logs,
+      accountKeys,
+      writableAccounts: result.err ? [feePayer] : writableAccounts,
+      ledger,
+    };
+  };
+
+  // Subscriptions are served over a single in-memory channel
+  const channelListeners = {
+    error: new Set<ChannelListener>(),
+    message: new Set<ChannelListener>(),
+  };
+  const subscriptions = new Map<number, Subscription>();
+  let subscriptionCount = 0;
+
+  // Delivered on a later task, as if sent over the network
+  const deliver = (message: unknown) => {
+    setTimeout(() =>
+      channelListeners.message.forEach((listener) => listener(message)),
+    );
+  };
+  const publish = (subscriptionId: number, method: string, result: unknown) => {
+    deliver({
+      jsonrpc: "2.0",
+      method: method.replace(/Subscribe$/, "Notification"),
+      params: { result, subscription: subscriptionId },
+    });
+  };
+
+  const channel: RpcSubscriptionsChannel<unknown, unknown> = {
+    on(type, listener, options) {
+      const listeners = channelListeners[type];
+      const subscriber = listener as ChannelListener;
+      const unsubscribe = () => listeners.delete(subscriber);
+      listeners.add(subscriber);
+      options?.signal?.addEventListener("abort", unsubscribe);
+      return unsubscribe;
+    },
+    async send(message) {
+      const { id, method, params = [] } = message as JsonRpcRequest;
+      if (method.endsWith("Unsubscribe")) {
+        deliver({
+          id,
+          jsonrpc: "2.0",
+          result: subscriptions.delete(Number(params[0])),
+        });
+      } else if (
+        [
+          "accountSubscribe",
+          "logsSubscribe",
+          "signatureSubscribe",
+          "slotSubscribe",
+        ].includes(method)
+      ) {
+        subscriptionCount += 1;
+        subscriptions.set(subscriptionCount, { method, params });
+        deliver({ id, jsonrpc: "2.0", result: subscriptionCount });
+      } else {
+        deliver({
+          error: { code: -32601, message: `Method not found: ${method}` },
+          id,
+          jsonrpc: "2.0",
+        });
+      }
+    },
+  };
+
+  /** Commits a transaction in a new slot and notifies subscribers. */
+  const land = (
+    transaction: Extract<ExecutedTransaction, { ledger: VaultProgramModel }>,
+  ) => {
+    slot += 1n;
+    model = transaction.ledger;
+    statuses.set(transaction.signature, { slot, err: transaction.err });
+
+    const context = { slot };
+    for (const [id, { method, params }] of subscriptions) {
+      switch (method) {
+        case "accountSubscribe": {
+          const [address, accountConfig] = params as [Address, AccountConfig];
+          if (transaction.writableAccounts.includes(address)) {
+            // Closed accounts are reported as empty system accounts
+            publish(id, method, {
+              context,
+              value: encodeAccount(
+                model.getAccount(address) ?? {
+                  lamports: 0n,
+                  owner: SYSTEM_PROGRAM_ADDRESS,
+                  space: 0,
+                },
+                accountConfig,
+              ),
+            });
+          }
+          break;
+        }
+        case "logsSubscribe": {
+          const [filter] = params as [string | { mentions: Address[] }];
+          if (
+            typeof filter === "string" ||
+            transaction.accountKeys.includes(filter.mentions[0])
+          ) {
+            publish(id, method, {
+              context,
+              value: {
+                err: transaction.err,
+                logs: transaction.logs,
+                signature: transaction.signature,
+              },
+            });
+          }
+          break;
+        }
+        case "signatureSubscribe":
+          // Signature subscriptions end after their notification
+          if (params[0] === transaction.signature) {
+            publish(id, method, { context, value: { err: transaction.err } });
+            subscriptions.delete(id);
+          }
+          break;
+        case "slotSubscribe":
+          publish(id, method, { parent: slot - 1n, root: slot, slot });
+          break;
+      }
+    }
+  };
+
+  const airdrop = (address: Address, lamports: number | bigint) => {
+    airdropCount += 1;
+    const signatureBytes = new Uint8Array(64).fill(0xa1);
+    new DataView(signatureBytes.buffer).setUint32(0, airdropCount, true);
+    const signature = getBase58Decoder().decode(signatureBytes) as Signature;
+    const ledger = model.clone();
+    const account = ledger.getAccount(address) ?? {
+      lamports: 0n,
+      owner: SYSTEM_PROGRAM_ADDRESS,
+      space: 0,
+    };
+    ledger.setAccount(address, {
+      ...account,
+      lamports: account.lamports + BigInt(lamports),
+    });
+    land({
+      signature,
+      err: null,
+      logs: [],
+      accountKeys: [address],
+      writableAccounts: [address],
+      ledger,
+    });
+    return signature;
+  };
+
+  const handlers: MockRpcHandlers = {
+    async getAccountInfo(address: Address, accountConfig?: AccountConfig) {
+      return encodeAccount(model.getAccount(address), accountConfig);
+    },
+    async getBalance(address: Address) {
+      return model.getBalance(address);
+    },
+    async getBlockHeight() {
+      return slot;
+    },
+    async getEpochInfo() {
+      return {
+        absoluteSlot: slot,
+        blockHeight: slot,
+        epoch: slot / SLOTS_PER_EPOCH,
+        slotIndex: slot % SLOTS_PER_EPOCH,
+        slotsInEpoch: SLOTS_PER_EPOCH,
+        transactionCount: BigInt(statuses.size),
+      };
+    },
+    async getLatestBlockhash() {
+      return getLatestBlockhash();
+    },
+    async getMinimumBalanceForRentExemption(size: number | bigint) {
+      return getRentExemptMinimum(Number(size));
+    },
+    async getMultipleAccounts(
+      addresses: Address[],
+      accountConfig?: AccountConfig,
+    ) {
+      return addresses.map((address) =>
+        encodeAccount(model.getAccount(address), accountConfig),
+      );
+    },
+    async getRecentPrioritizationFees() {
+      return recentPrioritizationFees;
+    },
+    async getSignatureStatuses(signatures: Signature[]) {
+      return signatures.map((signature) => {
+        const status = statuses.get(signature);
+        return status
+          ? {
+              confirmationStatus: "finalized",
+              confirmations: null,
+              err: status.err,
+              slot: status.slot,
+              status: status.err ? { Err: status.err } : { Ok: null },
+            }
+          : null;
+      });
+    },
+    async getSlot() {
+      return slot;
+    },
+    async isBlockhashValid(blockhash: Blockhash) {
+      const lastValidBlockHeight = blockhashes.get(blockhash);
+      return lastValidBlockHeight !== undefined && slot <= lastValidBlockHeight;
+    },
+    async requestAirdrop(address: Address, lamports: number | bigint) {
+      return airdrop(address, lamports);
+    },
+    async sendTransaction(
+      wireTransaction: string,
+      sendConfig?: { encoding?: string; skipPreflight?: boolean },
+    ) {
+      if (sendConfig?.encoding !== "base64") {
+        throw new JsonRpcError(-32602, "The mock RPC only accepts base64");
+      }
+      const transaction = await executeTransaction(wireTransaction, {
+        sigVerify: true,
+        replaceRecentBlockhash: false,
+      });
+      // Transactions that cannot pay their fee never land, even without
+      // preflight
+      if (transaction.ledger === null) {
+        throw getPreflightFailure(transaction.err, transaction.logs);
+      }
+      if (transaction.err && !sendConfig.skipPreflight) {
+        throw getPreflightFailure(transaction.err, transaction.logs);
+      }
+      land(transaction);
+      return transaction.signature;
+    },
+    async simulateTransaction(
+      wireTransaction: string,
+      simulateConfig?: {
+        accounts?: { addresses: Address[]; encoding?: string };
+        encoding?: string;
+        replaceRecentBlockhash?: boolean;
+        sigVerify?: boolean;
+      },
+    ) {
+      if (simulateConfig?.encoding !== "base64") {
+        throw new JsonRpcError(-32602, "The mock RPC only accepts base64");
+      }
+      const replaceRecentBlockhash =
+        simulateConfig.replaceRecentBlockhash ?? false;
+      const { err, ledger, logs } = await executeTransaction(wireTransaction, {
+        sigVerify: simulateConfig.sigVerify ?? false,
+        replaceRecentBlockhash,
+      });
+      const accountsConfig = simulateConfig.accounts;
+      return {
+        accounts:
+          accountsConfig && ledger && !err
+            ? accountsConfig.addresses.map((address) =>
+                encodeAccount(ledger.getAccount(address), {
+                  encoding: accountsConfig.encoding ?? "base64",
+                }),
+              )
+            : null,
+        err,
+        logs,
+        replacementBlockhash: replaceRecentBlockhash
+          ? getLatestBlockhash()
+          : null,
+        returnData: null,
+        unitsConsumed,
+      };
+    },
+  };
+  const isMockRpcMethod = (method: string): method is MockRpcMethod =>
+    Object.prototype.hasOwnProperty.call(handlers, method);
+  // Methods that real nodes wrap in `{ context, value }`
+  const contextualMethods = new Set([
+    "getAccountInfo",
+    "getBalance",
+    "getLatestBlockhash",
+    "getMultipleAccounts",
+    "getSignatureStatuses",
+    "isBlockhashValid",
+    "simulateTransaction",
+  ]);
+
+  const transport: RpcTransport = async <TResponse>({
+    payload,
+  }: Parameters<RpcTransport>[0]): Promise<TResponse> => {
+    const { id, method, params = [] } = payload as JsonRpcRequest;
+    try {
+      if (!isMockRpcMethod(method)) {
+        throw new JsonRpcError(-32601, `Method not found: ${method}`);
+      }
+      // Kit built `params` from the signature of `method` in `SolanaRpcApi`
+      const handler = handlers[method] as (
+        ...params: unknown[]
+      ) => Promise<unknown>;
+      const value = await handler(...params);
+      const result = contextualMethods.has(method)
+        ? { context: { slot }, value }
+        : value;
+      return { id, jsonrpc: "2.0", result } as TResponse;
+    } catch (error) {
+      if (!(error instanceof JsonRpcError)) {
+        throw error;
+      }
+      const { code, message, data } = error;
+      return {
+        error: { code, data, message },
+        id,
+        jsonrpc: "2.0",
+      } as TResponse;
+    }
+  };
+  const subscriptionsTransport: RpcSubscriptionsTransport = ({
+    execute,
+    signal,
+  }) => execute({ channel, signal });
+
+  return {
+    rpc: createRpc({ api: createSolanaRpcApi<SolanaRpcApi>(), transport }),
+    rpcSubscriptions: createSubscriptionRpc({
+      api: createSolanaRpcSubscriptionsApi<SolanaRpcSubscriptionsApi>(),
+      transport: subscriptionsTransport,
+    }),
+    get slot() {
+      return slot;
+    },
+    airdrop,
+    getAccount(address) {
+      return model.getAccount(address);
+    },
+    getBalance(address) {
+      return model.getBalance(address);
+    },
+    setAccount(address, account) {
+      model.setAccount(address, account);
+    },
+  };
+}
@@ -0,0 +1,671 @@
+import {
+  getAddressDecoder,
+  isSignerRole,
+  isWritableRole,
+  type AccountMeta,
+  type Address,
+  type Instruction,
+  type ReadonlyUint8Array,
+} from "@solana/kit";
+import { COMPUTE_BUDGET_PROGRAM_ADDRESS } from "@solana-program/compute-budget";
+import {
+  getTransferSolInstructionDataDecoder,
+  SYSTEM_PROGRAM_ADDRESS,
+  TRANSFER_SOL_DISCRIMINATOR,
+} from "@solana-program/system";
+import {
+  CLOSE_VAULT_DISCRIMINATOR,
+  DELEGATE_WITHDRAW_DISCRIMINATOR,
+  DEPOSIT_DISCRIMINATOR,
+  findVaultPda,
+  PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+  PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+  PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER,
+  PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+  PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  REVOKE_DELEGATE_DISCRIMINATOR,
+  SET_DELEGATE_DISCRIMINATOR,
+  WITHDRAW_AMOUNT_DISCRIMINATOR,
+  WITHDRAW_DISCRIMINATOR,
+} from "./generated";
+import { getDefaultRentExemptMinimum, VAULT_ACCOUNT_SIZE } from "./rent";
+
+export type ModelAccount = {
+  lamports: bigint;
+  /** Program owning the account. */
+  owner: Address;
+  /** Data length in bytes. */
+  space: number;
+  /** Delegate recorded in a vault's data, if any. */
+  delegate?: Address;
+};
+
+/**
+ * Instruction errors the program can fail with, named like the RPC
+ * `InstructionError` variants. Custom codes are the program's `VaultError`
+ * codes, except `{ Custom: 1 }`: the system program's
+ * `ResultWithNegativeLamports`, raised when the owner cannot fund a deposit.
+ */
+export type VaultModelInstructionError =
+  | "InvalidInstructionData"
+  | "NotEnoughAccountKeys"
+  | "InsufficientFunds"
+  | "PrivilegeEscalation"
+  | "MissingRequiredSignature"
+  | "InvalidArgument"
+  | "ExternalAccountLamportSpend"
+  | "IncorrectProgramId"
+  | { Custom: number };
+
+/**
+ * Transaction errors in the shape of the RPC `TransactionError`, except that
+ * rent failures name the account instead of its index in the message.
+ */
+export type VaultModelError =
+  | { InstructionError: [number, VaultModelInstructionError] }
+  | { InsufficientFundsForRent: { account: Address } };
+
+export type VaultModelTransactionResult = {
+  err: VaultModelError | null;
+  /**
+   * Program logs in the runtime's format: invocations, `log!` messages and
+   * results. Compute unit lines are omitted since compute is not metered.
+   */
+  logs: string[];
+};
+
+export type VaultProgramModelConfig = {
+  programAddress?: Address;
+  /**
+   * Rent-exempt minimum of an account with `space` data bytes. Defaults to
+   * the cluster default of 3,480 lamports per byte-year, exempt after two
+   * years.
+   */
+  getRentExemptMinimum?: (space: number) => bigint;
+};
+
+const MAX_LAMPORTS = 2n ** 64n - 1n;
+const SYSTEM_ERROR_RESULT_WITH_NEGATIVE_LAMPORTS = 1;
+
+/** Thrown inside an instruction to abort it, like `?` in the program. */
+class InstructionFailure extends Error {
+  constructor(readonly error: VaultModelInstructionError) {
+    super(JSON.stringify(error));
+  }
+}
+
+/**
+ * Describes an instruction error the way the runtime logs it, e.g.
+ * `custom program error: 0x1773`.
+ */
+export function getVaultModelInstructionErrorMessage(
+  error: VaultModelInstructionError,
+): string {
+  if (typeof error === "object") {
+    return `custom program error: 0x${error.Custom.toString(16)}`;
+  }
+  switch (error) {
+    case "InvalidInstructionData":
+      return "invalid instruction data";
+    case "NotEnoughAccountKeys":
+      return "insufficient account keys for instruction";
+    case "InsufficientFunds":
+      return "insufficient funds for instruction";
+    case "PrivilegeEscalation":
+      return "Cross-program invocation with unauthorized signer or writable account";
+    case "MissingRequiredSignature":
+      return "missing required signature for instruction";
+    case "InvalidArgument":
+      return "invalid program argument";
+    case "ExternalAccountLamportSpend":
+      return "instruction spent from the balance of an account it does not own";
+    case "IncorrectProgramId":
+      return "incorrect program id for instruction";
+  }
+}
+
+/** Mirrors `parse_amount`: exactly 8 little-endian bytes, never zero. */
+function parseAmount(data: ReadonlyUint8Array): bigint {
+  if (data.length !== 8) {
+    throw new InstructionFailure("InvalidInstructionData");
+  }
+  const amount = new DataView(
+    data.buffer,
+    data.byteOffset,
+    data.byteLength,
+  ).getBigUint64(0, true);
+  if (amount === 0n) {
+    throw new InstructionFailure("InvalidInstructionData");
+  }
+  return amount;
+}
+
+/**
+ * Mirrors the `SetDelegate` data check: a 32-byte address that is not all
+ * zeros.
+ */
+function parseDelegate(data: ReadonlyUint8Array): Address {
+  if (data.length !== 32 || data.every((byte) => byte === 0)) {
+    throw new InstructionFailure("InvalidInstructionData");
+  }
+  return getAddressDecoder().decode(data);
+}
+
+/**
+ * Pure TypeScript model of the vault program (`src/instructions.rs`) and
+ * the runtime checks around it, applied to an in-memory account map.
+ *
+ * Meant for differential testing: the same instructions sent to the program
+ * and applied here must leave the same balances and fail with the same
+ * errors. Accounts are assumed writable and deposits are assumed to carry
+ * the system program, as the generated builders do; signer flags are
+ * honored. Besides the vault program, system transfers are executed and
+ * compute budget instructions are accepted as no-ops.
+ */
+export class VaultProgramModel {
+  readonly programAddress: Address;
+
+  private readonly getRentExemptMinimum: (space: number) => bigint;
+  private accounts = new Map<Address, ModelAccount>();
+
+  constructor(config: VaultProgramModelConfig = {}) {
+    this.programAddress =
+      config.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+    this.getRentExemptMinimum =
+      config.getRentExemptMinimum ?? getDefaultRentExemptMinimum;
+  }
+
+  /** Returns the account, or null if it holds no lamports. */
+  getAccount(address: Address): ModelAccount | null {
+    return this.accounts.get(address) ?? null;
+  }
+
+  getBalance(address: Address): bigint {
+    return this.accounts.get(address)?.lamports ?? 0n;
+  }
+
+  /** Returns an independent copy of the model and its accounts. */
+  clone(): VaultProgramModel {
+    const model = new VaultProgramModel({
+      programAddress: this.programAddress,
+      getRentExemptMinimum: this.getRentExemptMinimum,
+    });
+    model.accounts = new Map(this.accounts);
+    return model;
+  }
+
+  /** Seeds or replaces an account, e.g. to mirror an airdrop. */
+  setAccount(address: Address, account: ModelAccount | null): void {
+    if (account && account.lamports > 0n) {
+      this.accounts.set(address, { ...account });
+    } else {
+      this.accounts.delete(address);
+    }
+  }
+
+  /**
+   * Applies `instructions` atomically, like one transaction. Returns the
+   * first error, in which case no account changes; fees are not modeled.
+   */
+  async applyTransaction(
+    instructions: readonly Instruction[],
+  ): Promise<VaultModelError | null> {
+    return (await this.executeTransaction(instructions)).err;
+  }
+
+  /**
+   * Like {@link VaultProgramModel.applyTransaction}, but also returns the
+   * logs the transaction would produce.
+   */
+  async executeTransaction(
+    instructions: readonly Instruction[],
+  ): Promise<VaultModelTransactionResult> {
+    const ledger = new Map(this.accounts);
+    const logs: string[] = [];
+    for (const [index, instruction] of instructions.entries()) {
+      const { programAddress } = instruction;
+      logs.push(`Program ${programAddress} invoke [1]`);
+      try {
+        await this.executeInstruction(ledger, instruction, logs);
+      } catch (error) {
+        if (error instanceof InstructionFailure) {
+          logs.push(
+            `Program ${programAddress} failed: ${getVaultModelInstructionErrorMessage(error.error)}`,
+          );
+          return { err: { InstructionError: [index, error.error] }, logs };
+        }
+        throw error;
+      }
+      logs.push(`Program ${programAddress} success`);
+    }
+
+    const rentError = this.checkRentStates(ledger, instructions);
+    if (rentError) {
+      return { err: rentError, logs };
+    }
+    // Accounts left without lamports are garbage-collected by the runtime
+    this.accounts = new Map(
+      [...ledger].filter(([, account]) => account.lamports > 0n),
+    );
+    return { err: null, logs };
+  }
+
+  private async executeInstruction(
+    ledger: Map<Address, ModelAccount>,
+    instruction: Instruction,
+    logs: string[],
+  ): Promise<void> {
+    const data = instruction.data ?? new Uint8Array();
+    const accounts = (instruction.accounts ?? []) as readonly AccountMeta[];
+    switch (instruction.programAddress) {
+      case this.programAddress:
+        break;
+      case SYSTEM_PROGRAM_ADDRESS:
+        this.executeSystemInstruction(ledger, accounts, data);
+        return;
+      case COMPUTE_BUDGET_PROGRAM_ADDRESS:
+        return;
+      default:
+        throw new Error(
+          `The model cannot execute ${instruction.programAddress} instructions`,
+        );
+    }
+    const requireAccounts = (count = 2) => {
+      if (accounts.length < count) {
+        throw new InstructionFailure("NotEnoughAccountKeys");
+      }
+      return { owner: accounts[0], vault: accounts[1], delegate: accounts[2] };
+    };
+
+    switch (data[0]) {
+      case DEPOSIT_DISCRIMINATOR: {
+        const { owner, vault } = requireAccounts();
+        const amount = parseAmount(data.slice(1));
+        await this.ensureVaultExists(ledger, owner, vault.address, logs);
+        this.invokeSystemProgram(logs, () =>
+          this.systemTransfer(ledger, owner.address, vault.address, amount),
+        );
+        logs.push(`Program log: ${amount} Lamports deposited to vault`);
+        return;
+      }
+      case WITHDRAW_DISCRIMINATOR: {
+        const { owner, vault } = requireAccounts();
+        await this.validateWithdrawAccounts(ledger, owner, vault.address);
+        const current = this.read(ledger, vault.address);
+        const minBalance = this.getRentExemptMinimum(current.space);
+        if (current.lamports <= minBalance) {
+          throw new InstructionFailure({
+            Custom: PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+          });
+        }
+        const withdrawAmount = current.lamports - minBalance;
+        this.transferFromVault(
+          ledger,
+          vault.address,
+          owner.address,
+          withdrawAmount,
+        );
+        logs.push(
+          `Program log: ${withdrawAmount} lamports withdrawn from vault`,
+        );
+        return;
+      }
+      case WITHDRAW_AMOUNT_DISCRIMINATOR: {
+        const { owner, vault } = requireAccounts();
+        const amount = parseAmount(data.slice(1));
+        await this.validateWithdrawAccounts(ledger, owner, vault.address);
+        const current = this.read(ledger, vault.address);
+        const minBalance = this.getRentExemptMinimum(current.space);
+        const available =
+          current.lamports > minBalance ? current.lamports - minBalance : 0n;
+        if (amount > available) {
+          throw new InstructionFailure({
+            Custom: PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+          });
+        }
+        this.transferFromVault(ledger, vault.address, owner.address, amount);
+        logs.push(`Program log: ${amount} lamports withdrawn from vault`);
+        return;
+      }
+      case CLOSE_VAULT_DISCRIMINATOR: {
+        const { owner, vault } = requireAccounts();
+        await this.validateWithdrawAccounts(ledger, owner, vault.address);
+        const { lamports } = this.read(ledger, vault.address);
+        this.transferFromVault(ledger, vault.address, owner.address, lamports);
+        ledger.set(vault.address, {
+          lamports: 0n,
+          owner: SYSTEM_PROGRAM_ADDRESS,
+          space: 0,
+        });
+        logs.push(
+          `Program log: Vault closed, ${lamports} lamports returned to owner`,
+        );
+        return;
+      }
+      case SET_DELEGATE_DISCRIMINATOR: {
+        const { owner, vault } = requireAccounts(4);
+        const delegate = parseDelegate(data.slice(1));
+        if (accounts[3].address !== SYSTEM_PROGRAM_ADDRESS) {
+          throw new InstructionFailure("IncorrectProgramId");
+        }
+        await this.validateWithdrawAccounts(ledger, owner, vault.address);
+        const current = this.read(ledger, vault.address);
+        if (current.space < VAULT_ACCOUNT_SIZE) {
+          // Legacy vaults grow to hold the delegate; the owner pays the rent
+          const topUp =
+            this.getRentExemptMinimum(VAULT_ACCOUNT_SIZE) -
+            this.getRentExemptMinimum(current.space);
+          this.invokeSystemProgram(logs, () =>
+            this.systemTransfer(ledger, owner.address, vault.address, topUp),
+          );
+          ledger.set(vault.address, {
+            ...this.read(ledger, vault.address),
+            space: VAULT_ACCOUNT_SIZE,
+          });
+          logs.push(
+            `Program log: Vault resized to ${VAULT_ACCOUNT_SIZE} bytes`,
+          );
+        }
+        ledger.set(vault.address, {
+          ...this.read(ledger, vault.address),
+          delegate,
+        });
+        logs.push("Program log: Vault delegate set");
+        return;
+      }
+      case REVOKE_DELEGATE_DISCRIMINATOR: {
+        const { owner, vault } = requireAccounts();
+        await this.validateWithdrawAccounts(ledger, owner, vault.address);
+        const { delegate: _, ...current } = this.read(ledger, vault.address);
+        ledger.set(vault.address, current);
+        logs.push("Program log: Vault delegate revoked");
+        return;
+      }
+      case DELEGATE_WITHDRAW_DISCRIMINATOR: {
+        const { owner, vault, delegate } = requireAccounts(3);
+        const amount = parseAmount(data.slice(1));
+        await this.validateDelegateAccounts(ledger, owner, vault, delegate);
+        const current = this.read(ledger, vault.address);
+        const minBalance = this.getRentExemptMinimum(current.space);
+        const available =
+          current.lamports > minBalance ? current.lamports - minBalance : 0n;
+        if (amount > available) {
+          throw new InstructionFailure({
+            Custom: PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS,
+          });
+        }
+        this.transferFromVault(ledger, vault.address, owner.address, amount);
+        logs.push(`Program log: ${amount} lamports withdrawn from vault`);
+        return;
+      }
+      default:
+        throw new InstructionFailure("InvalidInstructionData");
+    }
+  }
+
+  /** Mirrors `ensure_vault_exists`. */
+  private async ensureVaultExists(
+    ledger: Map<Address, ModelAccount>,
+    owner: AccountMeta,
+    vault: Address,
+    logs: string[],
+  ): Promise<void> {
+    if (!isSignerRole(owner.role)) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER,
+      });
+    }
+    const vaultAccount = this.read(ledger, vault);
+    if (vaultAccount.lamports === 0n) {
+      // `CreateAccount` is signed with the owner's vault seeds, so any other
+      // address is an unauthorized signer
+      const [expectedVault] = await findVaultPda(
+        { owner: owner.address },
+        { programAddress: this.programAddress },
+      );
+      if (vault !== expectedVault) {
+        throw new InstructionFailure("PrivilegeEscalation");
+      }
+      const space = VAULT_ACCOUNT_SIZE;
+      this.invokeSystemProgram(logs, () =>
+        this.debit(ledger, owner.address, this.getRentExemptMinimum(space)),
+      );
+      ledger.set(vault, {
+        lamports: this.getRentExemptMinimum(space),
+        owner: this.programAddress,
+        space,
+      });
+      logs.push("Program log: Vault created");
+    } else if (vaultAccount.owner !== this.programAddress) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+      });
+    } else {
+      logs.push("Program log: Vault already exists");
+    }
+  }
+
+  /** Mirrors `validate_withdraw_accounts`. */
+  private async validateWithdrawAccounts(
+    ledger: Map<Address, ModelAccount>,
+    owner: AccountMeta,
+    vault: Address,
+  ): Promise<void> {
+    if (!isSignerRole(owner.role)) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER,
+      });
+    }
+    if (this.read(ledger, vault).owner !== this.programAddress) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+      });
+    }
+    const [expectedVault] = await findVaultPda(
+      { owner: owner.address },
+      { programAddress: this.programAddress },
+    );
+    if (vault !== expectedVault) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+      });
+    }
+  }
+
+  /** Mirrors `validate_delegate_accounts`. */
+  private async validateDelegateAccounts(
+    ledger: Map<Address, ModelAccount>,
+    owner: AccountMeta,
+    vault: AccountMeta,
+    delegate: AccountMeta,
+  ): Promise<void> {
+    if (!isSignerRole(delegate.role)) {
+      throw new InstructionFailure("MissingRequiredSignature");
+    }
+    const vaultAccount = this.read(ledger, vault.address);
+    if (vaultAccount.owner !== this.programAddress) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM,
+      });
+    }
+    const [expectedVault] = await findVaultPda(
+      { owner: owner.address },
+      { programAddress: this.programAddress },
+    );
+    if (vault.address !== expectedVault) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+      });
+    }
+    if (vaultAccount.delegate !== delegate.address) {
+      throw new InstructionFailure({
+        Custom: PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE,
+      });
+    }
+  }
+
+  /**
+   * Top-level system program instruction. Only transfers are supported; the
+   * sender must sign and hold no data.
+   */
+  private executeSystemInstruction(
+    ledger: Map<Address, ModelAccount>,
+    accounts: readonly AccountMeta[],
+    data: ReadonlyUint8Array,
+  ): void {
+    const isTransfer =
+      data.length >= 4 &&
+      new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(
+        0,
+        true,
+      ) === TRANSFER_SOL_DISCRIMINATOR;
+    if (!isTransfer) {
+      throw new Error("The model only executes system transfers");
+    }
+    if (data.length !== 12) {
+      throw new InstructionFailure("InvalidInstructionData");
+    }
+    if (accounts.length < 2) {
+      throw new InstructionFailure("NotEnoughAccountKeys");
+    }
+    const [from, to] = accounts;
+    const { amount } = getTransferSolInstructionDataDecoder().decode(data);
+    if (!isSignerRole(from.role)) {
+      throw new InstructionFailure("MissingRequiredSignature");
+    }
+    const source = this.read(ledger, from.address);
+    if (source.space > 0) {
+      throw new InstructionFailure("InvalidArgument");
+    }
+    this.systemTransfer(ledger, from.address, to.address, amount);
+    // The runtime only rejects the debit once the instruction returns
+    if (source.owner !== SYSTEM_PROGRAM_ADDRESS && amount > 0n) {
+      throw new InstructionFailure("ExternalAccountLamportSpend");
+    }
+  }
+
+  /** Logs a CPI into the system program around `invoke`. */
+  private invokeSystemProgram(logs: string[], invoke: () => void): void {
+    logs.push(`Program ${SYSTEM_PROGRAM_ADDRESS} invoke [2]`);
+    try {
+      invoke();
+    } catch (error) {
+      if (error instanceof InstructionFailure) {
+        logs.push(
+          `Program ${SYSTEM_PROGRAM_ADDRESS} failed: ${getVaultModelInstructionErrorMessage(error.error)}`,
+        );
+      }
+      throw error;
+    }
+    logs.push(`Program ${SYSTEM_PROGRAM_ADDRESS} success`);
+  }
+
+  /**
+   * System program transfer, as invoked by `Deposit::process` and
+   * `SetDelegate::process`.
+   */
+  private systemTransfer(
+    ledger: Map<Address, ModelAccount>,
+    from: Address,
+    to: Address,
+    amount: bigint,
+  ): void {
+    this.debit(ledger, from, amount);
+    const account = this.read(ledger, to);
+    ledger.set(to, { ...account, lamports: account.lamports + amount });
+  }
+
+  /** Mirrors `transfer_from_vault`. */
+  private transferFromVault(
+    ledger: Map<Address, ModelAccount>,
+    vault: Address,
+    owner: Address,
+    amount: bigint,
+  ): void {
+    const vaultAccount = this.read(ledger, vault);
+    if (vaultAccount.lamports < amount) {
+      throw new InstructionFailure("InsufficientFunds");
+    }
+    const ownerAccount = this.read(ledger, owner);
+    if (ownerAccount.lamports + amount > MAX_LAMPORTS) {
+      throw new InstructionFailure("InsufficientFunds");
+    }
+    ledger.set(vault, {
+      ...vaultAccount,
+      lamports: vaultAccount.lamports - amount,
+    });
+    ledger.set(owner, {
+      ...ownerAccount,
+      lamports: ownerAccount.lamports + amount,
+    });
+  }
+
+  /** Debits a system account the way the system program does. */
+  private debit(
+    ledger: Map<Address, ModelAccount>,
+    address: Address,
+    amount: bigint,
+  ): void {
+    const account = this.read(ledger, address);
+    if (account.lamports < amount) {
+      throw new InstructionFailure({
+        Custom: SYSTEM_ERROR_RESULT_WITH_NEGATIVE_LAMPORTS,
+      });
+    }
+    ledger.set(address, { ...account, lamports: account.lamports - amount });
+  }
+
+  /**
+   * Mirrors the runtime's rent state check: a writable account may end the
+   * transaction empty or rent-exempt, or stay rent-paying with the same size
+   * and no more lamports than before.
+   */
+  private checkRentStates(
+    ledger: Map<Address, ModelAccount>,
+    instructions: readonly Instruction[],
+  ): VaultModelError | null {
+    const writableAddresses = new Set(
+      instructions.flatMap((instruction) =>
+        (instruction.accounts ?? [])
+          .filter((account) => isWritableRole(account.role))
+          .map((account) => account.address),
+      ),
+    );
+    for (const address of writableAddresses) {
+      const post = this.read(ledger, address);
+      if (
+        post.lamports === 0n ||
+        post.lamports >= this.getRentExemptMinimum(post.space)
+      ) {
+        continue;
+      }
+      const pre = this.read(this.accounts, address);
+      const wasRentPaying =
+        pre.lamports > 0n &&
+        pre.lamports < this.getRentExemptMinimum(pre.space);
+      if (
+        !wasRentPaying ||
+        pre.space !== post.space ||
+        post.lamports > pre.lamports
+      ) {
+        return { InsufficientFundsForRent: { account: address } };
+      }
+    }
+    return null;
+  }
+
+  /** Missing accounts read as empty system accounts, as on chain. */
+  private read(
+    ledger: ReadonlyMap<Address, ModelAccount>,
+    address: Address,
+  ): ModelAccount {
+    return (
+      ledger.get(address) ?? {
+        lamports: 0n,
+        owner: SYSTEM_PROGRAM_ADDRESS,
+        space: 0,
+      }
+    );
+  }
+}
@@ -0,0 +1,357 @@
+import {
+  fetchNonce,
+  getAdvanceNonceAccountInstruction,
+  getCreateAccountInstruction,
+  getInitializeNonceAccountInstruction,
+  getNonceSize,
+  SYSTEM_PROGRAM_ADDRESS,
+} from "@solana-program/system";
+import {
+  appendTransactionMessageInstructions,
+  assertIsSendableTransaction,
+  assertIsTransactionWithBlockhashLifetime,
+  assertIsTransactionWithDurableNonceLifetime,
+  assertIsTransactionWithinSizeLimit,
+  compileTransaction,
+  createNoopSigner,
+  createTransactionMessage,
+  decompileTransactionMessage,
+  getBase64EncodedWireTransaction,
+  getBase64Encoder,
+  getCompiledTransactionMessageDecoder,
+  getSignatureFromTransaction,
+  getTransactionDecoder,
+  getTransactionLifetimeConstraintFromCompiledTransactionMessage,
+  isTransactionWithDurableNonceLifetime,
+  pipe,
+  sendAndConfirmDurableNonceTransactionFactory,
+  sendAndConfirmTransactionFactory,
+  setTransactionMessageFeePayer,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
+  signTransactionMessageWithSigners,
+  type AccountMeta,
+  type Address,
+  type Base64EncodedWireTransaction,
+  type Commitment,
+  type CompiledTransactionMessage,
+  type CompiledTransactionMessageWithLifetime,
+  type GetAccountInfoApi,
+  type Instruction,
+  type Nonce,
+  type Rpc,
+  type RpcSubscriptions,
+  type Signature,
+  type SolanaRpcApi,
+  type SolanaRpcSubscriptionsApi,
+  type Transaction,
+  type TransactionPartialSigner,
+  type TransactionSigner,
+  type TransactionWithLifetime,
+} from "@solana/kit";
+import {
+  findVaultPda,
+  getDepositInstructionAsync,
+  getWithdrawAmountInstructionAsync,
+  getWithdrawInstructionAsync,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  type ParsedPinocchioDemoInstruction,
+} from "./generated";
+import { parsePinocchioDemoInstruction } from "./parsers";
+
+export type DurableNonceRpcConfig = {
+  rpc: Rpc<SolanaRpcApi>;
+  rpcSubscriptions: RpcSubscriptions<SolanaRpcSubscriptionsApi>;
+  /** Defaults to `confirmed`. */
+  commitment?: Commitment;
+};
+
+export type DurableNonceVaultTransactionInput = {
+  owner: Address | TransactionSigner;
+  nonceAccount: Address;
+  /** Must sign the transaction too; usually the owner. */
+  nonceAuthority: Address | TransactionSigner;
+  /** Defaults to the owner. */
+  feePayer?: Address | TransactionSigner;
+} & (
+  | { kind: "deposit"; amount: number | bigint }
+  /** Withdraws everything above the rent-exempt minimum when omitted. */
+  | { kind: "withdraw"; amount?: number | bigint }
+);
+
+/** What an offline signer should review before signing. */
+export type SerializedTransactionDetails = {
+  feePayer: Address;
+  nonce: Nonce;
+  nonceAccount: Address;
+  /** Pinocchio-demo instructions of the transaction, in order. */
+  instructions: ParsedPinocchioDemoInstruction<string>[];
+  /** Addresses that still have to sign. */
+  missingSigners: Address[];
+};
+
+function toAddress(account: Address | TransactionSigner): Address {
+  return typeof account === "string" ? account : account.address;
+}
+
+/**
+ * Decodes a base64 wire transaction and restores the lifetime constraint
+ * encoded in its message, which the wire format does not carry separately.
+ */
+async function decodeSerializedTransaction(
+  serialized: string,
+): Promise<Transaction & TransactionWithLifetime> {
+  const transaction = getTransactionDecoder().decode(
+    getBase64Encoder().encode(serialized),
+  );
+  const compiledMessage = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes,
+  ) as CompiledTransactionMessage & CompiledTransactionMessageWithLifetime;
+  return {
+    ...transaction,
+    lifetimeConstraint:
+      await getTransactionLifetimeConstraintFromCompiledTransactionMessage(
+        compiledMessage,
+      ),
+  };
+}
+
+async function sendInstructions(
+  config: DurableNonceRpcConfig,
+  feePayer: TransactionSigner,
+  instructions: Instruction[],
+): Promise<Signature> {
+  const { rpc, rpcSubscriptions, commitment = "confirmed" } = config;
+  const { value: latestBlockhash } = await rpc
+    .getLatestBlockhash({ commitment })
+    .send();
+  const transactionMessage = pipe(
+    createTransactionMessage({ version: 0 }),
+    (tx) => setTransactionMessageFeePayerSigner(feePayer, tx),
+    (tx) => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+    (tx) => appendTransactionMessageInstructions(instructions, tx),
+  );
+  const signedTransaction =
+    await signTransactionMessageWithSigners(transactionMessage);
+  assertIsTransactionWithBlockhashLifetime(signedTransaction);
+  await sendAndConfirmTransactionFactory({ rpc, rpcSubscriptions })(
+    signedTransaction,
+    { commitment },
+  );
+  return getSignatureFromTransaction(signedTransaction);
+}
+
+/**
+ * Creates and initializes a rent-exempt nonce account controlled by
+ * `authority`. `nonceAccount` is a fresh keypair that only signs this once.
+ */
+export async function createNonceAccount(
+  config: DurableNonceRpcConfig,
+  input: {
+    payer: TransactionSigner;
+    nonceAccount: TransactionSigner;
+    authority: Address;
+  },
+): Promise<Signature> {
+  const { rpc, commitment = "confirmed" } = config;
+  const space = BigInt(getNonceSize());
+  const rent = await rpc
+    .getMinimumBalanceForRentExemption(space, { commitment })
+    .send();
+  return await sendInstructions(config, input.payer, [
+    getCreateAccountInstruction({
+      payer: input.payer,
+      newAccount: input.nonceAccount,
+      lamports: rent,
+      space,
+      programAddress: SYSTEM_PROGRAM_ADDRESS,
+    }),
+    getInitializeNonceAccountInstruction({
+      nonceAccount: input.nonceAccount.address,
+      nonceAuthority: input.authority,
+    }),
+  ]);
+}
+
+/**
+ * Advances a nonce account, invalidating every transaction signed against
+ * its current value. Use it to revoke an offline-signed transaction that
+ * should no longer be broadcast.
+ */
+export async function advanceNonceAccount(
+  config: DurableNonceRpcConfig,
+  input: {
+    nonceAccount: Address;
+    nonceAuthority: TransactionSigner;
+    /** Defaults to the nonce authority. */
+    payer?: TransactionSigner;
+  },
+): Promise<Signature> {
+  return await sendInstructions(config, input.payer ?? input.nonceAuthority, [
+    getAdvanceNonceAccountInstruction({
+      nonceAccount: input.nonceAccount,
+      nonceAuthority: input.nonceAuthority,
+    }),
+  ]);
+}
+
+/** Returns the current value and authority of a nonce account. */
+export async function fetchNonceValue(
+  rpc: Rpc<GetAccountInfoApi>,
+  nonceAccount: Address,
+  config: { commitment?: Commitment } = {},
+): Promise<{ nonce: Nonce; authority: Address }> {
+  const { data } = await fetchNonce(rpc, nonceAccount, {
+    commitment: config.commitment ?? "confirmed",
+  });
+  return {
+    nonce: data.blockhash as string as Nonce,
+    authority: data.authority,
+  };
+}
+
+/**
+ * Builds an unsigned deposit or withdraw transaction whose lifetime is the
+ * current value of a durable nonce, and serializes it to base64 so it can be
+ * carried to an offline machine and signed there.
+ */
+export async function buildDurableNonceVaultTransaction(
+  rpc: Rpc<GetAccountInfoApi>,
+  input: DurableNonceVaultTransactionInput,
+  config: { commitment?: Commitment; programAddress?: Address } = {},
+): Promise<Base64EncodedWireTransaction> {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  // Signatures are added offline, so the builders only need the addresses.
+  const owner = createNoopSigner(toAddress(input.owner));
+  const [vault] = await findVaultPda(
+    { owner: owner.address },
+    { programAddress },
+  );
+  let instruction: Instruction;
+  if (input.kind === "deposit") {
+    instruction = await getDepositInstructionAsync(
+      { owner, vault, amount: input.amount },
+      { programAddress },
+    );
+  } else if (input.amount === undefined) {
+    instruction = await getWithdrawInstructionAsync(
+      { owner, vault },
+      { programAddress },
+    );
+  } else {
+    instruction = await getWithdrawAmountInstructionAsync(
+      { owner, vault, amount: input.amount },
+      { programAddress },
+    );
+  }
+
+  const { nonce } = await fetchNonceValue(rpc, input.nonceAccount, config);
+  const transactionMessage = pipe(
+    createTransactionMessage({ version: 0 }),
+    (tx) =>
+      setTransactionMessageFeePayer(toAddress(input.feePayer ?? owner), tx),
+    (tx) =>
+      setTransactionMessageLifetimeUsingDurableNonce(
+        {
+          nonce,
+          nonceAccountAddress: input.nonceAccount,
+          nonceAuthorityAddress: toAddress(input.nonceAuthority),
+        },
+        tx,
+      ),
+    (tx) => appendTransactionMessageInstructions([instruction], tx),
+  );
+  return getBase64EncodedWireTransaction(
+    compileTransaction(transactionMessage),
+  );
+}
+
+/**
+ * Decodes a serialized durable nonce transaction for review. Works offline.
+ *
+ * Throws if the transaction does not use a durable nonce lifetime.
+ */
+export async function describeSerializedTransaction(
+  serialized: string,
+  config: { programAddress?: Address } = {},
+): Promise<SerializedTransactionDetails> {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  const transaction = await decodeSerializedTransaction(serialized);
+  if (!isTransactionWithDurableNonceLifetime(transaction)) {
+    throw new Error("Transaction does not use a durable nonce lifetime.");
+  }
+  const compiledMessage = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes,
+  );
+  const message = decompileTransactionMessage(compiledMessage);
+  return {
+    feePayer: compiledMessage.staticAccounts[0],
+    nonce: transaction.lifetimeConstraint.nonce,
+    nonceAccount: transaction.lifetimeConstraint.nonceAccountAddress,
+    instructions: message.instructions
+      .filter((instruction) => instruction.programAddress === programAddress)
+      .map((instruction) =>
+        parsePinocchioDemoInstruction({
+          programAddress: instruction.programAddress,
+          accounts: (instruction.accounts ?? []) as readonly AccountMeta[],
+          data: instruction.data ?? new Uint8Array(),
+        }),
+      ),
+    missingSigners: (Object.keys(transaction.signatures) as Address[]).filter(
+      (address) => !transaction.signatures[address],
+    ),
+  };
+}
+
+/**
+ * Adds the signatures of `signers` to a serialized transaction and returns
+ * it serialized again. Meant for the offline machine; it makes no network
+ * calls. Several parties may sign in turn.
+ *
+ * Throws if a signer is not one of the transaction's required signers.
+ */
+export async function signSerializedTransaction(
+  serialized: string,
+  signers: readonly TransactionPartialSigner[],
+): Promise<Base64EncodedWireTransaction> {
+  const transaction = await decodeSerializedTransaction(serialized);
+  assertIsTransactionWithinSizeLimit(transaction);
+  for (const signer of signers) {
+    if (!(signer.address in transaction.signatures)) {
+      throw new Error(
+        `${signer.address} is not a required signer of this transaction.`,
+      );
+    }
+  }
+  const signatureDictionaries = await Promise.all(
+    signers.map(
+      async (signer) => (await signer.signTransactions([transaction]))[0],
+    ),
+  );
+  return getBase64EncodedWireTransaction({
+    ...transaction,
+    signatures: Object.freeze(
+      Object.assign({}, transaction.signatures, ...signatureDictionaries),
+    ),
+  });
+}
+
+/**
+ * Broadcasts a fully signed durable nonce transaction and waits for it to be
+ * confirmed. Fails if the nonce was advanced after the transaction was built.
+ */
+export async function sendSerializedTransaction(
+  config: DurableNonceRpcConfig,
+  serialized: string,
+): Promise<Signature> {
+  const { rpc, rpcSubscriptions, commitment = "confirmed" } = config;
+  const transaction = await decodeSerializedTransaction(serialized);
+  assertIsTransactionWithDurableNonceLifetime(transaction);
+  assertIsSendableTransaction(transaction);
+  await sendAndConfirmDurableNonceTransactionFactory({ rpc, rpcSubscriptions })(
+    transaction,
+    { commitment },
+  );
+  return getSignatureFromTransaction(transaction);
+}
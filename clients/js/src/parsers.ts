@@ -0,0 +1,165 @@
+import {
+  decompileTransactionMessage,
+  type AccountMeta,
+  type CompiledTransactionMessage,
+  type CompiledTransactionMessageWithLifetime,
+  type DecompileTransactionMessageConfig,
+  type Instruction,
+  type InstructionWithAccounts,
+  type InstructionWithData,
+  type ReadonlyUint8Array,
+} from "@solana/kit";
+import {
+  CLOSE_VAULT_DISCRIMINATOR,
+  DELEGATE_WITHDRAW_DISCRIMINATOR,
+  DEPOSIT_DISCRIMINATOR,
+  identifyPinocchioDemoInstruction,
+  parseCloseVaultInstruction,
+  parseDelegateWithdrawInstruction,
+  parseDepositInstruction,
+  parseRevokeDelegateInstruction,
+  parseSetDelegateInstruction,
+  parseWithdrawAmountInstruction,
+  parseWithdrawInstruction,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  PinocchioDemoInstruction,
+  REVOKE_DELEGATE_DISCRIMINATOR,
+  SET_DELEGATE_DISCRIMINATOR,
+  WITHDRAW_AMOUNT_DISCRIMINATOR,
+  WITHDRAW_DISCRIMINATOR,
+  type ParsedPinocchioDemoInstruction,
+} from "./generated";
+
+/**
+ * Errors the program raises while decoding an instruction, before it looks
+ * at any account. Named like the RPC `InstructionError` variants.
+ */
+export type PinocchioDemoDecodeError =
+  | "InvalidInstructionData"
+  | "NotEnoughAccountKeys";
+
+/**
+ * Applies the program's own decoding rules to an instruction and returns
+ * the error it would fail with, or `null` if decoding would succeed.
+ *
+ * Stricter than the generated parsers, which ignore trailing bytes and
+ * accept a zero amount: like `parse_amount`, the amount of a deposit or
+ * withdrawal must be exactly 8 little-endian bytes and non-zero, and a
+ * delegate must be exactly 32 bytes and not the all-zero address. Only the
+ * owner and vault accounts are required, plus the delegate of a
+ * `DelegateWithdraw` and the system program (fourth account) of a
+ * `SetDelegate`.
+ */
+export function getPinocchioDemoDecodeError(
+  instruction: InstructionWithAccounts<readonly AccountMeta[]> &
+    InstructionWithData<ReadonlyUint8Array>,
+): PinocchioDemoDecodeError | null {
+  const [discriminator, ...payload] = instruction.data;
+  switch (discriminator) {
+    case DEPOSIT_DISCRIMINATOR:
+    case WITHDRAW_AMOUNT_DISCRIMINATOR: {
+      if (instruction.accounts.length < 2) {
+        return "NotEnoughAccountKeys";
+      }
+      const isValidAmount =
+        payload.length === 8 && payload.some((byte) => byte !== 0);
+      return isValidAmount ? null : "InvalidInstructionData";
+    }
+    case DELEGATE_WITHDRAW_DISCRIMINATOR: {
+      if (instruction.accounts.length < 3) {
+        return "NotEnoughAccountKeys";
+      }
+      const isValidAmount =
+        payload.length === 8 && payload.some((byte) => byte !== 0);
+      return isValidAmount ? null : "InvalidInstructionData";
+    }
+    case SET_DELEGATE_DISCRIMINATOR: {
+      if (instruction.accounts.length < 4) {
+        return "NotEnoughAccountKeys";
+      }
+      const isValidDelegate =
+        payload.length === 32 && payload.some((byte) => byte !== 0);
+      return isValidDelegate ? null : "InvalidInstructionData";
+    }
+    case WITHDRAW_DISCRIMINATOR:
+    case CLOSE_VAULT_DISCRIMINATOR:
+    case REVOKE_DELEGATE_DISCRIMINATOR:
+      return instruction.accounts.length < 2 ? "NotEnoughAccountKeys" : null;
+    default:
+      return "InvalidInstructionData";
+  }
+}
+
+/**
+ * Identifies and fully parses a pinocchio-demo instruction.
+ *
+ * Throws if the instruction data does not match any known discriminator
+ * or if the instruction does not carry enough accounts.
+ */
+export function parsePinocchioDemoInstruction<TProgram extends string>(
+  instruction: Instruction<TProgram> &
+    InstructionWithAccounts<readonly AccountMeta[]> &
+    InstructionWithData<ReadonlyUint8Array>,
+): ParsedPinocchioDemoInstruction<TProgram> {
+  const instructionType = identifyPinocchioDemoInstruction(instruction);
+  switch (instructionType) {
+    case PinocchioDemoInstruction.Deposit:
+      return { instructionType, ...parseDepositInstruction(instruction) };
+    case PinocchioDemoInstruction.Withdraw:
+      return { instructionType, ...parseWithdrawInstruction(instruction) };
+    case PinocchioDemoInstruction.WithdrawAmount:
+      return {
+        instructionType,
+        ...parseWithdrawAmountInstruction(instruction),
+      };
+    case PinocchioDemoInstruction.CloseVault:
+      return { instructionType, ...parseCloseVaultInstruction(instruction) };
+    case PinocchioDemoInstruction.SetDelegate:
+      return { instructionType, ...parseSetDelegateInstruction(instruction) };
+    case PinocchioDemoInstruction.RevokeDelegate:
+      return {
+        instructionType,
+        ...parseRevokeDelegateInstruction(instruction),
+      };
+    case PinocchioDemoInstruction.DelegateWithdraw:
+      return {
+        instructionType,
+        ...parseDelegateWithdrawInstruction(instruction),
+      };
+    default:
+      throw new Error(
+        `Unrecognized instruction type: ${instructionType as string}`,
+      );
+  }
+}
+
+/**
+ * Parses every pinocchio-demo instruction contained in a compiled
+ * transaction message, in order of appearance.
+ *
+ * Instructions addressed to other programs are skipped. Messages that load
+ * accounts from address lookup tables must provide
+ * `addressesByLookupTableAddress`.
+ */
+export function parsePinocchioDemoTransaction(
+  compiledMessage: CompiledTransactionMessage &
+    CompiledTransactionMessageWithLifetime,
+  config: DecompileTransactionMessageConfig & {
+    programAddress?: string;
+  } = {},
+): ParsedPinocchioDemoInstruction<string>[] {
+  const {
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    ...decompileConfig
+  } = config;
+  const message = decompileTransactionMessage(compiledMessage, decompileConfig);
+  return message.instructions
+    .filter((instruction) => instruction.programAddress === programAddress)
+    .map((instruction) =>
+      parsePinocchioDemoInstruction({
+        programAddress: instruction.programAddress,
+        accounts: (instruction.accounts ?? []) as readonly AccountMeta[],
+        data: instruction.data ?? new Uint8Array(),
+      }),
+    );
+}
@@ -0,0 +1,102 @@
+import {
+  type Address,
+  type Commitment,
+  type GetMinimumBalanceForRentExemptionApi,
+  type MaybeAccount,
+  type Rpc,
+} from "@solana/kit";
+import { getVaultSize, PINOCCHIO_DEMO_PROGRAM_ADDRESS } from "./generated";
+
+/** Data length of a vault account, `Vault::LEN` in src/state.rs. */
+export const VAULT_ACCOUNT_SIZE = getVaultSize();
+
+const ACCOUNT_STORAGE_OVERHEAD = 128n;
+const DEFAULT_LAMPORTS_PER_BYTE_YEAR = 3_480n;
+const DEFAULT_EXEMPTION_THRESHOLD_YEARS = 2n;
+
+/**
+ * Rent-exempt minimum of an account with `space` data bytes under the
+ * default rent parameters every public cluster uses: 3,480 lamports per
+ * byte-year, exempt after two years.
+ */
+export function getDefaultRentExemptMinimum(space: number | bigint): bigint {
+  return (
+    (ACCOUNT_STORAGE_OVERHEAD + BigInt(space)) *
+    DEFAULT_LAMPORTS_PER_BYTE_YEAR *
+    DEFAULT_EXEMPTION_THRESHOLD_YEARS
+  );
+}
+
+/**
+ * Fetches the rent-exempt minimum of a vault account from the cluster: what
+ * the first deposit pays to create the vault and what withdrawals leave in
+ * it.
+ */
+export async function getVaultRentExemptMinimum(
+  rpc: Rpc<GetMinimumBalanceForRentExemptionApi>,
+  config: { commitment?: Commitment } = {},
+): Promise<bigint> {
+  return await rpc
+    .getMinimumBalanceForRentExemption(BigInt(VAULT_ACCOUNT_SIZE), config)
+    .send();
+}
+
+export type VaultRentConfig = {
+  /**
+   * Rent-exempt minimum of a current-size vault, e.g. from
+   * {@link getVaultRentExemptMinimum}. Defaults to the minimum under the
+   * default rent parameters.
+   */
+  rentExemptMinimum?: bigint;
+};
+
+/**
+ * Rent-exempt minimum of a vault holding `space` data bytes. Rent is
+ * charged per stored byte, overhead included, so the minimum of legacy
+ * 16-byte vaults follows from the current-size one.
+ */
+function getRentExemptMinimumForSpace(
+  space: number | bigint,
+  config: VaultRentConfig,
+): bigint {
+  if (config.rentExemptMinimum === undefined) {
+    return getDefaultRentExemptMinimum(space);
+  }
+  return (
+    (config.rentExemptMinimum * (ACCOUNT_STORAGE_OVERHEAD + BigInt(space))) /
+    (ACCOUNT_STORAGE_OVERHEAD + BigInt(VAULT_ACCOUNT_SIZE))
+  );
+}
+
+/**
+ * Returns what `Withdraw` would pay out of `vault`: its lamports above the
+ * rent-exempt minimum for its data length. This is also the largest amount
+ * `WithdrawAmount` accepts. Vaults that do not exist or are not owned by
+ * the program hold nothing withdrawable.
+ */
+export function getWithdrawableLamports(
+  vault: MaybeAccount<Uint8Array | object>,
+  config: VaultRentConfig & { programAddress?: Address } = {},
+): bigint {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  if (!vault.exists || vault.programAddress !== programAddress) {
+    return 0n;
+  }
+  const minBalance = getRentExemptMinimumForSpace(vault.space, config);
+  return vault.lamports > minBalance ? vault.lamports - minBalance : 0n;
+}
+
+/**
+ * Returns the lamports the owner spends on the deposit that creates the
+ * vault: the amount plus the vault's rent-exempt minimum, which `CloseVault`
+ * returns. Deposits always create current-size vaults. Transaction fees
+ * are not included.
+ */
+export function getFirstDepositCost(
+  amount: number | bigint,
+  config: VaultRentConfig = {},
+): bigint {
+  return (
+    BigInt(amount) + getRentExemptMinimumForSpace(VAULT_ACCOUNT_SIZE, config)
+  );
+}
@@ -0,0 +1,245 @@
+import {
+  appendTransactionMessageInstructions,
+  compileTransaction,
+  createNoopSigner,
+  createTransactionMessage,
+  getBase64EncodedWireTransaction,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  type Address,
+  type Blockhash,
+  type Commitment,
+  type GetMinimumBalanceForRentExemptionApi,
+  type GetMultipleAccountsApi,
+  type Instruction,
+  type Rpc,
+  type SimulateTransactionApi,
+  type TransactionError,
+  type TransactionSigner,
+} from "@solana/kit";
+import {
+  decodePinocchioDemoError,
+  type DecodedPinocchioDemoError,
+} from "./errors";
+import { parsePinocchioDemoEvents, type PinocchioDemoEvent } from "./events";
+import {
+  findVaultPda,
+  getDepositInstructionAsync,
+  getWithdrawAmountInstructionAsync,
+  getWithdrawInstructionAsync,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+} from "./generated";
+import { getVaultRentExemptMinimum } from "./rent";
+
+export type SimulationRpc = Rpc<
+  GetMinimumBalanceForRentExemptionApi &
+    GetMultipleAccountsApi &
+    SimulateTransactionApi
+>;
+
+export type LamportChange = {
+  address: Address;
+  before: bigint;
+  after: bigint;
+  /** `after - before`; negative when the account lost lamports. */
+  delta: bigint;
+};
+
+export type SimulatedInstructions = {
+  err: TransactionError | null;
+  unitsConsumed: bigint | null;
+  logs: readonly string[];
+  /** Lamport changes of the requested accounts, in the requested order. */
+  changes: LamportChange[];
+};
+
+export type VaultSimulation = {
+  /** Whether the transaction would succeed. */
+  success: boolean;
+  err: TransactionError | null;
+  /** The vault program error behind `err`, if the program raised one. */
+  programError: DecodedPinocchioDemoError | null;
+  unitsConsumed: bigint | null;
+  owner: LamportChange;
+  vault: LamportChange;
+  /** Whether the deposit would create the vault account. */
+  vaultCreated: boolean;
+  /** Rent-exempt minimum paid to create the vault, or zero. */
+  vaultCreationRent: bigint;
+  events: PinocchioDemoEvent[];
+  logs: readonly string[];
+};
+
+export type VaultSimulationConfig = {
+  commitment?: Commitment;
+  programAddress?: Address;
+};
+
+// Simulations run with `replaceRecentBlockhash`, so any blockhash will do.
+const PLACEHOLDER_LIFETIME = {
+  blockhash: "11111111111111111111111111111111" as Blockhash,
+  lastValidBlockHeight: 0n,
+};
+
+function toSigner(owner: Address | TransactionSigner): TransactionSigner {
+  return typeof owner === "string" ? createNoopSigner(owner) : owner;
+}
+
+/**
+ * Simulates `instructions` paid by `feePayer` without verifying signatures
+ * and returns the lamport changes of `addresses` along with the outcome.
+ */
+export async function simulateInstructions(
+  rpc: Rpc<GetMultipleAccountsApi & SimulateTransactionApi>,
+  input: {
+    feePayer: TransactionSigner;
+    instructions: readonly Instruction[];
+    addresses: Address[];
+  },
+  config: { commitment?: Commitment } = {},
+): Promise<SimulatedInstructions> {
+  const { commitment = "confirmed" } = config;
+  const message = pipe(
+    createTransactionMessage({ version: 0 }),
+    (tx) => setTransactionMessageFeePayerSigner(input.feePayer, tx),
+    (tx) =>
+      setTransactionMessageLifetimeUsingBlockhash(PLACEHOLDER_LIFETIME, tx),
+    (tx) => appendTransactionMessageInstructions(input.instructions, tx),
+  );
+  const wireTransaction = getBase64EncodedWireTransaction(
+    compileTransaction(message),
+  );
+
+  const [{ value: before }, { value: simulation }] = await Promise.all([
+    input.addresses.length === 0
+      ? { value: [] }
+      : rpc
+          .getMultipleAccounts(input.addresses, {
+            commitment,
+            encoding: "base64",
+          })
+          .send(),
+    rpc
+      .simulateTransaction(wireTransaction, {
+        accounts: { addresses: input.addresses, encoding: "base64" },
+        commitment,
+        encoding: "base64",
+        replaceRecentBlockhash: true,
+        sigVerify: false,
+      })
+      .send(),
+  ]);
+
+  return {
+    err: simulation.err,
+    unitsConsumed: simulation.unitsConsumed ?? null,
+    logs: simulation.logs ?? [],
+    changes: input.addresses.map((address, index) => {
+      const lamportsBefore = before[index]?.lamports ?? 0n;
+      // A failed simulation leaves every account untouched.
+      const lamportsAfter = simulation.err
+        ? lamportsBefore
+        : (simulation.accounts[index]?.lamports ?? 0n);
+      return {
+        address,
+        before: lamportsBefore,
+        after: lamportsAfter,
+        delta: lamportsAfter - lamportsBefore,
+      };
+    }),
+  };
+}
+
+async function simulateVaultInstruction(
+  rpc: SimulationRpc,
+  owner: TransactionSigner,
+  vault: Address,
+  instruction: Instruction,
+  config: VaultSimulationConfig,
+): Promise<VaultSimulation> {
+  const { commitment, programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } =
+    config;
+  const simulation = await simulateInstructions(
+    rpc,
+    {
+      feePayer: owner,
+      instructions: [instruction],
+      addresses: [owner.address, vault],
+    },
+    { commitment },
+  );
+  const events = simulation.err
+    ? []
+    : parsePinocchioDemoEvents(simulation.logs, { programAddress });
+  const vaultCreated = events.some((event) => event.kind === "VaultCreated");
+  const vaultCreationRent = vaultCreated
+    ? await getVaultRentExemptMinimum(rpc, { commitment })
+    : 0n;
+
+  return {
+    success: simulation.err === null,
+    err: simulation.err,
+    programError: decodePinocchioDemoError(
+      simulation.err,
+      { instructions: [instruction] },
+      { programAddress },
+    ),
+    unitsConsumed: simulation.unitsConsumed,
+    owner: simulation.changes[0],
+    vault: simulation.changes[1],
+    vaultCreated,
+    vaultCreationRent,
+    events,
+    logs: simulation.logs,
+  };
+}
+
+/**
+ * Previews a deposit: lamport deltas of the owner and vault, whether the
+ * vault gets created and at what rent, compute units and any program error.
+ *
+ * The owner may be given as a bare address since signatures are not checked.
+ */
+export async function simulateDeposit(
+  rpc: SimulationRpc,
+  input: { owner: Address | TransactionSigner; amount: number | bigint },
+  config: VaultSimulationConfig = {},
+): Promise<VaultSimulation> {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  const owner = toSigner(input.owner);
+  const [vault] = await findVaultPda(
+    { owner: owner.address },
+    { programAddress },
+  );
+  const instruction = await getDepositInstructionAsync(
+    { owner, vault, amount: input.amount },
+    { programAddress },
+  );
+  return await simulateVaultInstruction(rpc, owner, vault, instruction, config);
+}
+
+/**
+ * Previews a withdrawal of `amount` lamports, or of everything above the
+ * rent-exempt minimum when `amount` is omitted.
+ */
+export async function simulateWithdraw(
+  rpc: SimulationRpc,
+  input: { owner: Address | TransactionSigner; amount?: number | bigint },
+  config: VaultSimulationConfig = {},
+): Promise<VaultSimulation> {
+  const { programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS } = config;
+  const owner = toSigner(input.owner);
+  const [vault] = await findVaultPda(
+    { owner: owner.address },
+    { programAddress },
+  );
+  const instruction =
+    input.amount === undefined
+      ? await getWithdrawInstructionAsync({ owner, vault }, { programAddress })
+      : await getWithdrawAmountInstructionAsync(
+          { owner, vault, amount: input.amount },
+          { programAddress },
+        );
+  return await simulateVaultInstruction(rpc, owner, vault, instruction, config);
+}
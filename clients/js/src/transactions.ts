@@ -0,0 +1,217 @@
+import {
+  decompileTransactionMessage,
+  getBase64Encoder,
+  getCompiledTransactionMessageDecoder,
+  getTransactionDecoder,
+  type AccountMeta,
+  type Address,
+  type AddressesByLookupTableAddress,
+  type Commitment,
+  type CompiledTransactionMessage,
+  type GetTransactionApi,
+  type ReadonlyUint8Array,
+  type Rpc,
+  type Signature,
+  type Slot,
+  type TransactionError,
+  type UnixTimestamp,
+} from "@solana/kit";
+import {
+  decodePinocchioDemoError,
+  type DecodedPinocchioDemoError,
+} from "./errors";
+import { parsePinocchioDemoEvents, type PinocchioDemoEvent } from "./events";
+import {
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  type ParsedPinocchioDemoInstruction,
+} from "./generated";
+import {
+  getPinocchioDemoDecodeError,
+  parsePinocchioDemoInstruction,
+  type PinocchioDemoDecodeError,
+} from "./parsers";
+
+export type DecodedPinocchioDemoInstruction = {
+  /** Index of the instruction among the transaction's top-level instructions. */
+  index: number;
+  instruction: ParsedPinocchioDemoInstruction<string>;
+  /** Events logged while this instruction was executing. */
+  events: PinocchioDemoEvent[];
+};
+
+/**
+ * A top-level pinocchio-demo instruction the generated parsers reject.
+ *
+ * The program only requires the owner and vault accounts (plus the
+ * delegate of a `DelegateWithdraw`), while the generated parsers also
+ * expect the program and system program accounts, so a successful
+ * instruction may land here. Instructions of failed transactions may also
+ * carry data the program never accepted.
+ */
+export type UndecodedPinocchioDemoInstruction = {
+  /** Index of the instruction among the transaction's top-level instructions. */
+  index: number;
+  accounts: readonly AccountMeta[];
+  data: ReadonlyUint8Array;
+  /**
+   * The error the program would raise while decoding the instruction, or
+   * `null` if the program accepts it.
+   */
+  decodeError: PinocchioDemoDecodeError | null;
+  /** Events logged while this instruction was executing. */
+  events: PinocchioDemoEvent[];
+};
+
+export type PinocchioDemoTransaction = {
+  signature: Signature;
+  slot: Slot;
+  blockTime: UnixTimestamp | null;
+  err: TransactionError | null;
+  /** The vault program error behind `err`, if the program raised one. */
+  programError: DecodedPinocchioDemoError | null;
+  fee: bigint;
+  computeUnitsConsumed: bigint | null;
+  /** Static account keys followed by addresses loaded from lookup tables. */
+  accountKeys: Address[];
+  preBalances: bigint[];
+  postBalances: bigint[];
+  logMessages: readonly string[];
+  /** Top-level pinocchio-demo instructions, in order of appearance. */
+  instructions: DecodedPinocchioDemoInstruction[];
+  /** Top-level pinocchio-demo instructions the parsers could not decode. */
+  undecodedInstructions: UndecodedPinocchioDemoInstruction[];
+};
+
+type LoadedAddresses = Readonly<{
+  readonly: readonly Address[];
+  writable: readonly Address[];
+}>;
+
+/**
+ * Rebuilds the lookup table contents a compiled message refers to from the
+ * `loadedAddresses` returned alongside a fetched transaction.
+ */
+function getAddressesByLookupTableAddress(
+  compiledMessage: CompiledTransactionMessage,
+  loadedAddresses: LoadedAddresses | undefined,
+): AddressesByLookupTableAddress {
+  const result: Record<Address, Address[]> = {};
+  if (compiledMessage.version === "legacy" || !loadedAddresses) {
+    return result;
+  }
+  let writableIndex = 0;
+  let readonlyIndex = 0;
+  for (const lookup of compiledMessage.addressTableLookups ?? []) {
+    const addresses = (result[lookup.lookupTableAddress] ??= []);
+    for (const index of lookup.writableIndexes) {
+      addresses[index] = loadedAddresses.writable[writableIndex++];
+    }
+    for (const index of lookup.readonlyIndexes) {
+      addresses[index] = loadedAddresses.readonly[readonlyIndex++];
+    }
+  }
+  return result;
+}
+
+/**
+ * Fetches a transaction and decodes every top-level pinocchio-demo
+ * instruction in it, together with the events it logged. Instructions the
+ * parsers reject are listed in `undecodedInstructions` instead of failing
+ * the whole transaction.
+ *
+ * Returns `null` when the node does not know the transaction (yet).
+ */
+export async function fetchPinocchioDemoTransaction(
+  rpc: Rpc<GetTransactionApi>,
+  signature: Signature,
+  config: { commitment?: Commitment; programAddress?: Address } = {},
+): Promise<PinocchioDemoTransaction | null> {
+  const {
+    commitment = "confirmed",
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+  } = config;
+  const response = await rpc
+    .getTransaction(signature, {
+      commitment: commitment === "processed" ? "confirmed" : commitment,
+      encoding: "base64",
+      maxSupportedTransactionVersion: 0,
+    })
+    .send();
+  if (!response) {
+    return null;
+  }
+
+  const { meta } = response;
+  const transaction = getTransactionDecoder().decode(
+    getBase64Encoder().encode(response.transaction[0]),
+  );
+  const compiledMessage = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes,
+  );
+  const loadedAddresses = (meta as { loadedAddresses?: LoadedAddresses } | null)
+    ?.loadedAddresses;
+  const message = decompileTransactionMessage(compiledMessage, {
+    addressesByLookupTableAddress: getAddressesByLookupTableAddress(
+      compiledMessage,
+      loadedAddresses,
+    ),
+  });
+
+  const logMessages = meta?.logMessages ?? [];
+  const events = parsePinocchioDemoEvents(logMessages, { programAddress });
+  const instructions: DecodedPinocchioDemoInstruction[] = [];
+  const undecodedInstructions: UndecodedPinocchioDemoInstruction[] = [];
+  message.instructions.forEach((instruction, index) => {
+    if (instruction.programAddress !== programAddress) {
+      return;
+    }
+    const raw = {
+      programAddress: instruction.programAddress,
+      accounts: (instruction.accounts ?? []) as readonly AccountMeta[],
+      data: instruction.data ?? new Uint8Array(),
+    };
+    const instructionEvents = events.filter(
+      (event) => event.instructionIndex === index,
+    );
+    let parsed: ParsedPinocchioDemoInstruction<string>;
+    try {
+      parsed = parsePinocchioDemoInstruction(raw);
+    } catch {
+      undecodedInstructions.push({
+        index,
+        accounts: raw.accounts,
+        data: raw.data,
+        decodeError: getPinocchioDemoDecodeError(raw),
+        events: instructionEvents,
+      });
+      return;
+    }
+    instructions.push({
+      index,
+      instruction: parsed,
+      events: instructionEvents,
+    });
+  });
+
+  return {
+    signature,
+    slot: response.slot,
+    blockTime: response.blockTime,
+    err: meta?.err ?? null,
+    programError: decodePinocchioDemoError(meta?.err ?? null, message, {
+      programAddress,
+    }),
+    fee: meta?.fee ?? 0n,
+    computeUnitsConsumed: meta?.computeUnitsConsumed ?? null,
+    accountKeys: [
+      ...compiledMessage.staticAccounts,
+      ...(loadedAddresses?.writable ?? []),
+      ...(loadedAddresses?.readonly ?? []),
+    ],
+    preBalances: [...(meta?.preBalances ?? [])],
+    postBalances: [...(meta?.postBalances ?? [])],
+    logMessages,
+    instructions,
+    undecodedInstructions,
+  };
+}
@@ -0,0 +1,46 @@
+export const LAMPORTS_PER_SOL = 1_000_000_000n;
+
+const SOL_DECIMALS = 9;
+const AMOUNT_PATTERN = /^(\d+)(?:\.(\d+))?\s*(sol|lamports?)?$/i;
+
+/**
+ * Parses a human-entered amount into lamports.
+ *
+ * Accepts `1.5`, `1.5 SOL`, `1.5sol`, `1500 lamports` or `1500lamport`.
+ * Amounts without a unit are read as SOL. SOL amounts may have at most nine
+ * decimals and lamport amounts must be whole numbers.
+ */
+export function parseLamports(input: string): bigint {
+  const match = AMOUNT_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new Error(`Invalid amount: "${input}".`);
+  }
+  const [, whole, fraction = "", unit = "sol"] = match;
+  if (unit.toLowerCase() !== "sol") {
+    if (fraction) {
+      throw new Error(`Lamport amounts must be whole numbers: "${input}".`);
+    }
+    return BigInt(whole);
+  }
+  if (fraction.length > SOL_DECIMALS) {
+    throw new Error(
+      `SOL amounts support at most ${SOL_DECIMALS} decimals: "${input}".`,
+    );
+  }
+  return (
+    BigInt(whole) * LAMPORTS_PER_SOL +
+    BigInt(fraction.padEnd(SOL_DECIMALS, "0"))
+  );
+}
+
+/** Formats lamports as a SOL amount without trailing zeros, e.g. `1.5`. */
+export function formatSol(lamports: bigint): string {
+  const sign = lamports < 0n ? "-" : "";
+  const absolute = lamports < 0n ? -lamports : lamports;
+  const whole = absolute / LAMPORTS_PER_SOL;
+  const fraction = (absolute % LAMPORTS_PER_SOL)
+    .toString()
+    .padStart(SOL_DECIMALS, "0")
+    .replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
@@ -0,0 +1,188 @@
+import {
+  fetchEncodedAccount,
+  type Address,
+  type Commitment,
+  type GetAccountInfoApi,
+  type GetBalanceApi,
+  type GetMinimumBalanceForRentExemptionApi,
+  type Rpc,
+} from "@solana/kit";
+import { getVaultDelegate } from "./delegate";
+import { findVaultPda, PINOCCHIO_DEMO_PROGRAM_ADDRESS } from "./generated";
+import { getVaultRentExemptMinimum } from "./rent";
+
+const U64_MAX = 2n ** 64n - 1n;
+
+export type VaultValidationErrorCode =
+  /** The amount is zero, negative, fractional or larger than a u64. */
+  | "INVALID_AMOUNT"
+  /** The vault is not the PDA derived from the owner. */
+  | "VAULT_ADDRESS_MISMATCH"
+  /** The vault has not been created yet. */
+  | "VAULT_NOT_FOUND"
+  /** The vault address holds an account the program does not own. */
+  | "VAULT_NOT_OWNED_BY_PROGRAM"
+  /** The owner cannot fund the deposit and the vault creation rent. */
+  | "INSUFFICIENT_FUNDS"
+  /** The signer of a delegate withdrawal is not the vault's delegate. */
+  | "UNAUTHORIZED_DELEGATE";
+
+/**
+ * Raised by the preflight checks below when a transaction would be rejected
+ * by the program, so that it fails before being signed or sent.
+ */
+export class VaultValidationError extends Error {
+  override readonly name = "VaultValidationError";
+
+  constructor(
+    readonly code: VaultValidationErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export type VaultValidationConfig = {
+  programAddress?: Address;
+  /** Commitment used for account reads. Defaults to `confirmed`. */
+  commitment?: Commitment;
+};
+
+export type VaultValidationInput = {
+  owner: Address;
+  vault: Address;
+};
+
+type VaultValidationRpc = Rpc<
+  GetAccountInfoApi & GetBalanceApi & GetMinimumBalanceForRentExemptionApi
+>;
+
+/**
+ * Checks an amount the way `parse_amount` does: it must be a whole number
+ * of lamports, non-zero and fit in a u64. Returns it as a bigint.
+ */
+export function assertValidVaultAmount(amount: number | bigint): bigint {
+  if (typeof amount === "number" && !Number.isSafeInteger(amount)) {
+    throw new VaultValidationError(
+      "INVALID_AMOUNT",
+      `Amount ${amount} is not a whole number of lamports.`,
+    );
+  }
+  const value = BigInt(amount);
+  if (value <= 0n || value > U64_MAX) {
+    throw new VaultValidationError(
+      "INVALID_AMOUNT",
+      `Amount ${value} must be between 1 and ${U64_MAX} lamports.`,
+    );
+  }
+  return value;
+}
+
+/** Checks that `vault` is the PDA the program derives for `owner`. */
+export async function assertVaultAddress(
+  input: VaultValidationInput,
+  config: Pick<VaultValidationConfig, "programAddress"> = {},
+): Promise<void> {
+  const [expected] = await findVaultPda(
+    { owner: input.owner },
+    { programAddress: config.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS },
+  );
+  if (input.vault !== expected) {
+    throw new VaultValidationError(
+      "VAULT_ADDRESS_MISMATCH",
+      `Vault ${input.vault} is not the vault of ${input.owner}; expected ${expected}.`,
+    );
+  }
+}
+
+/**
+ * Validates a deposit: the amount, the vault address and, when the vault
+ * already exists, its owner. The owner must hold the amount plus the
+ * vault's rent-exempt minimum if the deposit creates the vault.
+ *
+ * Transaction fees are not included since they may be paid by another
+ * signer.
+ */
+export async function validateDeposit(
+  rpc: VaultValidationRpc,
+  input: VaultValidationInput & { amount: number | bigint },
+  config: VaultValidationConfig = {},
+): Promise<void> {
+  const { commitment = "confirmed" } = config;
+  const amount = assertValidVaultAmount(input.amount);
+  await assertVaultAddress(input, config);
+
+  const [vault, { value: ownerBalance }] = await Promise.all([
+    fetchEncodedAccount(rpc, input.vault, { commitment }),
+    rpc.getBalance(input.owner, { commitment }).send(),
+  ]);
+  if (vault.exists) {
+    assertOwnedByProgram(vault.programAddress, input.vault, config);
+  }
+  const creationRent = vault.exists
+    ? 0n
+    : await getVaultRentExemptMinimum(rpc, { commitment });
+  if (ownerBalance < amount + creationRent) {
+    throw new VaultValidationError(
+      "INSUFFICIENT_FUNDS",
+      `Owner ${input.owner} holds ${ownerBalance} lamports but the deposit needs ${amount + creationRent}` +
+        (creationRent > 0n
+          ? ` (including ${creationRent} for vault rent).`
+          : "."),
+    );
+  }
+}
+
+/**
+ * Validates a withdrawal or a vault closure: the amount when given, the
+ * vault address, and that the vault exists and is owned by the program.
+ * When `delegate` is given, also checks that it is the vault's delegate.
+ */
+export async function validateWithdraw(
+  rpc: VaultValidationRpc,
+  input: VaultValidationInput & {
+    amount?: number | bigint;
+    delegate?: Address;
+  },
+  config: VaultValidationConfig = {},
+): Promise<void> {
+  if (input.amount !== undefined) {
+    assertValidVaultAmount(input.amount);
+  }
+  await assertVaultAddress(input, config);
+
+  const vault = await fetchEncodedAccount(rpc, input.vault, {
+    commitment: config.commitment ?? "confirmed",
+  });
+  if (!vault.exists) {
+    throw new VaultValidationError(
+      "VAULT_NOT_FOUND",
+      `Vault ${input.vault} does not exist.`,
+    );
+  }
+  assertOwnedByProgram(vault.programAddress, input.vault, config);
+  if (
+    input.delegate !== undefined &&
+    getVaultDelegate(vault, config) !== input.delegate
+  ) {
+    throw new VaultValidationError(
+      "UNAUTHORIZED_DELEGATE",
+      `${input.delegate} is not the delegate of vault ${input.vault}.`,
+    );
+  }
+}
+
+function assertOwnedByProgram(
+  accountOwner: Address,
+  vault: Address,
+  config: Pick<VaultValidationConfig, "programAddress">,
+): void {
+  const programAddress =
+    config.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+  if (accountOwner !== programAddress) {
+    throw new VaultValidationError(
+      "VAULT_NOT_OWNED_BY_PROGRAM",
+      `Vault ${vault} is owned by ${accountOwner}, not by ${programAddress}.`,
+    );
+  }
+}
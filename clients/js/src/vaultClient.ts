@@ -0,0 +1,349 @@
+import {
+  appendTransactionMessageInstructions,
+  assertIsTransactionWithBlockhashLifetime,
+  createTransactionMessage,
+  fetchEncodedAccount,
+  getSignatureFromTransaction,
+  pipe,
+  sendAndConfirmTransactionFactory,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+  type Address,
+  type Commitment,
+  type Instruction,
+  type Rpc,
+  type RpcSubscriptions,
+  type Signature,
+  type SolanaRpcApi,
+  type SolanaRpcSubscriptionsApi,
+  type TransactionSigner,
+} from "@solana/kit";
+import { getVaultDelegate } from "./delegate";
+import { withComputeBudget, type ComputeBudgetConfig } from "./fees";
+import {
+  findVaultPda,
+  getCloseVaultInstructionAsync,
+  getDelegateWithdrawInstructionAsync,
+  getDepositInstructionAsync,
+  getRevokeDelegateInstructionAsync,
+  getSetDelegateInstructionAsync,
+  getWithdrawAmountInstructionAsync,
+  getWithdrawInstructionAsync,
+  PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+} from "./generated";
+import { getVaultRentExemptMinimum, getWithdrawableLamports } from "./rent";
+import { validateDeposit, validateWithdraw } from "./validation";
+
+export type VaultClientConfig = {
+  rpc: Rpc<SolanaRpcApi>;
+  rpcSubscriptions: RpcSubscriptions<SolanaRpcSubscriptionsApi>;
+  /** Vault owner, or its delegate when `owner` is set; pays fees. */
+  signer: TransactionSigner;
+  /**
+   * Owner of the vault when `signer` is its delegate. A delegate can only
+   * call {@link VaultClient.withdraw}, which pays out to this owner.
+   * Defaults to the signer's address.
+   */
+  owner?: Address;
+  /** Commitment used for confirmations and balance reads. Defaults to `confirmed`. */
+  commitment?: Commitment;
+  programAddress?: Address;
+  /**
+   * When set, every transaction is simulated first and sent with a compute
+   * unit limit and price planned from that simulation.
+   */
+  computeBudget?: ComputeBudgetConfig;
+  /**
+   * When set, every call is checked against the program's rules first and
+   * rejected with a `VaultValidationError` before anything is signed.
+   */
+  validate?: boolean;
+};
+
+export type VaultTransactionResult = {
+  signature: Signature;
+  /** Owner lamports after the transaction was confirmed. */
+  ownerBalance: bigint;
+  /** Vault lamports after the transaction was confirmed. */
+  vaultBalance: bigint;
+};
+
+/**
+ * High-level client for a single owner's vault, used by the owner or by
+ * the vault's delegate.
+ *
+ * Builds instructions with the generated builders and takes care of the
+ * fee payer, blockhash, signing and confirmation steps.
+ */
+export class VaultClient {
+  readonly rpc: Rpc<SolanaRpcApi>;
+  readonly rpcSubscriptions: RpcSubscriptions<SolanaRpcSubscriptionsApi>;
+  readonly signer: TransactionSigner;
+  readonly owner: Address;
+  readonly commitment: Commitment;
+  readonly programAddress: Address;
+  readonly computeBudget: ComputeBudgetConfig | undefined;
+  readonly validate: boolean;
+
+  private vaultAddress: Address | undefined;
+
+  constructor(config: VaultClientConfig) {
+    this.rpc = config.rpc;
+    this.rpcSubscriptions = config.rpcSubscriptions;
+    this.signer = config.signer;
+    this.owner = config.owner ?? config.signer.address;
+    this.commitment = config.commitment ?? "confirmed";
+    this.programAddress =
+      config.programAddress ?? PINOCCHIO_DEMO_PROGRAM_ADDRESS;
+    this.computeBudget = config.computeBudget;
+    this.validate = config.validate ?? false;
+  }
+
+  /** Whether the signer acts as the vault's delegate rather than its owner. */
+  get isDelegate(): boolean {
+    return this.owner !== this.signer.address;
+  }
+
+  /** Returns the vault PDA of the owner, deriving it on first use. */
+  async getVaultAddress(): Promise<Address> {
+    if (!this.vaultAddress) {
+      [this.vaultAddress] = await findVaultPda(
+        { owner: this.owner },
+        { programAddress: this.programAddress },
+      );
+    }
+    return this.vaultAddress;
+  }
+
+  /** Deposits `amount` lamports, creating the vault on the first deposit. */
+  async deposit(amount: number | bigint): Promise<VaultTransactionResult> {
+    this.assertOwner("deposit");
+    await this.preflightDeposit(amount);
+    const instruction = await getDepositInstructionAsync(
+      {
+        owner: this.signer,
+        vault: await this.getVaultAddress(),
+        amount,
+      },
+      { programAddress: this.programAddress },
+    );
+    return await this.sendInstruction(instruction);
+  }
+
+  /** Withdraws every lamport above the vault's rent-exempt minimum. */
+  async withdrawAll(): Promise<VaultTransactionResult> {
+    this.assertOwner("withdrawAll");
+    await this.preflightWithdraw();
+    const instruction = await getWithdrawInstructionAsync(
+      {
+        owner: this.signer,
+        vault: await this.getVaultAddress(),
+      },
+      { programAddress: this.programAddress },
+    );
+    return await this.sendInstruction(instruction);
+  }
+
+  /**
+   * Withdraws exactly `amount` lamports to the owner. The program rejects
+   * amounts that would leave the vault below its rent-exempt minimum.
+   * A delegate withdraws with `DelegateWithdraw`.
+   */
+  async withdraw(amount: number | bigint): Promise<VaultTransactionResult> {
+    await this.preflightWithdraw(amount);
+    const instruction = this.isDelegate
+      ? await getDelegateWithdrawInstructionAsync(
+          {
+            owner: this.owner,
+            vault: await this.getVaultAddress(),
+            delegate: this.signer,
+            amount,
+          },
+          { programAddress: this.programAddress },
+        )
+      : await getWithdrawAmountInstructionAsync(
+          {
+            owner: this.signer,
+            vault: await this.getVaultAddress(),
+            amount,
+          },
+          { programAddress: this.programAddress },
+        );
+    return await this.sendInstruction(instruction);
+  }
+
+  /** Closes the vault and returns every lamport, including rent, to the owner. */
+  async closeVault(): Promise<VaultTransactionResult> {
+    this.assertOwner("closeVault");
+    await this.preflightWithdraw();
+    const instruction = await getCloseVaultInstructionAsync(
+      {
+        owner: this.signer,
+        vault: await this.getVaultAddress(),
+      },
+      { programAddress: this.programAddress },
+    );
+    return await this.sendInstruction(instruction);
+  }
+
+  /**
+   * Lets `delegate` withdraw to the owner, replacing any previous delegate.
+   * Vaults created before delegation existed grow to hold it, and the owner
+   * pays the extra rent.
+   */
+  async setDelegate(delegate: Address): Promise<VaultTransactionResult> {
+    this.assertOwner("setDelegate");
+    await this.preflightWithdraw();
+    const instruction = await getSetDelegateInstructionAsync(
+      {
+        owner: this.signer,
+        vault: await this.getVaultAddress(),
+        delegate,
+      },
+      { programAddress: this.programAddress },
+    );
+    return await this.sendInstruction(instruction);
+  }
+
+  /** Removes the vault's delegate; succeeds when there is none. */
+  async revokeDelegate(): Promise<VaultTransactionResult> {
+    this.assertOwner("revokeDelegate");
+    await this.preflightWithdraw();
+    const instruction = await getRevokeDelegateInstructionAsync(
+      {
+        owner: this.signer,
+        vault: await this.getVaultAddress(),
+      },
+      { programAddress: this.programAddress },
+    );
+    return await this.sendInstruction(instruction);
+  }
+
+  /** Returns the vault's delegate, or `null` if it has none. */
+  async getDelegate(): Promise<Address | null> {
+    const account = await fetchEncodedAccount(
+      this.rpc,
+      await this.getVaultAddress(),
+      { commitment: this.commitment },
+    );
+    return getVaultDelegate(account, { programAddress: this.programAddress });
+  }
+
+  /** Returns the vault lamports, or zero if the vault does not exist. */
+  async getBalance(): Promise<bigint> {
+    const { value } = await this.rpc
+      .getBalance(await this.getVaultAddress(), { commitment: this.commitment })
+      .send();
+    return value;
+  }
+
+  /** Returns the lamports a `withdrawAll` call would currently pay out. */
+  async getWithdrawable(): Promise<bigint> {
+    const account = await fetchEncodedAccount(
+      this.rpc,
+      await this.getVaultAddress(),
+      { commitment: this.commitment },
+    );
+    if (!account.exists) {
+      return 0n;
+    }
+    return getWithdrawableLamports(account, {
+      programAddress: this.programAddress,
+      rentExemptMinimum: await getVaultRentExemptMinimum(this.rpc, {
+        commitment: this.commitment,
+      }),
+    });
+  }
+
+  /** Returns whether the vault has been created and is owned by the program. */
+  async exists(): Promise<boolean> {
+    const account = await fetchEncodedAccount(
+      this.rpc,
+      await this.getVaultAddress(),
+      { commitment: this.commitment },
+    );
+    return account.exists && account.programAddress === this.programAddress;
+  }
+
+  private async preflightDeposit(amount: number | bigint): Promise<void> {
+    if (this.validate) {
+      await validateDeposit(
+        this.rpc,
+        {
+          owner: this.signer.address,
+          vault: await this.getVaultAddress(),
+          amount,
+        },
+        { programAddress: this.programAddress, commitment: this.commitment },
+      );
+    }
+  }
+
+  private async preflightWithdraw(amount?: number | bigint): Promise<void> {
+    if (this.validate) {
+      await validateWithdraw(
+        this.rpc,
+        {
+          owner: this.owner,
+          vault: await this.getVaultAddress(),
+          amount,
+          delegate: this.isDelegate ? this.signer.address : undefined,
+        },
+        { programAddress: this.programAddress, commitment: this.commitment },
+      );
+    }
+  }
+
+  private assertOwner(method: string): void {
+    if (this.isDelegate) {
+      throw new Error(
+        `Only the vault owner ${this.owner} can call ${method}; ${this.signer.address} is a delegate.`,
+      );
+    }
+  }
+
+  private async sendInstruction(
+    instruction: Instruction,
+  ): Promise<VaultTransactionResult> {
+    const instructions = this.computeBudget
+      ? (
+          await withComputeBudget(
+            this.rpc,
+            { feePayer: this.signer, instructions: [instruction] },
+            { commitment: this.commitment, ...this.computeBudget },
+          )
+        ).instructions
+      : [instruction];
+    const { value: latestBlockhash } = await this.rpc
+      .getLatestBlockhash({ commitment: this.commitment })
+      .send();
+    const transactionMessage = pipe(
+      createTransactionMessage({ version: 0 }),
+      (tx) => setTransactionMessageFeePayerSigner(this.signer, tx),
+      (tx) => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+      (tx) => appendTransactionMessageInstructions(instructions, tx),
+    );
+
+    const signedTransaction =
+      await signTransactionMessageWithSigners(transactionMessage);
+    assertIsTransactionWithBlockhashLifetime(signedTransaction);
+    const sendAndConfirmTransaction = sendAndConfirmTransactionFactory({
+      rpc: this.rpc,
+      rpcSubscriptions: this.rpcSubscriptions,
+    });
+    await sendAndConfirmTransaction(signedTransaction, {
+      commitment: this.commitment,
+    });
+
+    const [{ value: ownerBalance }, vaultBalance] = await Promise.all([
+      this.rpc.getBalance(this.owner, { commitment: this.commitment }).send(),
+      this.getBalance(),
+    ]);
+    return {
+      signature: getSignatureFromTransaction(signedTransaction),
+      ownerBalance,
+      vaultBalance,
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import {
+  type AccountNotificationsApi,
+  type Address,
+  type Commitment,
+  type GetMultipleAccountsApi,
+  type Rpc,
+  type RpcSubscriptions,
+} from "@solana/kit";
+import { findVaultPda, PINOCCHIO_DEMO_PROGRAM_ADDRESS } from "./generated";
+
+export type VaultWatchTarget = { owner: Address } | { vault: Address };
+
+export type VaultBalanceChangeKind =
+  /** The vault account was created by a first deposit. */
+  | "created"
+  /** Lamports were deposited into an existing vault. */
+  | "increased"
+  /** Lamports were withdrawn without closing the vault. */
+  | "decreased"
+  /** The vault was closed and its lamports returned to the owner. */
+  | "closed";
+
+export type VaultBalanceChange = {
+  kind: VaultBalanceChangeKind;
+  vault: Address;
+  /** Owner the vault is watched for, or `null` when watched by address. */
+  owner: Address | null;
+  /** Slot at which the new balance was observed. */
+  slot: bigint;
+  /** Vault lamports after the change; zero once the vault is closed. */
+  lamports: bigint;
+  /** Signed difference with the previous balance. */
+  delta: bigint;
+};
+
+export type VaultWatchConfig = {
+  /** Stops watching; the iteration then ends without an error. */
+  abortSignal?: AbortSignal;
+  /** Defaults to `confirmed`. */
+  commitment?: Commitment;
+  programAddress?: Address;
+  /** Polling interval while the subscriptions are down. Defaults to 5 seconds. */
+  pollIntervalMs?: number;
+  /**
+   * Delay before the first reconnection attempt, doubled after every failed
+   * attempt up to `maxReconnectDelayMs`. Defaults to 1 and 30 seconds.
+   */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+};
+
+type VaultWatchRpc = Rpc<GetMultipleAccountsApi>;
+type VaultWatchRpcSubscriptions = RpcSubscriptions<AccountNotificationsApi>;
+
+type VaultState = { slot: bigint; exists: boolean; lamports: bigint };
+
+type WatchedVault = {
+  vault: Address;
+  owner: Address | null;
+  /** Last observed state; unset until the first snapshot. */
+  state?: VaultState;
+};
+
+const MULTIPLE_ACCOUNTS_LIMIT = 100;
+
+/** Watches a single vault. See {@link watchVaults}. */
+export function watchVault(
+  rpc: VaultWatchRpc,
+  rpcSubscriptions: VaultWatchRpcSubscriptions,
+  target: VaultWatchTarget,
+  config: VaultWatchConfig = {},
+): AsyncGenerator<VaultBalanceChange, void> {
+  return watchVaults(rpc, rpcSubscriptions, [target], config);
+}
+
+/**
+ * Yields balance changes of the given vaults as they happen, starting from
+ * their balances when the iteration begins.
+ *
+ * Every vault gets an `accountNotifications` subscription on the given
+ * `rpcSubscriptions`, whose channel pool multiplexes them over a single
+ * websocket (up to its `maxSubscriptionsPerChannel`, 100 by default).
+ *
+ * When the connection drops, balances are polled with `getMultipleAccounts`
+ * until the subscriptions are restored, and once more after resubscribing
+ * so that no change in between is lost. Updates older than the last
+ * observed slot are ignored, and changes that happen between two
+ * observations are merged into one. Only a failure of the first connection
+ * is thrown; later ones are retried until the iteration stops.
+ */
+export async function* watchVaults(
+  rpc: VaultWatchRpc,
+  rpcSubscriptions: VaultWatchRpcSubscriptions,
+  targets: readonly VaultWatchTarget[],
+  config: VaultWatchConfig = {},
+): AsyncGenerator<VaultBalanceChange, void> {
+  const {
+    commitment = "confirmed",
+    programAddress = PINOCCHIO_DEMO_PROGRAM_ADDRESS,
+    pollIntervalMs = 5_000,
+    reconnectDelayMs = 1_000,
+    maxReconnectDelayMs = 30_000,
+  } = config;
+
+  const watched = new Map<Address, WatchedVault>();
+  for (const target of targets) {
+    const vault =
+      "vault" in target
+        ? target.vault
+        : (await findVaultPda({ owner: target.owner }, { programAddress }))[0];
+    if (!watched.has(vault)) {
+      watched.set(vault, {
+        vault,
+        owner: "owner" in target ? target.owner : null,
+      });
+    }
+  }
+  const vaults = [...watched.keys()];
+
+  const pending: VaultBalanceChange[] = [];
+  let wake: (() => void) | undefined;
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+
+  function apply(
+    vault: Address,
+    slot: bigint,
+    account: { lamports: bigint; owner: Address } | null,
+  ): void {
+    const entry = watched.get(vault)!;
+    const previous = entry.state;
+    if (previous && slot < previous.slot) {
+      return;
+    }
+    // A closed vault is left as an empty system account.
+    const exists =
+      account !== null &&
+      account.lamports > 0n &&
+      account.owner === programAddress;
+    const lamports = exists ? account.lamports : 0n;
+    entry.state = { slot, exists, lamports };
+    if (!previous) {
+      return;
+    }
+
+    const delta = lamports - previous.lamports;
+    let kind: VaultBalanceChangeKind;
+    if (exists && !previous.exists) {
+      kind = "created";
+    } else if (!exists && previous.exists) {
+      kind = "closed";
+    } else if (exists && delta !== 0n) {
+      kind = delta > 0n ? "increased" : "decreased";
+    } else {
+      return;
+    }
+    pending.push({ kind, vault, owner: entry.owner, slot, lamports, delta });
+    notify();
+  }
+
+  const stop = new AbortController();
+  const onAbort = () => stop.abort();
+  if (config.abortSignal?.aborted) {
+    stop.abort();
+  }
+  config.abortSignal?.addEventListener("abort", onAbort);
+  const { signal } = stop;
+
+  let hasSnapshot = false;
+  async function poll(): Promise<void> {
+    for (
+      let start = 0;
+      start < vaults.length;
+      start += MULTIPLE_ACCOUNTS_LIMIT
+    ) {
+      const chunk = vaults.slice(start, start + MULTIPLE_ACCOUNTS_LIMIT);
+      const { context, value } = await rpc
+        .getMultipleAccounts(chunk, {
+          commitment,
+          encoding: "base64",
+          dataSlice: { offset: 0, length: 0 },
+        })
+        .send({ abortSignal: signal });
+      value.forEach((account, index) =>
+        apply(chunk[index], context.slot, account),
+      );
+    }
+    hasSnapshot = true;
+  }
+
+  async function run(): Promise<void> {
+    let delay = reconnectDelayMs;
+    while (!signal.aborted) {
+      const connection = new AbortController();
+      const onStop = () => connection.abort();
+      signal.addEventListener("abort", onStop);
+      try {
+        const streams = await Promise.all(
+          vaults.map((vault) =>
+            rpcSubscriptions
+              .accountNotifications(vault, { commitment, encoding: "base64" })
+              .subscribe({ abortSignal: connection.signal }),
+          ),
+        );
+        // Subscribe before reading balances so nothing falls in between.
+        await poll();
+        delay = reconnectDelayMs;
+        await Promise.all(
+          streams.map(async (stream, index) => {
+            for await (const { context, value } of stream) {
+              apply(vaults[index], context.slot, value);
+            }
+          }),
+        );
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        if (!hasSnapshot) {
+          throw error;
+        }
+      } finally {
+        signal.removeEventListener("abort", onStop);
+        connection.abort();
+      }
+
+      // Disconnected: poll until the next reconnection attempt.
+      const reconnectAt = Date.now() + delay;
+      delay = Math.min(delay * 2, maxReconnectDelayMs);
+      while (!signal.aborted && Date.now() < reconnectAt) {
+        await poll().catch(() => {});
+        await sleep(Math.min(pollIntervalMs, reconnectAt - Date.now()), signal);
+      }
+    }
+  }
+
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+  const running = run().then(
+    () => {
+      finished = true;
+      notify();
+    },
+    (error: unknown) => {
+      failure = { error };
+      notify();
+    },
+  );
+
+  try {
+    for (;;) {
+      const change = pending.shift();
+      if (change) {
+        yield change;
+      } else if (failure) {
+        throw failure.error;
+      } else if (finished) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+    }
+  } finally {
+    config.abortSignal?.removeEventListener("abort", onAbort);
+    stop.abort();
+    await running;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(done, Math.max(ms, 0));
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timeout);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
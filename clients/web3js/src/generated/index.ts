@@ -0,0 +1,896 @@
+/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */
+
+import {
+  PublicKey,
+  TransactionInstruction,
+  type AccountMeta,
+} from '@solana/web3.js';
+
+export const PINOCCHIO_DEMO_PROGRAM_ID = new PublicKey(
+  'GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG'
+);
+
+export enum PinocchioDemoInstruction {
+  Deposit,
+  Withdraw,
+  WithdrawAmount,
+  CloseVault,
+  SetDelegate,
+  RevokeDelegate,
+  DelegateWithdraw,
+}
+
+/** Vault PDA derived from the "vault" tag and the owner address */
+export function findVaultPda(
+  seeds: { owner: PublicKey },
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('vault', 'utf8'), seeds.owner.toBuffer()],
+    programId
+  );
+}
+
+export const VAULT_SIZE = 48;
+
+export type Vault = {
+  discriminator: Uint8Array;
+  reserved: bigint;
+  delegate: PublicKey | null;
+};
+
+export function decodeVault(data: Buffer): Vault {
+  if (data.length < 16) {
+    throw new Error(
+      `Expected at least 16 bytes for Vault, got ${data.length}.`
+    );
+  }
+  return {
+    discriminator: Uint8Array.from(data.subarray(0, 0 + 8)),
+    reserved: data.readBigUInt64LE(8),
+    delegate:
+      data.length > 16 ? new PublicKey(data.subarray(16, 16 + 32)) : null,
+  };
+}
+
+/** OwnerNotSigner: Vault owner must sign the transaction */
+export const PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER = 0x1770; // 6000
+/** InvalidVaultAddress: Vault address does not match the owner's vault PDA */
+export const PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS = 0x1771; // 6001
+/** VaultNotOwnedByProgram: Vault account is not owned by the vault program */
+export const PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM = 0x1772; // 6002
+/** InsufficientVaultFunds: Vault does not hold enough lamports above its rent-exempt minimum */
+export const PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS = 0x1773; // 6003
+/** UnauthorizedDelegate: Signer is not the vault's delegate */
+export const PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE = 0x1774; // 6004
+
+export type PinocchioDemoError =
+  | typeof PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER
+  | typeof PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS
+  | typeof PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM
+  | typeof PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS
+  | typeof PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE;
+
+const pinocchioDemoErrorMessages: Record<PinocchioDemoError, string> = {
+  [PINOCCHIO_DEMO_ERROR__OWNER_NOT_SIGNER]:
+    'Vault owner must sign the transaction',
+  [PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS]:
+    "Vault address does not match the owner's vault PDA",
+  [PINOCCHIO_DEMO_ERROR__VAULT_NOT_OWNED_BY_PROGRAM]:
+    'Vault account is not owned by the vault program',
+  [PINOCCHIO_DEMO_ERROR__INSUFFICIENT_VAULT_FUNDS]:
+    'Vault does not hold enough lamports above its rent-exempt minimum',
+  [PINOCCHIO_DEMO_ERROR__UNAUTHORIZED_DELEGATE]:
+    "Signer is not the vault's delegate",
+};
+
+/**
+ * Returns the message of a PinocchioDemo custom error code, as found in
+ * `{ InstructionError: [index, { Custom: code }] }`, or `undefined` for
+ * codes the program does not define.
+ */
+export function getPinocchioDemoErrorMessage(code: number): string | undefined {
+  return pinocchioDemoErrorMessages[code as PinocchioDemoError];
+}
+
+export const DEPOSIT_DISCRIMINATOR = 0;
+
+export type DepositInstructionArgs = {
+  amount: number | bigint;
+};
+
+export type DepositInstructionData = {
+  discriminator: number;
+  amount: bigint;
+};
+
+export function encodeDepositInstructionData(
+  args: DepositInstructionArgs
+): Buffer {
+  const data = Buffer.alloc(9);
+  data.writeUInt8(DEPOSIT_DISCRIMINATOR, 0);
+  data.writeBigUInt64LE(BigInt(args.amount), 1);
+  return data;
+}
+
+export function decodeDepositInstructionData(
+  bytes: Uint8Array
+): DepositInstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < 9 || data[0] !== DEPOSIT_DISCRIMINATOR) {
+    throw new Error('Data is not a Deposit instruction.');
+  }
+  return {
+    discriminator: data.readUInt8(0),
+    amount: data.readBigUInt64LE(1),
+  };
+}
+
+export type DepositInput = {
+  /** Vault owner and payer */
+  owner: PublicKey;
+  /** Vault PDA for lamports */
+  vault?: PublicKey;
+  /** Program Address */
+  program?: PublicKey;
+  /** System Program Address */
+  systemProgram?: PublicKey;
+  amount: number | bigint;
+};
+
+export function createDepositInstruction(
+  input: DepositInput,
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      {
+        pubkey: input.owner,
+        isSigner: true,
+        isWritable: true,
+      },
+      {
+        pubkey:
+          input.vault ?? findVaultPda({ owner: input.owner }, programId)[0],
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey: input.program ?? programId,
+        isSigner: false,
+        isWritable: false,
+      },
+      {
+        pubkey:
+          input.systemProgram ??
+          new PublicKey('11111111111111111111111111111111'),
+        isSigner: false,
+        isWritable: false,
+      },
+    ],
+    data: encodeDepositInstructionData({ amount: input.amount }),
+  });
+}
+
+export type DecodedDepositInstruction = {
+  programId: PublicKey;
+  accounts: {
+    owner: AccountMeta;
+    vault: AccountMeta;
+    program: AccountMeta;
+    systemProgram: AccountMeta;
+  };
+  data: DepositInstructionData;
+};
+
+export function decodeDepositInstruction(
+  instruction: TransactionInstruction
+): DecodedDepositInstruction {
+  if (instruction.keys.length < 4) {
+    throw new Error(
+      `Not enough accounts for Deposit: expected 4, got ${instruction.keys.length}.`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+      owner: instruction.keys[0],
+      vault: instruction.keys[1],
+      program: instruction.keys[2],
+      systemProgram: instruction.keys[3],
+    },
+    data: decodeDepositInstructionData(instruction.data),
+  };
+}
+
+export const WITHDRAW_DISCRIMINATOR = 1;
+
+export type WithdrawInstructionArgs = Record<string, never>;
+
+export type WithdrawInstructionData = {
+  discriminator: number;
+};
+
+export function encodeWithdrawInstructionData(
+  _args: WithdrawInstructionArgs = {}
+): Buffer {
+  const data = Buffer.alloc(1);
+  data.writeUInt8(WITHDRAW_DISCRIMINATOR, 0);
+  return data;
+}
+
+export function decodeWithdrawInstructionData(
+  bytes: Uint8Array
+): WithdrawInstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < 1 || data[0] !== WITHDRAW_DISCRIMINATOR) {
+    throw new Error('Data is not a Withdraw instruction.');
+  }
+  return {
+    discriminator: data.readUInt8(0),
+  };
+}
+
+export type WithdrawInput = {
+  /** Vault owner and authority */
+  owner: PublicKey;
+  /** Vault PDA for lamports */
+  vault?: PublicKey;
+  /** Program Address */
+  program?: PublicKey;
+};
+
+export function createWithdrawInstruction(
+  input: WithdrawInput,
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      {
+        pubkey: input.owner,
+        isSigner: true,
+        isWritable: true,
+      },
+      {
+        pubkey:
+          input.vault ?? findVaultPda({ owner: input.owner }, programId)[0],
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey: input.program ?? programId,
+        isSigner: false,
+        isWritable: false,
+      },
+    ],
+    data: encodeWithdrawInstructionData(),
+  });
+}
+
+export type DecodedWithdrawInstruction = {
+  programId: PublicKey;
+  accounts: {
+    owner: AccountMeta;
+    vault: AccountMeta;
+    program: AccountMeta;
+  };
+  data: WithdrawInstructionData;
+};
+
+export function decodeWithdrawInstruction(
+  instruction: TransactionInstruction
+): DecodedWithdrawInstruction {
+  if (instruction.keys.length < 3) {
+    throw new Error(
+      `Not enough accounts for Withdraw: expected 3, got ${instruction.keys.length}.`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+      owner: instruction.keys[0],
+      vault: instruction.keys[1],
+      program: instruction.keys[2],
+    },
+    data: decodeWithdrawInstructionData(instruction.data),
+  };
+}
+
+export const WITHDRAW_AMOUNT_DISCRIMINATOR = 2;
+
+export type WithdrawAmountInstructionArgs = {
+  amount: number | bigint;
+};
+
+export type WithdrawAmountInstructionData = {
+  discriminator: number;
+  amount: bigint;
+};
+
+export function encodeWithdrawAmountInstructionData(
+  args: WithdrawAmountInstructionArgs
+): Buffer {
+  const data = Buffer.alloc(9);
+  data.writeUInt8(WITHDRAW_AMOUNT_DISCRIMINATOR, 0);
+  data.writeBigUInt64LE(BigInt(args.amount), 1);
+  return data;
+}
+
+export function decodeWithdrawAmountInstructionData(
+  bytes: Uint8Array
+): WithdrawAmountInstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < 9 || data[0] !== WITHDRAW_AMOUNT_DISCRIMINATOR) {
+    throw new Error('Data is not a WithdrawAmount instruction.');
+  }
+  return {
+    discriminator: data.readUInt8(0),
+    amount: data.readBigUInt64LE(1),
+  };
+}
+
+export type WithdrawAmountInput = {
+  /** Vault owner and authority */
+  owner: PublicKey;
+  /** Vault PDA for lamports */
+  vault?: PublicKey;
+  /** Program Address */
+  program?: PublicKey;
+  amount: number | bigint;
+};
+
+export function createWithdrawAmountInstruction(
+  input: WithdrawAmountInput,
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      {
+        pubkey: input.owner,
+        isSigner: true,
+        isWritable: true,
+      },
+      {
+        pubkey:
+          input.vault ?? findVaultPda({ owner: input.owner }, programId)[0],
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey: input.program ?? programId,
+        isSigner: false,
+        isWritable: false,
+      },
+    ],
+    data: encodeWithdrawAmountInstructionData({ amount: input.amount }),
+  });
+}
+
+export type DecodedWithdrawAmountInstruction = {
+  programId: PublicKey;
+  accounts: {
+    owner: AccountMeta;
+    vault: AccountMeta;
+    program: AccountMeta;
+  };
+  data: WithdrawAmountInstructionData;
+};
+
+export function decodeWithdrawAmountInstruction(
+  instruction: TransactionInstruction
+): DecodedWithdrawAmountInstruction {
+  if (instruction.keys.length < 3) {
+    throw new Error(
+      `Not enough accounts for WithdrawAmount: expected 3, got ${instruction.keys.length}.`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+      owner: instruction.keys[0],
+      vault: instruction.keys[1],
+      program: instruction.keys[2],
+    },
+    data: decodeWithdrawAmountInstructionData(instruction.data),
+  };
+}
+
+export const CLOSE_VAULT_DISCRIMINATOR = 3;
+
+export type CloseVaultInstructionArgs = Record<string, never>;
+
+export type CloseVaultInstructionData = {
+  discriminator: number;
+};
+
+export function encodeCloseVaultInstructionData(
+  _args: CloseVaultInstructionArgs = {}
+): Buffer {
+  const data = Buffer.alloc(1);
+  data.writeUInt8(CLOSE_VAULT_DISCRIMINATOR, 0);
+  return data;
+}
+
+export function decodeCloseVaultInstructionData(
+  bytes: Uint8Array
+): CloseVaultInstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < 1 || data[0] !== CLOSE_VAULT_DISCRIMINATOR) {
+    throw new Error('Data is not a CloseVault instruction.');
+  }
+  return {
+    discriminator: data.readUInt8(0),
+  };
+}
+
+export type CloseVaultInput = {
+  /** Vault owner and rent recipient */
+  owner: PublicKey;
+  /** Vault PDA for lamports */
+  vault?: PublicKey;
+  /** Program Address */
+  program?: PublicKey;
+};
+
+export function createCloseVaultInstruction(
+  input: CloseVaultInput,
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      {
+        pubkey: input.owner,
+        isSigner: true,
+        isWritable: true,
+      },
+      {
+        pubkey:
+          input.vault ?? findVaultPda({ owner: input.owner }, programId)[0],
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey: input.program ?? programId,
+        isSigner: false,
+        isWritable: false,
+      },
+    ],
+    data: encodeCloseVaultInstructionData(),
+  });
+}
+
+export type DecodedCloseVaultInstruction = {
+  programId: PublicKey;
+  accounts: {
+    owner: AccountMeta;
+    vault: AccountMeta;
+    program: AccountMeta;
+  };
+  data: CloseVaultInstructionData;
+};
+
+export function decodeCloseVaultInstruction(
+  instruction: TransactionInstruction
+): DecodedCloseVaultInstruction {
+  if (instruction.keys.length < 3) {
+    throw new Error(
+      `Not enough accounts for CloseVault: expected 3, got ${instruction.keys.length}.`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+      owner: instruction.keys[0],
+      vault: instruction.keys[1],
+      program: instruction.keys[2],
+    },
+    data: decodeCloseVaultInstructionData(instruction.data),
+  };
+}
+
+export const SET_DELEGATE_DISCRIMINATOR = 4;
+
+export type SetDelegateInstructionArgs = {
+  delegate: PublicKey;
+};
+
+export type SetDelegateInstructionData = {
+  discriminator: number;
+  delegate: PublicKey;
+};
+
+export function encodeSetDelegateInstructionData(
+  args: SetDelegateInstructionArgs
+): Buffer {
+  const data = Buffer.alloc(33);
+  data.writeUInt8(SET_DELEGATE_DISCRIMINATOR, 0);
+  args.delegate.toBuffer().copy(data, 1);
+  return data;
+}
+
+export function decodeSetDelegateInstructionData(
+  bytes: Uint8Array
+): SetDelegateInstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < 33 || data[0] !== SET_DELEGATE_DISCRIMINATOR) {
+    throw new Error('Data is not a SetDelegate instruction.');
+  }
+  return {
+    discriminator: data.readUInt8(0),
+    delegate: new PublicKey(data.subarray(1, 1 + 32)),
+  };
+}
+
+export type SetDelegateInput = {
+  /** Vault owner and payer */
+  owner: PublicKey;
+  /** Vault PDA for lamports */
+  vault?: PublicKey;
+  /** Program Address */
+  program?: PublicKey;
+  /** System Program Address */
+  systemProgram?: PublicKey;
+  delegate: PublicKey;
+};
+
+export function createSetDelegateInstruction(
+  input: SetDelegateInput,
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      {
+        pubkey: input.owner,
+        isSigner: true,
+        isWritable: true,
+      },
+      {
+        pubkey:
+          input.vault ?? findVaultPda({ owner: input.owner }, programId)[0],
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey: input.program ?? programId,
+        isSigner: false,
+        isWritable: false,
+      },
+      {
+        pubkey:
+          input.systemProgram ??
+          new PublicKey('11111111111111111111111111111111'),
+        isSigner: false,
+        isWritable: false,
+      },
+    ],
+    data: encodeSetDelegateInstructionData({ delegate: input.delegate }),
+  });
+}
+
+export type DecodedSetDelegateInstruction = {
+  programId: PublicKey;
+  accounts: {
+    owner: AccountMeta;
+    vault: AccountMeta;
+    program: AccountMeta;
+    systemProgram: AccountMeta;
+  };
+  data: SetDelegateInstructionData;
+};
+
+export function decodeSetDelegateInstruction(
+  instruction: TransactionInstruction
+): DecodedSetDelegateInstruction {
+  if (instruction.keys.length < 4) {
+    throw new Error(
+      `Not enough accounts for SetDelegate: expected 4, got ${instruction.keys.length}.`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+      owner: instruction.keys[0],
+      vault: instruction.keys[1],
+      program: instruction.keys[2],
+      systemProgram: instruction.keys[3],
+    },
+    data: decodeSetDelegateInstructionData(instruction.data),
+  };
+}
+
+export const REVOKE_DELEGATE_DISCRIMINATOR = 5;
+
+export type RevokeDelegateInstructionArgs = Record<string, never>;
+
+export type RevokeDelegateInstructionData = {
+  discriminator: number;
+};
+
+export function encodeRevokeDelegateInstructionData(
+  _args: RevokeDelegateInstructionArgs = {}
+): Buffer {
+  const data = Buffer.alloc(1);
+  data.writeUInt8(REVOKE_DELEGATE_DISCRIMINATOR, 0);
+  return data;
+}
+
+export function decodeRevokeDelegateInstructionData(
+  bytes: Uint8Array
+): RevokeDelegateInstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < 1 || data[0] !== REVOKE_DELEGATE_DISCRIMINATOR) {
+    throw new Error('Data is not a RevokeDelegate instruction.');
+  }
+  return {
+    discriminator: data.readUInt8(0),
+  };
+}
+
+export type RevokeDelegateInput = {
+  /** Vault owner and authority */
+  owner: PublicKey;
+  /** Vault PDA for lamports */
+  vault?: PublicKey;
+  /** Program Address */
+  program?: PublicKey;
+};
+
+export function createRevokeDelegateInstruction(
+  input: RevokeDelegateInput,
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      {
+        pubkey: input.owner,
+        isSigner: true,
+        isWritable: false,
+      },
+      {
+        pubkey:
+          input.vault ?? findVaultPda({ owner: input.owner }, programId)[0],
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey: input.program ?? programId,
+        isSigner: false,
+        isWritable: false,
+      },
+    ],
+    data: encodeRevokeDelegateInstructionData(),
+  });
+}
+
+export type DecodedRevokeDelegateInstruction = {
+  programId: PublicKey;
+  accounts: {
+    owner: AccountMeta;
+    vault: AccountMeta;
+    program: AccountMeta;
+  };
+  data: RevokeDelegateInstructionData;
+};
+
+export function decodeRevokeDelegateInstruction(
+  instruction: TransactionInstruction
+): DecodedRevokeDelegateInstruction {
+  if (instruction.keys.length < 3) {
+    throw new Error(
+      `Not enough accounts for RevokeDelegate: expected 3, got ${instruction.keys.length}.`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+      owner: instruction.keys[0],
+      vault: instruction.keys[1],
+      program: instruction.keys[2],
+    },
+    data: decodeRevokeDelegateInstructionData(instruction.data),
+  };
+}
+
+export const DELEGATE_WITHDRAW_DISCRIMINATOR = 6;
+
+export type DelegateWithdrawInstructionArgs = {
+  amount: number | bigint;
+};
+
+export type DelegateWithdrawInstructionData = {
+  discriminator: number;
+  amount: bigint;
+};
+
+export function encodeDelegateWithdrawInstructionData(
+  args: DelegateWithdrawInstructionArgs
+): Buffer {
+  const data = Buffer.alloc(9);
+  data.writeUInt8(DELEGATE_WITHDRAW_DISCRIMINATOR, 0);
+  data.writeBigUInt64LE(BigInt(args.amount), 1);
+  return data;
+}
+
+export function decodeDelegateWithdrawInstructionData(
+  bytes: Uint8Array
+): DelegateWithdrawInstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < 9 || data[0] !== DELEGATE_WITHDRAW_DISCRIMINATOR) {
+    throw new Error('Data is not a DelegateWithdraw instruction.');
+  }
+  return {
+    discriminator: data.readUInt8(0),
+    amount: data.readBigUInt64LE(1),
+  };
+}
+
+export type DelegateWithdrawInput = {
+  /** Vault owner and withdrawal recipient */
+  owner: PublicKey;
+  /** Vault PDA for lamports */
+  vault?: PublicKey;
+  /** Vault delegate */
+  delegate: PublicKey;
+  /** Program Address */
+  program?: PublicKey;
+  amount: number | bigint;
+};
+
+export function createDelegateWithdrawInstruction(
+  input: DelegateWithdrawInput,
+  programId: PublicKey = PINOCCHIO_DEMO_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      {
+        pubkey: input.owner,
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey:
+          input.vault ?? findVaultPda({ owner: input.owner }, programId)[0],
+        isSigner: false,
+        isWritable: true,
+      },
+      {
+        pubkey: input.delegate,
+        isSigner: true,
+        isWritable: false,
+      },
+      {
+        pubkey: input.program ?? programId,
+        isSigner: false,
+        isWritable: false,
+      },
+    ],
+    data: encodeDelegateWithdrawInstructionData({ amount: input.amount }),
+  });
+}
+
+export type DecodedDelegateWithdrawInstruction = {
+  programId: PublicKey;
+  accounts: {
+    owner: AccountMeta;
+    vault: AccountMeta;
+    delegate: AccountMeta;
+    program: AccountMeta;
+  };
+  data: DelegateWithdrawInstructionData;
+};
+
+export function decodeDelegateWithdrawInstruction(
+  instruction: TransactionInstruction
+): DecodedDelegateWithdrawInstruction {
+  if (instruction.keys.length < 4) {
+    throw new Error(
+      `Not enough accounts for DelegateWithdraw: expected 4, got ${instruction.keys.length}.`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+      owner: instruction.keys[0],
+      vault: instruction.keys[1],
+      delegate: instruction.keys[2],
+      program: instruction.keys[3],
+    },
+    data: decodeDelegateWithdrawInstructionData(instruction.data),
+  };
+}
+
+export function identifyPinocchioDemoInstruction(
+  data: Uint8Array
+): PinocchioDemoInstruction {
+  if (data[0] === DEPOSIT_DISCRIMINATOR) {
+    return PinocchioDemoInstruction.Deposit;
+  }
+  if (data[0] === WITHDRAW_DISCRIMINATOR) {
+    return PinocchioDemoInstruction.Withdraw;
+  }
+  if (data[0] === WITHDRAW_AMOUNT_DISCRIMINATOR) {
+    return PinocchioDemoInstruction.WithdrawAmount;
+  }
+  if (data[0] === CLOSE_VAULT_DISCRIMINATOR) {
+    return PinocchioDemoInstruction.CloseVault;
+  }
+  if (data[0] === SET_DELEGATE_DISCRIMINATOR) {
+    return PinocchioDemoInstruction.SetDelegate;
+  }
+  if (data[0] === REVOKE_DELEGATE_DISCRIMINATOR) {
+    return PinocchioDemoInstruction.RevokeDelegate;
+  }
+  if (data[0] === DELEGATE_WITHDRAW_DISCRIMINATOR) {
+    return PinocchioDemoInstruction.DelegateWithdraw;
+  }
+  throw new Error(
+    'The provided instruction could not be identified as a pinocchio_demo instruction.'
+  );
+}
+
+export type DecodedPinocchioDemoInstruction =
+  | ({
+      instructionType: PinocchioDemoInstruction.Deposit;
+    } & DecodedDepositInstruction)
+  | ({
+      instructionType: PinocchioDemoInstruction.Withdraw;
+    } & DecodedWithdrawInstruction)
+  | ({
+      instructionType: PinocchioDemoInstruction.WithdrawAmount;
+    } & DecodedWithdrawAmountInstruction)
+  | ({
+      instructionType: PinocchioDemoInstruction.CloseVault;
+    } & DecodedCloseVaultInstruction)
+  | ({
+      instructionType: PinocchioDemoInstruction.SetDelegate;
+    } & DecodedSetDelegateInstruction)
+  | ({
+      instructionType: PinocchioDemoInstruction.RevokeDelegate;
+    } & DecodedRevokeDelegateInstruction)
+  | ({
+      instructionType: PinocchioDemoInstruction.DelegateWithdraw;
+    } & DecodedDelegateWithdrawInstruction);
+
+export function decodePinocchioDemoInstruction(
+  instruction: TransactionInstruction
+): DecodedPinocchioDemoInstruction {
+  const instructionType = identifyPinocchioDemoInstruction(instruction.data);
+  switch (instructionType) {
+    case PinocchioDemoInstruction.Deposit:
+      return { instructionType, ...decodeDepositInstruction(instruction) };
+    case PinocchioDemoInstruction.Withdraw:
+      return { instructionType, ...decodeWithdrawInstruction(instruction) };
+    case PinocchioDemoInstruction.WithdrawAmount:
+      return {
+        instructionType,
+        ...decodeWithdrawAmountInstruction(instruction),
+      };
+    case PinocchioDemoInstruction.CloseVault:
+      return { instructionType, ...decodeCloseVaultInstruction(instruction) };
+    case PinocchioDemoInstruction.SetDelegate:
+      return { instructionType, ...decodeSetDelegateInstruction(instruction) };
+    case PinocchioDemoInstruction.RevokeDelegate:
+      return {
+        instructionType,
+        ...decodeRevokeDelegateInstruction(instruction),
+      };
+    case PinocchioDemoInstruction.DelegateWithdraw:
+      return {
+        instructionType,
+        ...decodeDelegateWithdrawInstruction(instruction),
+      };
+  }
+}
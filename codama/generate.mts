@@ -0,0 +1,153 @@
+// Codama pipeline for the pinocchio-demo clients.
+//
+// The Shank IDL only describes instruction layouts and the raw Vault struct.
+// The visitors below add what the program knows but Shank cannot express:
+// the vault PDA, the Vault account's size and PDA, and account defaults so
+// callers only pass the owner. Every renderer runs on the enriched tree.
+//
+// Usage: npx tsx ./codama/generate.mts [js] [legacy] [rust]   (default: js legacy)
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { rootNodeFromAnchor, type AnchorIdl } from "@codama/nodes-from-anchor";
+import { renderVisitor as renderJsVisitor } from "@codama/renderers-js";
+import { renderVisitor as renderRustVisitor } from "@codama/renderers-rust";
+import {
+  accountValueNode,
+  addPdasVisitor,
+  assertIsNode,
+  bottomUpTransformerVisitor,
+  constantPdaSeedNodeFromString,
+  createFromRoot,
+  pdaLinkNode,
+  pdaSeedValueNode,
+  pdaValueNode,
+  programIdValueNode,
+  publicKeyTypeNode,
+  publicKeyValueNode,
+  remainderOptionTypeNode,
+  structFieldTypeNode,
+  updateAccountsVisitor,
+  updateInstructionsVisitor,
+  variablePdaSeedNode,
+  type InstructionAccountNode,
+  type Visitor,
+} from "codama";
+import legacyWeb3Renderer from "./legacyWeb3Renderer.mjs";
+
+const SYSTEM_PROGRAM_ADDRESS = "11111111111111111111111111111111";
+// Keep in sync with `Vault::LEN` in src/state.rs.
+const VAULT_SIZE = 48;
+
+const resolve = (path: string) =>
+  fileURLToPath(new URL(`../${path}`, import.meta.url));
+
+const idl = JSON.parse(
+  readFileSync(resolve("idl/pinocchio_demo.json"), "utf8"),
+) as AnchorIdl;
+const codama = createFromRoot(rootNodeFromAnchor(idl));
+
+// Vault PDA: ["vault", owner].
+codama.update(
+  addPdasVisitor({
+    pinocchioDemo: [
+      {
+        name: "vault",
+        docs: ['Vault PDA derived from the "vault" tag and the owner address'],
+        seeds: [
+          constantPdaSeedNodeFromString("utf8", "vault"),
+          variablePdaSeedNode("owner", publicKeyTypeNode(), [
+            "The address of the vault owner",
+          ]),
+        ],
+      },
+    ],
+  }),
+);
+
+// Vault account: fixed size, lives at the vault PDA.
+codama.update(
+  updateAccountsVisitor({
+    vault: { size: VAULT_SIZE, pda: pdaLinkNode("vault") },
+  }),
+);
+
+// Vaults created before delegation only hold the first 16 bytes, so the
+// delegate is a trailing field that legacy vaults do not have yet.
+codama.update(
+  bottomUpTransformerVisitor([
+    {
+      select: "[accountNode]vault.[structFieldTypeNode]delegate",
+      transform: (node) => {
+        assertIsNode(node, "structFieldTypeNode");
+        return structFieldTypeNode({
+          ...node,
+          type: remainderOptionTypeNode(node.type),
+        });
+      },
+    },
+  ]),
+);
+
+// Every instruction takes the same owner, vault, program (and, when it may
+// transfer from the owner, system program) accounts; only the owner (and
+// the delegate of a `DelegateWithdraw`) has to be provided.
+const accountDefaults: Record<
+  string,
+  Pick<InstructionAccountNode, "defaultValue">
+> = {
+  vault: {
+    defaultValue: pdaValueNode(pdaLinkNode("vault"), [
+      pdaSeedValueNode("owner", accountValueNode("owner")),
+    ]),
+  },
+  program: { defaultValue: programIdValueNode() },
+  systemProgram: {
+    defaultValue: publicKeyValueNode(SYSTEM_PROGRAM_ADDRESS, "systemProgram"),
+  },
+};
+codama.update(
+  updateInstructionsVisitor(
+    Object.fromEntries(
+      codama.getRoot().program.instructions.map((instruction) => [
+        instruction.name,
+        {
+          accounts: Object.fromEntries(
+            instruction.accounts
+              .filter((account) => account.name in accountDefaults)
+              .map((account) => [account.name, accountDefaults[account.name]]),
+          ),
+        },
+      ]),
+    ),
+  ),
+);
+
+// Program errors come from the `VaultError` enum through Shank; an IDL
+// without them predates src/error.rs and would drop the generated errors.
+if (codama.getRoot().program.errors.length === 0) {
+  throw new Error(
+    "idl/pinocchio_demo.json declares no errors; regenerate it with `shank idl -o idl`.",
+  );
+}
+
+const renderers: Record<string, () => Visitor<unknown, "rootNode">> = {
+  js: () => renderJsVisitor(resolve("clients/js/src/generated")),
+  legacy: () => legacyWeb3Renderer(resolve("clients/web3js/src/generated")),
+  rust: () =>
+    renderRustVisitor(resolve("clients/rust/src/generated"), {
+      crateFolder: resolve("clients/rust"),
+      formatCode: true,
+    }),
+};
+
+const targets = process.argv.slice(2);
+for (const target of targets.length > 0 ? targets : ["js", "legacy"]) {
+  const renderer = renderers[target];
+  if (!renderer) {
+    throw new Error(
+      `Unknown client "${target}"; expected one of: ${Object.keys(renderers).join(", ")}.`,
+    );
+  }
+  await codama.accept(renderer());
+  console.log(`Rendered the ${target} client.`);
+}
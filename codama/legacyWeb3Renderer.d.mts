@@ -0,0 +1,6 @@
+import type { Visitor } from "codama";
+
+/** Renders the web3.js v1 client into `path`, replacing its contents. */
+export default function legacyWeb3Renderer(
+  path: string,
+): Visitor<Promise<void>, "rootNode">;
@@ -0,0 +1,455 @@
+// Codama renderer for @solana/web3.js v1 instruction builders and decoders.
+//
+// Runs on the same enriched tree as the Kit renderer (see generate.mts), so
+// both clients share PDAs, account defaults and instruction layouts.
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { camelCase, pascalCase, rootNodeVisitor, snakeCase } from "codama";
+import * as estreePlugin from "prettier/plugins/estree";
+import * as typeScriptPlugin from "prettier/plugins/typescript";
+import { format } from "prettier/standalone";
+
+const HEADER = `/**
+ * This code was AUTOGENERATED using the Codama library.
+ * Please DO NOT EDIT THIS FILE, instead use visitors
+ * to add features, then rerun Codama to update it.
+ *
+ * @see https://github.com/codama-idl/codama
+ */`;
+
+// Same options as the Kit renderer, so both generated folders look alike.
+const PRETTIER_OPTIONS = {
+  arrowParens: "always",
+  parser: "typescript",
+  plugins: [estreePlugin, typeScriptPlugin],
+  printWidth: 80,
+  semi: true,
+  singleQuote: true,
+  tabWidth: 2,
+  trailingComma: "es5",
+  useTabs: false,
+};
+
+const NUMBER_FORMATS = {
+  u8: { size: 1, write: "writeUInt8", read: "readUInt8", bigint: false },
+  u16: { size: 2, write: "writeUInt16LE", read: "readUInt16LE", bigint: false },
+  u32: { size: 4, write: "writeUInt32LE", read: "readUInt32LE", bigint: false },
+  u64: {
+    size: 8,
+    write: "writeBigUInt64LE",
+    read: "readBigUInt64LE",
+    bigint: true,
+  },
+  i8: { size: 1, write: "writeInt8", read: "readInt8", bigint: false },
+  i16: { size: 2, write: "writeInt16LE", read: "readInt16LE", bigint: false },
+  i32: { size: 4, write: "writeInt32LE", read: "readInt32LE", bigint: false },
+  i64: {
+    size: 8,
+    write: "writeBigInt64LE",
+    read: "readBigInt64LE",
+    bigint: true,
+  },
+};
+
+/**
+ * Describes how to size, encode and decode a type node with Buffer methods.
+ * Only fixed-size types are supported; anything else fails the render so the
+ * two clients cannot silently disagree.
+ */
+function getTypeManifest(type, context) {
+  if (type.kind === "numberTypeNode") {
+    const numberFormat = NUMBER_FORMATS[type.format];
+    if (!numberFormat || (type.endian ?? "le") !== "le") {
+      throw new Error(`Unsupported number format in ${context}.`);
+    }
+    return {
+      size: numberFormat.size,
+      looseType: numberFormat.bigint ? "number | bigint" : "number",
+      strictType: numberFormat.bigint ? "bigint" : "number",
+      encode: (value, offset) =>
+        `data.${numberFormat.write}(${numberFormat.bigint ? `BigInt(${value})` : value}, ${offset});`,
+      decode: (offset) => `data.${numberFormat.read}(${offset})`,
+    };
+  }
+  if (type.kind === "publicKeyTypeNode") {
+    return {
+      size: 32,
+      looseType: "PublicKey",
+      strictType: "PublicKey",
+      encode: (value, offset) => `${value}.toBuffer().copy(data, ${offset});`,
+      decode: (offset) =>
+        `new PublicKey(data.subarray(${offset}, ${offset} + 32))`,
+    };
+  }
+  if (type.kind === "fixedSizeTypeNode" && type.type.kind === "bytesTypeNode") {
+    return {
+      size: type.size,
+      looseType: "Uint8Array",
+      strictType: "Uint8Array",
+      encode: (value, offset) => `data.set(${value}, ${offset});`,
+      decode: (offset) =>
+        `Uint8Array.from(data.subarray(${offset}, ${offset} + ${type.size}))`,
+    };
+  }
+  throw new Error(`Unsupported type "${type.kind}" in ${context}.`);
+}
+
+function renderDocs(docs, indent = "") {
+  if (!docs || docs.length === 0) {
+    return "";
+  }
+  if (docs.length === 1) {
+    return `${indent}/** ${docs[0]} */\n`;
+  }
+  return `${indent}/**\n${docs.map((line) => `${indent} * ${line}`).join("\n")}\n${indent} */\n`;
+}
+
+function renderSeed(seed, seedsVariable) {
+  if (seed.kind === "constantPdaSeedNode") {
+    if (
+      seed.type.kind === "stringTypeNode" &&
+      seed.value.kind === "stringValueNode"
+    ) {
+      return `Buffer.from('${seed.value.string}', '${seed.type.encoding}')`;
+    }
+    if (seed.value.kind === "programIdValueNode") {
+      return "programId.toBuffer()";
+    }
+    throw new Error("Unsupported constant PDA seed.");
+  }
+  if (seed.type.kind === "publicKeyTypeNode") {
+    return `${seedsVariable}.${camelCase(seed.name)}.toBuffer()`;
+  }
+  throw new Error(`Unsupported PDA seed "${seed.name}".`);
+}
+
+function renderPda(pda, programIdConstant) {
+  const name = pascalCase(pda.name);
+  const variableSeeds = pda.seeds.filter(
+    (seed) => seed.kind === "variablePdaSeedNode",
+  );
+  const seedsType = `{ ${variableSeeds
+    .map((seed) => `${camelCase(seed.name)}: PublicKey`)
+    .join("; ")} }`;
+  const seedsParameter = variableSeeds.length > 0 ? "seeds" : "_seeds";
+  return `${renderDocs(pda.docs)}export function find${name}Pda(
+  ${seedsParameter}: ${seedsType},
+  programId: PublicKey = ${programIdConstant}
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [${pda.seeds.map((seed) => renderSeed(seed, "seeds")).join(", ")}],
+    programId
+  );
+}`;
+}
+
+function renderAccount(account) {
+  const name = pascalCase(account.name);
+  const fields = account.data.fields.map((field, index, { length }) => {
+    // A trailing remainder option is a field older accounts do not have yet.
+    const isRemainderOption = field.type.kind === "remainderOptionTypeNode";
+    if (isRemainderOption && index !== length - 1) {
+      throw new Error(
+        `Only the last field of account "${account.name}" can be a remainder option.`,
+      );
+    }
+    return {
+      field,
+      isRemainderOption,
+      manifest: getTypeManifest(
+        isRemainderOption ? field.type.item : field.type,
+        `account "${account.name}"`,
+      ),
+    };
+  });
+  let offset = 0;
+  let minimumSize = 0;
+  const decoders = fields.map(({ field, isRemainderOption, manifest }) => {
+    const decode = isRemainderOption
+      ? `data.length > ${offset} ? ${manifest.decode(offset)} : null`
+      : manifest.decode(offset);
+    const line = `    ${camelCase(field.name)}: ${decode},`;
+    offset += manifest.size;
+    if (!isRemainderOption) {
+      minimumSize = offset;
+    }
+    return line;
+  });
+  return `export const ${snakeCase(account.name).toUpperCase()}_SIZE = ${offset};
+
+${renderDocs(account.docs)}export type ${name} = {
+${fields
+  .map(
+    ({ field, isRemainderOption, manifest }) =>
+      `${renderDocs(field.docs, "  ")}  ${camelCase(field.name)}: ${manifest.strictType}${isRemainderOption ? " | null" : ""};`,
+  )
+  .join("\n")}
+};
+
+export function decode${name}(data: Buffer): ${name} {
+  if (data.length < ${minimumSize}) {
+    throw new Error(
+      \`Expected at least ${minimumSize} bytes for ${name}, got \${data.length}.\`
+    );
+  }
+  return {
+${decoders.join("\n")}
+  };
+}`;
+}
+
+function getDefaultValueExpression(account, instruction) {
+  const value = account.defaultValue;
+  if (!value) {
+    return null;
+  }
+  if (value.kind === "publicKeyValueNode") {
+    return `new PublicKey('${value.publicKey}')`;
+  }
+  if (value.kind === "programIdValueNode") {
+    return "programId";
+  }
+  if (value.kind === "pdaValueNode" && value.pda.kind === "pdaLinkNode") {
+    const seeds = value.seeds.map((seed) => {
+      if (seed.value.kind !== "accountValueNode") {
+        throw new Error(
+          `Unsupported seed value for "${account.name}" in "${instruction.name}".`,
+        );
+      }
+      return `${camelCase(seed.name)}: input.${camelCase(seed.value.name)}`;
+    });
+    return `find${pascalCase(value.pda.name)}Pda({ ${seeds.join(", ")} }, programId)[0]`;
+  }
+  throw new Error(
+    `Unsupported default value "${value.kind}" for "${account.name}" in "${instruction.name}".`,
+  );
+}
+
+function renderInstruction(instruction, programIdConstant) {
+  const name = pascalCase(instruction.name);
+  const constantPrefix = snakeCase(instruction.name).toUpperCase();
+  const context = `instruction "${instruction.name}"`;
+  const discriminatorArgument = instruction.arguments.find(
+    (argument) => argument.name === "discriminator",
+  );
+  if (discriminatorArgument?.defaultValue?.kind !== "numberValueNode") {
+    throw new Error(`Missing discriminator in ${context}.`);
+  }
+  const discriminator = discriminatorArgument.defaultValue.number;
+  const args = instruction.arguments.map((argument) => ({
+    argument,
+    manifest: getTypeManifest(argument.type, context),
+  }));
+  const userArgs = args.filter(
+    ({ argument }) => argument.defaultValueStrategy !== "omitted",
+  );
+  const dataSize = args.reduce((size, { manifest }) => size + manifest.size, 0);
+
+  let offset = 0;
+  const encoders = [];
+  const decoders = [];
+  for (const { argument, manifest } of args) {
+    const value =
+      argument.defaultValueStrategy === "omitted"
+        ? `${constantPrefix}_DISCRIMINATOR`
+        : `args.${camelCase(argument.name)}`;
+    encoders.push(`  ${manifest.encode(value, offset)}`);
+    decoders.push(
+      `    ${camelCase(argument.name)}: ${manifest.decode(offset)},`,
+    );
+    offset += manifest.size;
+  }
+
+  const accountInputs = instruction.accounts.map(
+    (account) =>
+      `${renderDocs(account.docs, "  ")}  ${camelCase(account.name)}${account.defaultValue ? "?" : ""}: PublicKey;`,
+  );
+  const argInputs = userArgs.map(
+    ({ argument, manifest }) =>
+      `${renderDocs(argument.docs, "  ")}  ${camelCase(argument.name)}: ${manifest.looseType};`,
+  );
+  const dataType = args.map(
+    ({ argument, manifest }) =>
+      `  ${camelCase(argument.name)}: ${manifest.strictType};`,
+  );
+  const argsType =
+    userArgs.length > 0
+      ? `{\n${userArgs.map(({ argument, manifest }) => `  ${camelCase(argument.name)}: ${manifest.looseType};`).join("\n")}\n}`
+      : "Record<string, never>";
+
+  const keys = instruction.accounts.map((account) => {
+    const defaultValue = getDefaultValueExpression(account, instruction);
+    const pubkey = defaultValue
+      ? `input.${camelCase(account.name)} ?? ${defaultValue}`
+      : `input.${camelCase(account.name)}`;
+    return `      {
+        pubkey: ${pubkey},
+        isSigner: ${account.isSigner === true},
+        isWritable: ${account.isWritable},
+      },`;
+  });
+
+  return `export const ${constantPrefix}_DISCRIMINATOR = ${discriminator};
+
+export type ${name}InstructionArgs = ${argsType};
+
+export type ${name}InstructionData = {
+${dataType.join("\n")}
+};
+
+export function encode${name}InstructionData(${userArgs.length > 0 ? "" : "_"}args: ${name}InstructionArgs${userArgs.length > 0 ? "" : " = {}"}): Buffer {
+  const data = Buffer.alloc(${dataSize});
+${encoders.join("\n")}
+  return data;
+}
+
+export function decode${name}InstructionData(
+  bytes: Uint8Array
+): ${name}InstructionData {
+  const data = Buffer.from(bytes);
+  if (data.length < ${dataSize} || data[0] !== ${constantPrefix}_DISCRIMINATOR) {
+    throw new Error('Data is not a ${name} instruction.');
+  }
+  return {
+${decoders.join("\n")}
+  };
+}
+
+export type ${name}Input = {
+${[...accountInputs, ...argInputs].join("\n")}
+};
+
+${renderDocs(instruction.docs)}export function create${name}Instruction(
+  input: ${name}Input,
+  programId: PublicKey = ${programIdConstant}
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+${keys.join("\n")}
+    ],
+    data: encode${name}InstructionData(${userArgs.length > 0 ? `{ ${userArgs.map(({ argument }) => `${camelCase(argument.name)}: input.${camelCase(argument.name)}`).join(", ")} }` : ""}),
+  });
+}
+
+export type Decoded${name}Instruction = {
+  programId: PublicKey;
+  accounts: {
+${instruction.accounts.map((account) => `    ${camelCase(account.name)}: AccountMeta;`).join("\n")}
+  };
+  data: ${name}InstructionData;
+};
+
+export function decode${name}Instruction(
+  instruction: TransactionInstruction
+): Decoded${name}Instruction {
+  if (instruction.keys.length < ${instruction.accounts.length}) {
+    throw new Error(
+      \`Not enough accounts for ${name}: expected ${instruction.accounts.length}, got \${instruction.keys.length}.\`
+    );
+  }
+  return {
+    programId: instruction.programId,
+    accounts: {
+${instruction.accounts.map((account, index) => `      ${camelCase(account.name)}: instruction.keys[${index}],`).join("\n")}
+    },
+    data: decode${name}InstructionData(instruction.data),
+  };
+}`;
+}
+
+function renderErrors(program) {
+  if (program.errors.length === 0) {
+    return [];
+  }
+  const programName = pascalCase(program.name);
+  const prefix = `${snakeCase(program.name).toUpperCase()}_ERROR__`;
+  const constantName = (error) =>
+    `${prefix}${snakeCase(error.name).toUpperCase()}`;
+  return [
+    program.errors
+      .map(
+        (error) => `/** ${pascalCase(error.name)}: ${error.message} */
+export const ${constantName(error)} = 0x${error.code.toString(16)}; // ${error.code}`,
+      )
+      .join("\n"),
+    `export type ${programName}Error =
+${program.errors.map((error) => `  | typeof ${constantName(error)}`).join("\n")};`,
+    `const ${camelCase(program.name)}ErrorMessages: Record<${programName}Error, string> = {
+${program.errors.map((error) => `  [${constantName(error)}]: ${JSON.stringify(error.message)},`).join("\n")}
+};`,
+    `/**
+ * Returns the message of a ${programName} custom error code, as found in
+ * \`{ InstructionError: [index, { Custom: code }] }\`, or \`undefined\` for
+ * codes the program does not define.
+ */
+export function get${programName}ErrorMessage(code: number): string | undefined {
+  return ${camelCase(program.name)}ErrorMessages[code as ${programName}Error];
+}`,
+  ];
+}
+
+function renderProgram(program) {
+  const programName = pascalCase(program.name);
+  const constantName = `${snakeCase(program.name).toUpperCase()}_PROGRAM_ID`;
+  const instructionNames = program.instructions.map((instruction) =>
+    pascalCase(instruction.name),
+  );
+  const sections = [
+    HEADER,
+    "import {\n  PublicKey,\n  TransactionInstruction,\n  type AccountMeta,\n} from '@solana/web3.js';",
+    `export const ${constantName} = new PublicKey(\n  '${program.publicKey}'\n);`,
+    `export enum ${programName}Instruction {\n${instructionNames.map((name) => `  ${name},`).join("\n")}\n}`,
+    ...program.pdas.map((pda) => renderPda(pda, constantName)),
+    ...program.accounts.map(renderAccount),
+    ...renderErrors(program),
+    ...program.instructions.map((instruction) =>
+      renderInstruction(instruction, constantName),
+    ),
+    `export function identify${programName}Instruction(
+  data: Uint8Array
+): ${programName}Instruction {
+${program.instructions
+  .map(
+    (instruction) =>
+      `  if (data[0] === ${snakeCase(instruction.name).toUpperCase()}_DISCRIMINATOR) {
+    return ${programName}Instruction.${pascalCase(instruction.name)};
+  }`,
+  )
+  .join("\n")}
+  throw new Error('The provided instruction could not be identified as a ${snakeCase(program.name)} instruction.');
+}`,
+    `export type Decoded${programName}Instruction =
+${instructionNames
+  .map(
+    (name) =>
+      `  | ({
+      instructionType: ${programName}Instruction.${name};
+    } & Decoded${name}Instruction)`,
+  )
+  .join("\n")};`,
+    `export function decode${programName}Instruction(
+  instruction: TransactionInstruction
+): Decoded${programName}Instruction {
+  const instructionType = identify${programName}Instruction(instruction.data);
+  switch (instructionType) {
+${instructionNames
+  .map(
+    (name) => `    case ${programName}Instruction.${name}:
+      return { instructionType, ...decode${name}Instruction(instruction) };`,
+  )
+  .join("\n")}
+  }
+}`,
+  ];
+  return `${sections.join("\n\n")}\n`;
+}
+
+export default function legacyWeb3Renderer(path) {
+  return rootNodeVisitor(async (root) => {
+    const code = await format(renderProgram(root.program), PRETTIER_OPTIONS);
+    rmSync(path, { recursive: true, force: true });
+    mkdirSync(path, { recursive: true });
+    writeFileSync(join(path, "index.ts"), code);
+  });
+}
@@ -0,0 +1,40 @@
+// error.rs
+// Pinocchio 演示程序 - 错误模块
+// 这个文件定义了程序自定义的错误码
+
+use pinocchio::program_error::ProgramError; // 程序错误类型
+use thiserror::Error; // 错误派生宏，Shank 据此将错误写入 IDL
+
+/// vault 程序的自定义错误
+///
+/// 错误码从 6000 开始，避免与系统程序的自定义错误码（0..=8）冲突：
+/// CPI 失败时，系统程序的错误码会以当前指令的索引返回给客户端
+#[derive(Clone, Copy, Debug, Eq, PartialEq, Error)]
+pub enum VaultError {
+    /// 所有者没有签名
+    #[error("Vault owner must sign the transaction")]
+    OwnerNotSigner = 6000,
+
+    /// vault 地址不是所有者的 PDA
+    #[error("Vault address does not match the owner's vault PDA")]
+    InvalidVaultAddress = 6001,
+
+    /// vault 账户不归程序所有
+    #[error("Vault account is not owned by the vault program")]
+    VaultNotOwnedByProgram = 6002,
+
+    /// vault 中租金最低限额以上的余额不足
+    #[error("Vault does not hold enough lamports above its rent-exempt minimum")]
+    InsufficientVaultFunds = 6003,
+
+    /// 签名者不是 vault 记录的委托人（或委托已被撤销）
+    #[error("Signer is not the vault's delegate")]
+    UnauthorizedDelegate = 6004,
+}
+
+/// 将自定义错误转换为 `ProgramError::Custom`
+impl From<VaultError> for ProgramError {
+    fn from(error: VaultError) -> Self {
+        ProgramError::Custom(error as u32)
+    }
+}
@@ -4,7 +4,6 @@
 
 // 导入 Rust 核心库组件
 use core::convert::TryFrom; // 用于实现类型转换 trait
-use core::mem::size_of; // 用于获取类型大小
 
 // 导入 pinocchio 框架组件
 use pinocchio::{
@@ -19,6 +18,9 @@ use pinocchio_log::log; // 日志记录功能
 use pinocchio_system::instructions::{CreateAccount, Transfer as SystemTransfer}; // 系统指令：创建账户和转账
 use shank::ShankInstruction; // Shank 指令宏，用于生成 IDL
 
+use crate::error::VaultError; // 程序自定义错误
+use crate::state::Vault; // vault 账户数据布局
+
 /// Shank IDL facade 枚举，描述所有程序指令及其所需的账户
 /// 这个枚举仅用于 IDL（接口定义语言）生成，不会影响运行时行为
 /// 它为外部客户端（如前端应用）提供程序的接口定义
@@ -44,6 +46,60 @@ pub enum ProgramIx {
     #[account(1, writable, name = "vault", desc = "Vault PDA for lamports")]
     #[account(2, name = "program", desc = "Program Address")]
     Withdraw {},
+
+    /// 从 vault 中提取指定数量的 lamports 回所有者
+    /// 这个指令允许用户部分取款，同时保持 vault 的租金免除状态
+    #[account(
+        0,
+        signer,
+        writable,
+        name = "owner",
+        desc = "Vault owner and authority"
+    )]
+    #[account(1, writable, name = "vault", desc = "Vault PDA for lamports")]
+    #[account(2, name = "program", desc = "Program Address")]
+    WithdrawAmount { amount: u64 },
+
+    /// 关闭 vault 并将包括租金在内的所有 lamports 返还给所有者
+    /// 这个指令允许用户回收创建 vault 时支付的租金
+    #[account(
+        0,
+        signer,
+        writable,
+        name = "owner",
+        desc = "Vault owner and rent recipient"
+    )]
+    #[account(1, writable, name = "vault", desc = "Vault PDA for lamports")]
+    #[account(2, name = "program", desc = "Program Address")]
+    CloseVault {},
+
+    /// 为 vault 设置委托取款人，替换之前的委托人
+    /// 旧版 16 字节的 vault 会被扩容，新增的租金由所有者支付
+    #[account(0, signer, writable, name = "owner", desc = "Vault owner and payer")]
+    #[account(1, writable, name = "vault", desc = "Vault PDA for lamports")]
+    #[account(2, name = "program", desc = "Program Address")]
+    #[account(3, name = "system_program", desc = "System Program Address")]
+    SetDelegate { delegate: Pubkey },
+
+    /// 撤销 vault 的委托取款人
+    /// 没有委托人时同样成功
+    #[account(0, signer, name = "owner", desc = "Vault owner and authority")]
+    #[account(1, writable, name = "vault", desc = "Vault PDA for lamports")]
+    #[account(2, name = "program", desc = "Program Address")]
+    RevokeDelegate {},
+
+    /// 由委托人从 vault 中提取指定数量的 lamports 回所有者
+    /// 这个指令允许自动化服务代替所有者取款，资金只能流向所有者
+    #[account(
+        0,
+        writable,
+        name = "owner",
+        desc = "Vault owner and withdrawal recipient"
+    )]
+    #[account(1, writable, name = "vault", desc = "Vault PDA for lamports")]
+    #[account(2, signer, name = "delegate", desc = "Vault delegate")]
+    #[account(3, name = "program", desc = "Program Address")]
+    DelegateWithdraw { amount: u64 },
 }
 
 /// 从指令数据中解析 u64 金额
@@ -105,14 +161,11 @@ fn derive_vault(owner: &AccountInfo) -> (Pubkey, u8) {
 fn ensure_vault_exists(owner: &AccountInfo, vault: &AccountInfo) -> ProgramResult {
     // 验证所有者是否为签名者
     if !owner.is_signer() {
-        return Err(ProgramError::InvalidAccountOwner);
+        return Err(VaultError::OwnerNotSigner.into());
     }
 
     // 检查 vault 是否为空（不存在）
     if vault.lamports() == 0 {
-        // 账户鉴别器大小，用于存储账户类型信息
-        const ACCOUNT_DISCRIMINATOR_SIZE: usize = 8;
-
         // 派生 vault PDA 和 bump seed
         let (_pda, bump) = derive_vault(owner);
 
@@ -124,18 +177,15 @@ fn ensure_vault_exists(owner: &AccountInfo, vault: &AccountInfo) -> ProgramResul
         ];
         let signer = Signer::from(&signer_seeds);
 
-        // 计算 vault 账户所需的大小
-        const VAULT_SIZE: usize = ACCOUNT_DISCRIMINATOR_SIZE + size_of::<u64>();
-
         // 获取免除租金所需的最低 lamports 余额
-        let needed_lamports = Rent::get()?.minimum_balance(VAULT_SIZE);
+        let needed_lamports = Rent::get()?.minimum_balance(Vault::LEN);
 
         // 创建 vault 账户
         CreateAccount {
             from: owner,               // 付款账户
             to: vault,                 // 目标账户（vault）
             lamports: needed_lamports, // 初始 lamports 金额
-            space: VAULT_SIZE as u64,  // 账户空间大小
+            space: Vault::LEN as u64,  // 账户空间大小
             owner: &crate::ID,         // 账户所有者（当前程序）
         }
         .invoke_signed(&[signer])?; // 使用 PDA 签名执行创建操作
@@ -144,7 +194,7 @@ fn ensure_vault_exists(owner: &AccountInfo, vault: &AccountInfo) -> ProgramResul
     } else {
         // 如果 vault 已经存在，验证其所有权是否正确
         if !vault.is_owned_by(&crate::ID) {
-            return Err(ProgramError::InvalidAccountOwner);
+            return Err(VaultError::VaultNotOwnedByProgram.into());
         }
 
         log!("Vault already exists"); // 记录存在日志
@@ -153,6 +203,114 @@ fn ensure_vault_exists(owner: &AccountInfo, vault: &AccountInfo) -> ProgramResul
     Ok(())
 }
 
+/// 验证取款所需的账户
+///
+/// # 参数
+/// - `owner`: 所有者的账户信息（必须是签名者）
+/// - `vault`: vault 的账户信息
+///
+/// # 返回值
+/// - `ProgramResult`: 验证结果
+///
+/// # 功能
+/// - 验证所有者签名
+/// - 验证 vault 所有权
+/// - 验证 vault PDA 的正确性
+fn validate_withdraw_accounts(owner: &AccountInfo, vault: &AccountInfo) -> ProgramResult {
+    // 验证所有者是否为签名者
+    if !owner.is_signer() {
+        return Err(VaultError::OwnerNotSigner.into());
+    }
+
+    // 验证 vault 是否归程序所有
+    if !vault.is_owned_by(&crate::ID) {
+        return Err(VaultError::VaultNotOwnedByProgram.into());
+    }
+
+    // 验证提供的 vault 账户是否是此所有者的正确 PDA
+    let (expected_vault_pda, _bump) = derive_vault(owner);
+    if vault.key() != &expected_vault_pda {
+        return Err(VaultError::InvalidVaultAddress.into());
+    }
+
+    Ok(())
+}
+
+/// 验证委托取款所需的账户
+///
+/// # 参数
+/// - `owner`: 所有者的账户信息（用于派生 PDA，无需签名）
+/// - `vault`: vault 的账户信息
+/// - `delegate`: 委托人的账户信息（必须是签名者）
+///
+/// # 返回值
+/// - `ProgramResult`: 验证结果
+///
+/// # 功能
+/// - 验证委托人签名
+/// - 验证 vault 所有权和 PDA 的正确性
+/// - 验证签名者是 vault 数据中记录的委托人
+fn validate_delegate_accounts(
+    owner: &AccountInfo,
+    vault: &AccountInfo,
+    delegate: &AccountInfo,
+) -> ProgramResult {
+    // 验证委托人是否为签名者
+    if !delegate.is_signer() {
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+
+    // 验证 vault 是否归程序所有
+    if !vault.is_owned_by(&crate::ID) {
+        return Err(VaultError::VaultNotOwnedByProgram.into());
+    }
+
+    // 验证提供的 vault 账户是否是此所有者的正确 PDA
+    let (expected_vault_pda, _bump) = derive_vault(owner);
+    if vault.key() != &expected_vault_pda {
+        return Err(VaultError::InvalidVaultAddress.into());
+    }
+
+    // 验证签名者是当前记录的委托人（撤销后不再有委托人）
+    let data = vault.try_borrow_data()?;
+    if Vault::delegate(&data) != Some(delegate.key()) {
+        return Err(VaultError::UnauthorizedDelegate.into());
+    }
+
+    Ok(())
+}
+
+/// 从 vault 向所有者转移 lamports
+///
+/// # 参数
+/// - `vault`: 来源 vault 账户（必须归程序所有）
+/// - `owner`: 目标所有者账户
+/// - `amount`: 转移金额（lamports）
+///
+/// # 返回值
+/// - `ProgramResult`: 操作结果
+fn transfer_from_vault(vault: &AccountInfo, owner: &AccountInfo, amount: u64) -> ProgramResult {
+    // 使用作用域来管理 lamports 的可变借用
+
+    // 第一步：从 vault 中扣除金额
+    {
+        let mut vault_lamports = vault.try_borrow_mut_lamports()?;
+        *vault_lamports = vault_lamports
+            .checked_sub(amount)
+            .ok_or(ProgramError::InsufficientFunds)?;
+    }
+
+    // 第二步：向所有者账户添加金额
+    {
+        let mut owner_lamports = owner.try_borrow_mut_lamports()?;
+        *owner_lamports = owner_lamports
+            .checked_add(amount)
+            .ok_or(ProgramError::InsufficientFunds)?;
+    }
+
+    Ok(())
+}
+
 /// 存款指令结构体
 /// 表示一个存款操作，包含相关的账户信息和存款金额
 pub struct Deposit<'a> {
@@ -264,21 +422,8 @@ impl<'a> Withdraw<'a> {
     pub fn process(self) -> ProgramResult {
         let Withdraw { owner, vault } = self;
 
-        // 验证所有者是否为签名者
-        if !owner.is_signer() {
-            return Err(ProgramError::InvalidAccountOwner);
-        }
-
-        // 验证 vault 是否归程序所有
-        if !vault.is_owned_by(&crate::ID) {
-            return Err(ProgramError::InvalidAccountOwner);
-        }
-
-        // 验证提供的 vault 账户是否是此所有者的正确 PDA
-        let (expected_vault_pda, _bump) = derive_vault(owner);
-        if vault.key() != &expected_vault_pda {
-            return Err(ProgramError::InvalidAccountData);
-        }
+        // 验证所有者签名、vault 所有权和 PDA
+        validate_withdraw_accounts(owner, vault)?;
 
         // 计算在保持账户免除租金的同时可以提取的金额
         let data_len = vault.data_len(); // vault 账户的数据长度
@@ -288,30 +433,14 @@ impl<'a> Withdraw<'a> {
         // 检查是否有足够的余额可以提取
         if current <= min_balance {
             // 没有可提取的金额；保持行为严格以避免违反租金规定
-            return Err(ProgramError::InsufficientFunds);
+            return Err(VaultError::InsufficientVaultFunds.into());
         }
 
         // 计算实际可提取金额（当前余额减去租金最低限额）
         let withdraw_amount = current - min_balance;
 
         // 从 vault 向所有者转移 lamports
-        // 使用作用域来管理 lamports 的可变借用
-
-        // 第一步：从 vault 中扣除金额
-        {
-            let mut vault_lamports = vault.try_borrow_mut_lamports()?;
-            *vault_lamports = vault_lamports
-                .checked_sub(withdraw_amount)
-                .ok_or(ProgramError::InsufficientFunds)?;
-        }
-
-        // 第二步：向所有者账户添加金额
-        {
-            let mut owner_lamports = owner.try_borrow_mut_lamports()?;
-            *owner_lamports = owner_lamports
-                .checked_add(withdraw_amount)
-                .ok_or(ProgramError::InsufficientFunds)?;
-        }
+        transfer_from_vault(vault, owner, withdraw_amount)?;
 
         // 记录取款成功日志
         log!("{} lamports withdrawn from vault", withdraw_amount);
@@ -345,3 +474,440 @@ impl<'a> TryFrom<&'a [AccountInfo]> for Withdraw<'a> {
         Ok(Self { owner, vault })
     }
 }
+
+/// 指定金额取款指令结构体
+/// 表示一个部分取款操作，包含相关的账户信息和取款金额
+pub struct WithdrawAmount<'a> {
+    pub owner: &'a AccountInfo, // 取款所有者账户
+    pub vault: &'a AccountInfo, // 来源 vault 账户
+    pub amount: u64,            // 取款金额（lamports）
+}
+
+impl<'a> WithdrawAmount<'a> {
+    /// 指定金额取款指令的标识符（discriminator）
+    /// 在指令数据中第一个字节使用 2 表示指定金额取款指令
+    pub const DISCRIMINATOR: &'a u8 = &2;
+
+    /// 处理指定金额取款指令
+    ///
+    /// 将指定数量的 lamports 从 vault PDA 转移到所有者，同时保持账户的租金免除状态
+    ///
+    /// # 功能
+    /// - 验证所有者签名、vault 所有权和 PDA
+    /// - 验证取款后 vault 余额不低于租金最低限额
+    /// - 执行 lamports 转移
+    /// - 记录取款操作日志
+    ///
+    /// # 返回值
+    /// - `ProgramResult`: 操作结果
+    pub fn process(self) -> ProgramResult {
+        let WithdrawAmount {
+            owner,
+            vault,
+            amount,
+        } = self;
+
+        // 验证所有者签名、vault 所有权和 PDA
+        validate_withdraw_accounts(owner, vault)?;
+
+        // 计算在保持账户免除租金的同时可以提取的金额
+        let data_len = vault.data_len(); // vault 账户的数据长度
+        let min_balance = Rent::get()?.minimum_balance(data_len); // 租金最低余额
+        let available = vault.lamports().saturating_sub(min_balance); // 可提取余额
+
+        // 检查请求的金额是否超过可提取余额
+        if amount > available {
+            return Err(VaultError::InsufficientVaultFunds.into());
+        }
+
+        // 从 vault 向所有者转移 lamports
+        transfer_from_vault(vault, owner, amount)?;
+
+        // 记录取款成功日志
+        log!("{} lamports withdrawn from vault", amount);
+        Ok(())
+    }
+}
+
+/// 为 WithdrawAmount 结构体实现 TryFrom trait
+/// 允许从原始指令数据和账户信息创建 WithdrawAmount 实例
+impl<'a> TryFrom<(&'a [u8], &'a [AccountInfo])> for WithdrawAmount<'a> {
+    type Error = ProgramError;
+
+    /// 从指令数据和账户信息创建 WithdrawAmount 实例
+    ///
+    /// # 参数
+    /// - `value`: 包含指令数据字节切片和账户信息切片的元组
+    ///
+    /// # 返回值
+    /// - `Result<Self, Self::Error>`: 成功时返回 WithdrawAmount 实例，失败时返回错误
+    fn try_from(value: (&'a [u8], &'a [AccountInfo])) -> Result<Self, Self::Error> {
+        let (data, accounts) = value;
+
+        // 验证账户数量是否足够
+        if accounts.len() < 2 {
+            return Err(ProgramError::NotEnoughAccountKeys);
+        }
+
+        // 提取账户信息
+        let owner = &accounts[0]; // 第一个账户是所有者
+        let vault = &accounts[1]; // 第二个账户是 vault
+
+        // 解析取款金额
+        let amount = parse_amount(data)?;
+
+        // 创建并返回 WithdrawAmount 实例
+        Ok(Self {
+            owner,
+            vault,
+            amount,
+        })
+    }
+}
+
+/// 关闭 vault 指令结构体
+/// 表示一个关闭 vault 的操作，包含相关的账户信息
+pub struct CloseVault<'a> {
+    pub owner: &'a AccountInfo, // vault 所有者账户（接收租金）
+    pub vault: &'a AccountInfo, // 要关闭的 vault 账户
+}
+
+impl<'a> CloseVault<'a> {
+    /// 关闭 vault 指令的标识符（discriminator）
+    /// 在指令数据中第一个字节使用 3 表示关闭 vault 指令
+    pub const DISCRIMINATOR: &'a u8 = &3;
+
+    /// 处理关闭 vault 指令
+    ///
+    /// 将 vault PDA 中的所有 lamports（包括租金最低限额）转移到所有者，并关闭账户
+    ///
+    /// # 功能
+    /// - 验证所有者签名、vault 所有权和 PDA
+    /// - 转移 vault 的全部 lamports
+    /// - 清零账户数据并关闭账户
+    /// - 记录关闭操作日志
+    ///
+    /// # 返回值
+    /// - `ProgramResult`: 操作结果
+    pub fn process(self) -> ProgramResult {
+        let CloseVault { owner, vault } = self;
+
+        // 验证所有者签名、vault 所有权和 PDA
+        validate_withdraw_accounts(owner, vault)?;
+
+        // 将包括租金在内的全部余额转移给所有者
+        let amount = vault.lamports();
+        transfer_from_vault(vault, owner, amount)?;
+
+        // 清零账户数据、lamports 和所有者字段，关闭账户
+        vault.close()?;
+
+        // 记录关闭成功日志
+        log!("Vault closed, {} lamports returned to owner", amount);
+        Ok(())
+    }
+}
+
+/// 为 CloseVault 结构体实现 TryFrom trait
+/// 允许从账户信息创建 CloseVault 实例
+impl<'a> TryFrom<&'a [AccountInfo]> for CloseVault<'a> {
+    type Error = ProgramError;
+
+    /// 从账户信息创建 CloseVault 实例
+    ///
+    /// # 参数
+    /// - `accounts`: 账户信息切片
+    ///
+    /// # 返回值
+    /// - `Result<Self, Self::Error>`: 成功时返回 CloseVault 实例，失败时返回错误
+    fn try_from(accounts: &'a [AccountInfo]) -> Result<Self, Self::Error> {
+        // 验证账户数量是否足够
+        if accounts.len() < 2 {
+            return Err(ProgramError::NotEnoughAccountKeys);
+        }
+
+        // 提取账户信息
+        let owner = &accounts[0]; // 第一个账户是所有者
+        let vault = &accounts[1]; // 第二个账户是 vault
+
+        // 创建并返回 CloseVault 实例
+        Ok(Self { owner, vault })
+    }
+}
+
+/// 设置委托人指令结构体
+/// 表示一个设置委托取款人的操作，包含相关的账户信息和委托人公钥
+pub struct SetDelegate<'a> {
+    pub owner: &'a AccountInfo,          // vault 所有者账户（支付扩容租金）
+    pub vault: &'a AccountInfo,          // 目标 vault 账户
+    pub system_program: &'a AccountInfo, // 系统程序账户（扩容时转入租金）
+    pub delegate: Pubkey,                // 委托人公钥
+}
+
+impl<'a> SetDelegate<'a> {
+    /// 设置委托人指令的标识符（discriminator）
+    /// 在指令数据中第一个字节使用 4 表示设置委托人指令
+    pub const DISCRIMINATOR: &'a u8 = &4;
+
+    /// 处理设置委托人指令
+    ///
+    /// # 功能
+    /// - 验证系统程序账户、所有者签名、vault 所有权和 PDA
+    /// - 将旧版 vault 扩容到 `Vault::LEN`，由所有者补足租金
+    /// - 将委托人写入 vault 账户数据
+    /// - 记录设置操作日志
+    ///
+    /// # 返回值
+    /// - `ProgramResult`: 操作结果
+    pub fn process(self) -> ProgramResult {
+        let SetDelegate {
+            owner,
+            vault,
+            system_program,
+            delegate,
+        } = self;
+
+        // 扩容时需要调用系统程序，提前验证以便明确报错
+        if system_program.key() != &pinocchio_system::ID {
+            return Err(ProgramError::IncorrectProgramId);
+        }
+
+        // 验证所有者签名、vault 所有权和 PDA
+        validate_withdraw_accounts(owner, vault)?;
+
+        // 旧版 vault 没有 delegate 字段，需要先扩容
+        let data_len = vault.data_len();
+        if data_len < Vault::LEN {
+            // 所有者补足扩容后的租金差额，vault 的可提取余额保持不变
+            let rent = Rent::get()?;
+            let top_up = rent.minimum_balance(Vault::LEN) - rent.minimum_balance(data_len);
+            SystemTransfer {
+                from: owner,      // 来源账户（所有者）
+                to: vault,        // 目标账户（vault）
+                lamports: top_up, // 租金差额
+            }
+            .invoke()?;
+
+            // 扩容账户数据，新增部分清零
+            vault.resize(Vault::LEN)?;
+
+            log!("Vault resized to {} bytes", Vault::LEN);
+        }
+
+        // 写入委托人公钥
+        let mut data = vault.try_borrow_mut_data()?;
+        data[Vault::DELEGATE_OFFSET..Vault::LEN].copy_from_slice(&delegate);
+
+        // 记录设置成功日志
+        log!("Vault delegate set");
+        Ok(())
+    }
+}
+
+/// 为 SetDelegate 结构体实现 TryFrom trait
+/// 允许从原始指令数据和账户信息创建 SetDelegate 实例
+impl<'a> TryFrom<(&'a [u8], &'a [AccountInfo])> for SetDelegate<'a> {
+    type Error = ProgramError;
+
+    /// 从指令数据和账户信息创建 SetDelegate 实例
+    ///
+    /// # 参数
+    /// - `value`: 包含指令数据字节切片和账户信息切片的元组
+    ///
+    /// # 返回值
+    /// - `Result<Self, Self::Error>`: 成功时返回 SetDelegate 实例，失败时返回错误
+    ///
+    /// # 错误情况
+    /// - 账户数量不足（需要包含第四个账户，即系统程序）
+    /// - 数据长度不等于公钥大小（32字节）
+    /// - 委托人为全 0 公钥（应使用 RevokeDelegate 撤销委托）
+    fn try_from(value: (&'a [u8], &'a [AccountInfo])) -> Result<Self, Self::Error> {
+        let (data, accounts) = value;
+
+        // 验证账户数量是否足够，扩容需要系统程序账户
+        if accounts.len() < 4 {
+            return Err(ProgramError::NotEnoughAccountKeys);
+        }
+
+        // 提取账户信息
+        let owner = &accounts[0]; // 第一个账户是所有者
+        let vault = &accounts[1]; // 第二个账户是 vault
+        let system_program = &accounts[3]; // 第四个账户是系统程序
+
+        // 解析委托人公钥
+        let delegate: Pubkey = data
+            .try_into()
+            .map_err(|_| ProgramError::InvalidInstructionData)?;
+        if delegate == Pubkey::default() {
+            return Err(ProgramError::InvalidInstructionData);
+        }
+
+        // 创建并返回 SetDelegate 实例
+        Ok(Self {
+            owner,
+            vault,
+            system_program,
+            delegate,
+        })
+    }
+}
+
+/// 撤销委托人指令结构体
+/// 表示一个撤销委托取款人的操作，包含相关的账户信息
+pub struct RevokeDelegate<'a> {
+    pub owner: &'a AccountInfo, // vault 所有者账户
+    pub vault: &'a AccountInfo, // 目标 vault 账户
+}
+
+impl<'a> RevokeDelegate<'a> {
+    /// 撤销委托人指令的标识符（discriminator）
+    /// 在指令数据中第一个字节使用 5 表示撤销委托人指令
+    pub const DISCRIMINATOR: &'a u8 = &5;
+
+    /// 处理撤销委托人指令
+    ///
+    /// # 功能
+    /// - 验证所有者签名、vault 所有权和 PDA
+    /// - 将 vault 账户数据中的委托人清零
+    /// - 记录撤销操作日志
+    ///
+    /// # 返回值
+    /// - `ProgramResult`: 操作结果
+    pub fn process(self) -> ProgramResult {
+        let RevokeDelegate { owner, vault } = self;
+
+        // 验证所有者签名、vault 所有权和 PDA
+        validate_withdraw_accounts(owner, vault)?;
+
+        // 旧版 vault 没有 delegate 字段，本身就没有委托人
+        if vault.data_len() >= Vault::LEN {
+            let mut data = vault.try_borrow_mut_data()?;
+            data[Vault::DELEGATE_OFFSET..Vault::LEN].fill(0);
+        }
+
+        // 记录撤销成功日志
+        log!("Vault delegate revoked");
+        Ok(())
+    }
+}
+
+/// 为 RevokeDelegate 结构体实现 TryFrom trait
+/// 允许从账户信息创建 RevokeDelegate 实例
+impl<'a> TryFrom<&'a [AccountInfo]> for RevokeDelegate<'a> {
+    type Error = ProgramError;
+
+    /// 从账户信息创建 RevokeDelegate 实例
+    ///
+    /// # 参数
+    /// - `accounts`: 账户信息切片
+    ///
+    /// # 返回值
+    /// - `Result<Self, Self::Error>`: 成功时返回 RevokeDelegate 实例，失败时返回错误
+    fn try_from(accounts: &'a [AccountInfo]) -> Result<Self, Self::Error> {
+        // 验证账户数量是否足够
+        if accounts.len() < 2 {
+            return Err(ProgramError::NotEnoughAccountKeys);
+        }
+
+        // 提取账户信息
+        let owner = &accounts[0]; // 第一个账户是所有者
+        let vault = &accounts[1]; // 第二个账户是 vault
+
+        // 创建并返回 RevokeDelegate 实例
+        Ok(Self { owner, vault })
+    }
+}
+
+/// 委托取款指令结构体
+/// 表示一个由委托人发起的部分取款操作，资金转回所有者
+pub struct DelegateWithdraw<'a> {
+    pub owner: &'a AccountInfo,    // vault 所有者账户（接收取款）
+    pub vault: &'a AccountInfo,    // 来源 vault 账户
+    pub delegate: &'a AccountInfo, // 委托人账户（必须签名）
+    pub amount: u64,               // 取款金额（lamports）
+}
+
+impl<'a> DelegateWithdraw<'a> {
+    /// 委托取款指令的标识符（discriminator）
+    /// 在指令数据中第一个字节使用 6 表示委托取款指令
+    pub const DISCRIMINATOR: &'a u8 = &6;
+
+    /// 处理委托取款指令
+    ///
+    /// 与 WithdrawAmount 相同，但由 vault 记录的委托人代替所有者签名
+    ///
+    /// # 功能
+    /// - 验证委托人签名、vault 所有权、PDA 和委托关系
+    /// - 验证取款后 vault 余额不低于租金最低限额
+    /// - 执行 lamports 转移（只能转给所有者）
+    /// - 记录取款操作日志
+    ///
+    /// # 返回值
+    /// - `ProgramResult`: 操作结果
+    pub fn process(self) -> ProgramResult {
+        let DelegateWithdraw {
+            owner,
+            vault,
+            delegate,
+            amount,
+        } = self;
+
+        // 验证委托人签名、vault 所有权、PDA 和委托关系
+        validate_delegate_accounts(owner, vault, delegate)?;
+
+        // 计算在保持账户免除租金的同时可以提取的金额
+        let data_len = vault.data_len(); // vault 账户的数据长度
+        let min_balance = Rent::get()?.minimum_balance(data_len); // 租金最低余额
+        let available = vault.lamports().saturating_sub(min_balance); // 可提取余额
+
+        // 检查请求的金额是否超过可提取余额
+        if amount > available {
+            return Err(VaultError::InsufficientVaultFunds.into());
+        }
+
+        // 从 vault 向所有者转移 lamports
+        transfer_from_vault(vault, owner, amount)?;
+
+        // 记录取款成功日志（与所有者取款相同，便于客户端统一解析）
+        log!("{} lamports withdrawn from vault", amount);
+        Ok(())
+    }
+}
+
+/// 为 DelegateWithdraw 结构体实现 TryFrom trait
+/// 允许从原始指令数据和账户信息创建 DelegateWithdraw 实例
+impl<'a> TryFrom<(&'a [u8], &'a [AccountInfo])> for DelegateWithdraw<'a> {
+    type Error = ProgramError;
+
+    /// 从指令数据和账户信息创建 DelegateWithdraw 实例
+    ///
+    /// # 参数
+    /// - `value`: 包含指令数据字节切片和账户信息切片的元组
+    ///
+    /// # 返回值
+    /// - `Result<Self, Self::Error>`: 成功时返回 DelegateWithdraw 实例，失败时返回错误
+    fn try_from(value: (&'a [u8], &'a [AccountInfo])) -> Result<Self, Self::Error> {
+        let (data, accounts) = value;
+
+        // 验证账户数量是否足够
+        if accounts.len() < 3 {
+            return Err(ProgramError::NotEnoughAccountKeys);
+        }
+
+        // 提取账户信息
+        let owner = &accounts[0]; // 第一个账户是所有者
+        let vault = &accounts[1]; // 第二个账户是 vault
+        let delegate = &accounts[2]; // 第三个账户是委托人
+
+        // 解析取款金额
+        let amount = parse_amount(data)?;
+
+        // 创建并返回 DelegateWithdraw 实例
+        Ok(Self {
+            owner,
+            vault,
+            delegate,
+            amount,
+        })
+    }
+}
@@ -28,6 +28,18 @@ pub mod instructions;
 // 重新导出指令模块中的所有公共项，方便外部使用
 pub use instructions::*;
 
+// 导入错误模块
+// error 模块包含程序的自定义错误码
+pub mod error;
+// 重新导出错误模块中的所有公共项
+pub use error::*;
+
+// 导入状态模块
+// state 模块包含程序拥有的账户的数据布局
+pub mod state;
+// 重新导出状态模块中的所有公共项
+pub use state::*;
+
 // 声明程序的唯一标识符
 // 这个 ID 用于在 Solana 区块链上唯一标识这个程序
 // 在部署程序之前需要生成一个新的 ID
@@ -52,6 +64,11 @@ declare_id!("GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG");
 /// - 指令数据的第一个字节作为指令标识符（discriminator）
 /// - 0: 存款指令 (Deposit)
 /// - 1: 取款指令 (Withdraw)
+/// - 2: 指定金额取款指令 (WithdrawAmount)
+/// - 3: 关闭 vault 指令 (CloseVault)
+/// - 4: 设置委托人指令 (SetDelegate)
+/// - 5: 撤销委托人指令 (RevokeDelegate)
+/// - 6: 委托取款指令 (DelegateWithdraw)
 /// - 其他: 无效指令数据错误
 fn process_instruction(
     _program_id: &Pubkey,
@@ -70,6 +87,31 @@ fn process_instruction(
             // 从账户信息创建 Withdraw 结构体并执行处理
             Withdraw::try_from(accounts)?.process()
         }
+        // 处理指定金额取款指令：指令标识符为 2
+        Some((WithdrawAmount::DISCRIMINATOR, data)) => {
+            // 从数据和账户信息创建 WithdrawAmount 结构体并执行处理
+            WithdrawAmount::try_from((data, accounts))?.process()
+        }
+        // 处理关闭 vault 指令：指令标识符为 3
+        Some((CloseVault::DISCRIMINATOR, _)) => {
+            // 从账户信息创建 CloseVault 结构体并执行处理
+            CloseVault::try_from(accounts)?.process()
+        }
+        // 处理设置委托人指令：指令标识符为 4
+        Some((SetDelegate::DISCRIMINATOR, data)) => {
+            // 从数据和账户信息创建 SetDelegate 结构体并执行处理
+            SetDelegate::try_from((data, accounts))?.process()
+        }
+        // 处理撤销委托人指令：指令标识符为 5
+        Some((RevokeDelegate::DISCRIMINATOR, _)) => {
+            // 从账户信息创建 RevokeDelegate 结构体并执行处理
+            RevokeDelegate::try_from(accounts)?.process()
+        }
+        // 处理委托取款指令：指令标识符为 6
+        Some((DelegateWithdraw::DISCRIMINATOR, data)) => {
+            // 从数据和账户信息创建 DelegateWithdraw 结构体并执行处理
+            DelegateWithdraw::try_from((data, accounts))?.process()
+        }
         // 处理无效指令：指令标识符不在支持范围内
         _ => Err(ProgramError::InvalidInstructionData),
     }
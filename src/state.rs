@@ -0,0 +1,52 @@
+// state.rs
+// Pinocchio 演示程序 - 账户状态模块
+// 这个文件定义了程序拥有的账户的数据布局
+
+use core::mem::size_of; // 用于获取类型大小
+
+use pinocchio::pubkey::Pubkey; // 公钥类型
+
+use shank::ShankAccount; // Shank 账户宏，用于生成 IDL
+
+/// 账户鉴别器大小，用于存储账户类型信息
+pub const ACCOUNT_DISCRIMINATOR_SIZE: usize = 8;
+
+/// Vault 账户数据布局
+/// 这个结构体描述了 `ensure_vault_exists` 分配的 48 字节账户空间
+/// 它主要用于 IDL 生成，使客户端能够解码 vault 账户
+///
+/// 早期版本创建的 vault 只有 16 字节（没有 `delegate` 字段），
+/// `SetDelegate` 会在首次设置委托人时将其扩容
+#[derive(ShankAccount)]
+#[repr(C)]
+pub struct Vault {
+    /// 账户鉴别器（创建时全部为 0）
+    pub discriminator: [u8; ACCOUNT_DISCRIMINATOR_SIZE],
+    /// 保留字段，当前程序不会写入
+    pub reserved: u64,
+    /// 委托取款人；全部为 0 表示没有委托人
+    pub delegate: Pubkey,
+}
+
+impl Vault {
+    /// `delegate` 字段在账户数据中的偏移量，也是旧版 vault 的大小
+    pub const DELEGATE_OFFSET: usize = ACCOUNT_DISCRIMINATOR_SIZE + size_of::<u64>();
+
+    /// vault 账户所需的大小（鉴别器 + u64 + 委托人公钥）
+    pub const LEN: usize = Self::DELEGATE_OFFSET + size_of::<Pubkey>();
+
+    /// 从 vault 账户数据中读取委托人
+    ///
+    /// 旧版 16 字节的 vault 或委托人全部为 0 时返回 `None`
+    pub fn delegate(data: &[u8]) -> Option<&Pubkey> {
+        let delegate: &Pubkey = data
+            .get(Self::DELEGATE_OFFSET..Self::LEN)?
+            .try_into()
+            .ok()?;
+        if delegate == &Pubkey::default() {
+            None
+        } else {
+            Some(delegate)
+        }
+    }
+}
@@ -1,63 +1,36 @@
 import {
-  Connection,
   Keypair,
   LAMPORTS_PER_SOL,
   PublicKey,
-  SystemProgram,
   Transaction,
-  TransactionInstruction,
-  sendAndConfirmTransaction,
 } from "@solana/web3.js";
 import { assert } from "chai";
+import {
+  createDepositInstruction,
+  createWithdrawInstruction,
+  getPinocchioDemoErrorMessage,
+  PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+} from "./clients/web3js/src/generated";
+import { startTestHarness, type TestHarness } from "./client/harness";
 
 // 使用实际部署的程序 ID
 const PROGRAM_ID = new PublicKey("GMYuTSUDK5psTjN45KTCWrMNfSdDbRHdnY1zzpgVDYgG");
 
-// 指令枚举
-const Instruction = {
-  Deposit: 0,
-  Withdraw: 1,
-} as const;
-
-// 存款指令数据结构
-class DepositInstruction {
-  amount: bigint;
-
-  constructor(amount: bigint) {
-    this.amount = amount;
-  }
-
-  serialize(): Buffer {
-    const discriminator = Buffer.from([Instruction.Deposit]);
-    const amountBuffer = Buffer.alloc(8);
-    amountBuffer.writeBigUInt64LE(this.amount);
-    return Buffer.concat([discriminator, amountBuffer]);
-  }
-}
-
-// 取款指令数据结构
-class WithdrawInstruction {
-  serialize(): Buffer {
-    return Buffer.from([Instruction.Withdraw]);
-  }
-}
-
 describe("Pinocchio Demo 最终测试", () => {
-  const connection = new Connection("http://localhost:8899", "confirmed");
+  let harness: TestHarness;
   let owner: Keypair;
   let vaultPda: PublicKey;
   let vaultBump: number;
 
   before(async () => {
+    // 启动进程内测试环境，无需本地验证器
+    harness = await startTestHarness();
+
     // 创建测试账户
     owner = Keypair.generate();
 
     // 为测试账户空投 SOL
-    const airdropSignature = await connection.requestAirdrop(
-      owner.publicKey,
-      2 * LAMPORTS_PER_SOL,
-    );
-    await connection.confirmTransaction(airdropSignature);
+    await harness.airdrop(owner.publicKey, 2 * LAMPORTS_PER_SOL);
 
     console.log("测试账户创建完成:", owner.publicKey.toBase58());
 
@@ -71,56 +44,16 @@ describe("Pinocchio Demo 最终测试", () => {
     console.log("Vault Bump:", vaultBump);
   });
 
-  // 创建存款指令
-  function createDepositInstruction(
-    owner: PublicKey,
-    vaultPda: PublicKey,
-    amount: bigint,
-  ): TransactionInstruction {
-    const depositInstruction = new DepositInstruction(amount);
-    const instructionData = depositInstruction.serialize();
-
-    return new TransactionInstruction({
-      keys: [
-        { pubkey: owner, isSigner: true, isWritable: true },
-        { pubkey: vaultPda, isSigner: false, isWritable: true },
-        { pubkey: PROGRAM_ID, isSigner: false, isWritable: false },
-        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
-      ],
-      programId: PROGRAM_ID,
-      data: instructionData,
-    });
-  }
-
-  // 创建取款指令
-  function createWithdrawInstruction(
-    owner: PublicKey,
-    vaultPda: PublicKey,
-  ): TransactionInstruction {
-    const withdrawInstruction = new WithdrawInstruction();
-    const instructionData = withdrawInstruction.serialize();
-
-    return new TransactionInstruction({
-      keys: [
-        { pubkey: owner, isSigner: true, isWritable: true },
-        { pubkey: vaultPda, isSigner: false, isWritable: true },
-        { pubkey: PROGRAM_ID, isSigner: false, isWritable: false },
-      ],
-      programId: PROGRAM_ID,
-      data: instructionData,
-    });
-  }
-
   describe("环境验证", () => {
     it("应该验证程序已部署", async () => {
-      const programInfo = await connection.getAccountInfo(PROGRAM_ID);
+      const programInfo = await harness.getAccount(PROGRAM_ID);
       assert.isNotNull(programInfo, "程序应该已部署");
       assert.isTrue(programInfo.executable, "程序应该是可执行的");
       console.log("程序数据长度:", programInfo.data.length);
     });
 
     it("应该验证测试账户有足够余额", async () => {
-      const balance = await connection.getBalance(owner.publicKey);
+      const balance = Number(await harness.getBalance(owner.publicKey));
       console.log("测试账户余额:", balance / LAMPORTS_PER_SOL, "SOL");
       assert.isAtLeast(balance, LAMPORTS_PER_SOL, "测试账户应该有足够的SOL");
     });
@@ -130,25 +63,22 @@ describe("Pinocchio Demo 最终测试", () => {
     it("应该成功执行存款交易", async () => {
       const depositAmount = BigInt(1000000); // 0.001 SOL
 
-      const depositInstruction = createDepositInstruction(
-        owner.publicKey,
-        vaultPda,
-        depositAmount,
-      );
+      const depositInstruction = createDepositInstruction({
+        owner: owner.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+        amount: depositAmount,
+      });
 
       const transaction = new Transaction().add(depositInstruction);
 
       try {
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [owner],
-        );
+        const signature = await harness.sendTransaction(transaction, [owner]);
 
         console.log("存款交易成功:", signature);
 
         // 验证 vault 余额
-        const vaultAccount = await connection.getAccountInfo(vaultPda);
+        const vaultAccount = await harness.getAccount(vaultPda);
         assert.isNotNull(vaultAccount, "Vault 账户应该存在");
 
         // 验证 vault 被程序拥有
@@ -165,7 +95,6 @@ describe("Pinocchio Demo 最终测试", () => {
           Number(depositAmount),
           "Vault 余额应该至少包含存款金额",
         );
-
       } catch (error) {
         console.error("存款交易失败:", error);
         throw error;
@@ -175,27 +104,23 @@ describe("Pinocchio Demo 最终测试", () => {
     it("应该支持多次存款", async () => {
       const additionalDeposit = BigInt(500000); // 0.0005 SOL
 
-      const depositInstruction = createDepositInstruction(
-        owner.publicKey,
-        vaultPda,
-        additionalDeposit,
-      );
+      const depositInstruction = createDepositInstruction({
+        owner: owner.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+        amount: additionalDeposit,
+      });
 
       const transaction = new Transaction().add(depositInstruction);
 
       try {
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [owner],
-        );
+        const signature = await harness.sendTransaction(transaction, [owner]);
 
         console.log("第二次存款成功:", signature);
 
         // 验证余额增加
-        const vaultAccount = await connection.getAccountInfo(vaultPda);
+        const vaultAccount = await harness.getAccount(vaultPda);
         console.log("第二次存款后余额:", vaultAccount.lamports);
-
       } catch (error) {
         console.error("第二次存款失败:", error);
         throw error;
@@ -205,16 +130,17 @@ describe("Pinocchio Demo 最终测试", () => {
     it("应该拒绝零金额存款", async () => {
       const zeroAmount = BigInt(0);
 
-      const depositInstruction = createDepositInstruction(
-        owner.publicKey,
-        vaultPda,
-        zeroAmount,
-      );
+      const depositInstruction = createDepositInstruction({
+        owner: owner.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+        amount: zeroAmount,
+      });
 
       const transaction = new Transaction().add(depositInstruction);
 
       try {
-        await sendAndConfirmTransaction(connection, transaction, [owner]);
+        await harness.sendTransaction(transaction, [owner]);
         assert.fail("应该拒绝零金额存款");
       } catch (error) {
         console.log("预期错误（零金额被拒绝）:", error.message);
@@ -230,8 +156,10 @@ describe("Pinocchio Demo 最终测试", () => {
   describe("取款功能测试", () => {
     it("应该成功从 vault 取款", async () => {
       // 获取取款前的余额
-      const ownerBalanceBefore = await connection.getBalance(owner.publicKey);
-      const vaultBalanceBefore = await connection.getBalance(vaultPda);
+      const ownerBalanceBefore = Number(
+        await harness.getBalance(owner.publicKey),
+      );
+      const vaultBalanceBefore = Number(await harness.getBalance(vaultPda));
 
       console.log(
         `取款前 - 所有者余额: ${ownerBalanceBefore / LAMPORTS_PER_SOL} SOL`,
@@ -240,25 +168,24 @@ describe("Pinocchio Demo 最终测试", () => {
         `取款前 - Vault 余额: ${vaultBalanceBefore / LAMPORTS_PER_SOL} SOL`,
       );
 
-      const withdrawInstruction = createWithdrawInstruction(
-        owner.publicKey,
-        vaultPda,
-      );
+      const withdrawInstruction = createWithdrawInstruction({
+        owner: owner.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+      });
 
       const transaction = new Transaction().add(withdrawInstruction);
 
       try {
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [owner],
-        );
+        const signature = await harness.sendTransaction(transaction, [owner]);
 
         console.log("取款交易成功:", signature);
 
         // 验证余额变化
-        const ownerBalanceAfter = await connection.getBalance(owner.publicKey);
-        const vaultBalanceAfter = await connection.getBalance(vaultPda);
+        const ownerBalanceAfter = Number(
+          await harness.getBalance(owner.publicKey),
+        );
+        const vaultBalanceAfter = Number(await harness.getBalance(vaultPda));
 
         console.log(
           `取款后 - 所有者余额: ${ownerBalanceAfter / LAMPORTS_PER_SOL} SOL`,
@@ -276,7 +203,6 @@ describe("Pinocchio Demo 最终测试", () => {
 
         // 验证 vault 保留租金最低限额
         assert.isAtLeast(vaultBalanceAfter, 0, "Vault 应该保留租金最低限额");
-
       } catch (error) {
         console.error("取款交易失败:", error);
         throw error;
@@ -287,30 +213,28 @@ describe("Pinocchio Demo 最终测试", () => {
       const unauthorizedUser = Keypair.generate();
 
       // 为未授权用户空投 SOL
-      const airdropSignature = await connection.requestAirdrop(
-        unauthorizedUser.publicKey,
-        LAMPORTS_PER_SOL,
-      );
-      await connection.confirmTransaction(airdropSignature);
+      await harness.airdrop(unauthorizedUser.publicKey, LAMPORTS_PER_SOL);
 
-      const withdrawInstruction = createWithdrawInstruction(
-        unauthorizedUser.publicKey,
-        vaultPda,
-      );
+      const withdrawInstruction = createWithdrawInstruction({
+        owner: unauthorizedUser.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+      });
 
       const transaction = new Transaction().add(withdrawInstruction);
 
       try {
-        await sendAndConfirmTransaction(connection, transaction, [
-          unauthorizedUser,
-        ]);
+        await harness.sendTransaction(transaction, [unauthorizedUser]);
         assert.fail("应该拒绝非所有者取款");
       } catch (error) {
         console.log("预期错误（非所有者取款被拒绝）:", error.message);
+        // 其他签名者的 vault PDA 与该 vault 地址不一致
         assert.include(
           error.message,
-          "InvalidAccountOwner",
-          "应该返回无效账户所有者错误",
+          `custom program error: 0x${PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS.toString(16)}`,
+          getPinocchioDemoErrorMessage(
+            PINOCCHIO_DEMO_ERROR__INVALID_VAULT_ADDRESS,
+          ),
         );
       }
     });
@@ -321,11 +245,7 @@ describe("Pinocchio Demo 最终测试", () => {
       const testOwner = Keypair.generate();
 
       // 为测试账户空投 SOL
-      const airdropSignature = await connection.requestAirdrop(
-        testOwner.publicKey,
-        2 * LAMPORTS_PER_SOL,
-      );
-      await connection.confirmTransaction(airdropSignature);
+      await harness.airdrop(testOwner.publicKey, 2 * LAMPORTS_PER_SOL);
 
       // 派生新的 vault PDA
       const [testVaultPda] = PublicKey.findProgramAddressSync(
@@ -336,36 +256,39 @@ describe("Pinocchio Demo 最终测试", () => {
       const depositAmount = BigInt(800000); // 0.0008 SOL
 
       // 存款
-      const depositInstruction = createDepositInstruction(
-        testOwner.publicKey,
-        testVaultPda,
-        depositAmount,
-      );
+      const depositInstruction = createDepositInstruction({
+        owner: testOwner.publicKey,
+        vault: testVaultPda,
+        program: PROGRAM_ID,
+        amount: depositAmount,
+      });
 
-      await sendAndConfirmTransaction(
-        connection,
-        new Transaction().add(depositInstruction),
-        [testOwner],
-      );
+      await harness.sendTransaction(new Transaction().add(depositInstruction), [
+        testOwner,
+      ]);
 
       // 验证存款成功
-      const vaultBalanceAfterDeposit = await connection.getBalance(testVaultPda);
+      const vaultBalanceAfterDeposit = Number(
+        await harness.getBalance(testVaultPda),
+      );
       console.log("存款后余额:", vaultBalanceAfterDeposit);
 
       // 取款
-      const withdrawInstruction = createWithdrawInstruction(
-        testOwner.publicKey,
-        testVaultPda,
-      );
+      const withdrawInstruction = createWithdrawInstruction({
+        owner: testOwner.publicKey,
+        vault: testVaultPda,
+        program: PROGRAM_ID,
+      });
 
-      await sendAndConfirmTransaction(
-        connection,
+      await harness.sendTransaction(
         new Transaction().add(withdrawInstruction),
         [testOwner],
       );
 
       // 验证取款成功
-      const vaultBalanceAfterWithdraw = await connection.getBalance(testVaultPda);
+      const vaultBalanceAfterWithdraw = Number(
+        await harness.getBalance(testVaultPda),
+      );
       console.log("取款后余额:", vaultBalanceAfterWithdraw);
 
       console.log("完整流程测试完成");
@@ -3,47 +3,24 @@ import {
   Keypair,
   LAMPORTS_PER_SOL,
   PublicKey,
-  SystemProgram,
   Transaction,
-  TransactionInstruction,
   sendAndConfirmTransaction,
 } from "@solana/web3.js";
 import { assert } from "chai";
+import {
+  createDepositInstruction,
+  createWithdrawInstruction,
+  DEPOSIT_DISCRIMINATOR,
+  encodeDepositInstructionData,
+  encodeWithdrawInstructionData,
+  WITHDRAW_DISCRIMINATOR,
+} from "./clients/web3js/src/generated";
 
 // 使用实际部署的程序 ID
 const PROGRAM_ID = new PublicKey(
   "H4x4y6keRumc5tR2Ndg3NEtsVUgUcdxYB9fKTrcqBBJ9",
 );
 
-// 指令枚举
-const Instruction = {
-  Deposit: 0,
-  Withdraw: 1,
-} as const;
-
-// 存款指令数据结构
-class DepositInstruction {
-  amount: bigint;
-
-  constructor(amount: bigint) {
-    this.amount = amount;
-  }
-
-  serialize(): Buffer {
-    const discriminator = Buffer.from([Instruction.Deposit]);
-    const amountBuffer = Buffer.alloc(8);
-    amountBuffer.writeBigUInt64LE(this.amount);
-    return Buffer.concat([discriminator, amountBuffer]);
-  }
-}
-
-// 取款指令数据结构
-class WithdrawInstruction {
-  serialize(): Buffer {
-    return Buffer.from([Instruction.Withdraw]);
-  }
-}
-
 describe("Pinocchio Demo 简化测试", () => {
   const connection = new Connection("http://localhost:8899", "confirmed");
   let owner: Keypair;
@@ -73,46 +50,6 @@ describe("Pinocchio Demo 简化测试", () => {
     console.log("Vault Bump:", vaultBump);
   });
 
-  // 创建存款指令
-  function createDepositInstruction(
-    owner: PublicKey,
-    vaultPda: PublicKey,
-    amount: bigint,
-  ): TransactionInstruction {
-    const depositInstruction = new DepositInstruction(amount);
-    const instructionData = depositInstruction.serialize();
-
-    return new TransactionInstruction({
-      keys: [
-        { pubkey: owner, isSigner: true, isWritable: true },
-        { pubkey: vaultPda, isSigner: false, isWritable: true },
-        { pubkey: PROGRAM_ID, isSigner: false, isWritable: false },
-        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
-      ],
-      programId: PROGRAM_ID,
-      data: instructionData,
-    });
-  }
-
-  // 创建取款指令
-  function createWithdrawInstruction(
-    owner: PublicKey,
-    vaultPda: PublicKey,
-  ): TransactionInstruction {
-    const withdrawInstruction = new WithdrawInstruction();
-    const instructionData = withdrawInstruction.serialize();
-
-    return new TransactionInstruction({
-      keys: [
-        { pubkey: owner, isSigner: true, isWritable: true },
-        { pubkey: vaultPda, isSigner: false, isWritable: true },
-        { pubkey: PROGRAM_ID, isSigner: false, isWritable: false },
-      ],
-      programId: PROGRAM_ID,
-      data: instructionData,
-    });
-  }
-
   describe("环境验证", () => {
     it("应该验证程序已部署", async () => {
       const programInfo = await connection.getAccountInfo(PROGRAM_ID);
@@ -151,13 +88,14 @@ describe("Pinocchio Demo 简化测试", () => {
   describe("指令编码测试", () => {
     it("应该正确编码存款指令", () => {
       const depositAmount = BigInt(1000000);
-      const depositInstruction = new DepositInstruction(depositAmount);
-      const instructionData = depositInstruction.serialize();
+      const instructionData = encodeDepositInstructionData({
+        amount: depositAmount,
+      });
 
       assert.equal(instructionData.length, 9, "存款指令数据长度应为9字节");
       assert.equal(
         instructionData[0],
-        Instruction.Deposit,
+        DEPOSIT_DISCRIMINATOR,
         "第一个字节应为存款指令标识符",
       );
 
@@ -166,13 +104,12 @@ describe("Pinocchio Demo 简化测试", () => {
     });
 
     it("应该正确编码取款指令", () => {
-      const withdrawInstruction = new WithdrawInstruction();
-      const instructionData = withdrawInstruction.serialize();
+      const instructionData = encodeWithdrawInstructionData();
 
       assert.equal(instructionData.length, 1, "取款指令数据长度应为1字节");
       assert.equal(
         instructionData[0],
-        Instruction.Withdraw,
+        WITHDRAW_DISCRIMINATOR,
         "字节应为取款指令标识符",
       );
     });
@@ -182,11 +119,12 @@ describe("Pinocchio Demo 简化测试", () => {
     it("应该尝试存款操作", async () => {
       const depositAmount = BigInt(1000000);
 
-      const depositInstruction = createDepositInstruction(
-        owner.publicKey,
-        vaultPda,
-        depositAmount,
-      );
+      const depositInstruction = createDepositInstruction({
+        owner: owner.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+        amount: depositAmount,
+      });
 
       const transaction = new Transaction().add(depositInstruction);
 
@@ -204,10 +142,11 @@ describe("Pinocchio Demo 简化测试", () => {
     });
 
     it("应该尝试取款操作", async () => {
-      const withdrawInstruction = createWithdrawInstruction(
-        owner.publicKey,
-        vaultPda,
-      );
+      const withdrawInstruction = createWithdrawInstruction({
+        owner: owner.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+      });
 
       const transaction = new Transaction().add(withdrawInstruction);
 
@@ -229,11 +168,12 @@ describe("Pinocchio Demo 简化测试", () => {
     it("应该拒绝零金额存款", async () => {
       const zeroAmount = BigInt(0);
 
-      const depositInstruction = createDepositInstruction(
-        owner.publicKey,
-        vaultPda,
-        zeroAmount,
-      );
+      const depositInstruction = createDepositInstruction({
+        owner: owner.publicKey,
+        vault: vaultPda,
+        program: PROGRAM_ID,
+        amount: zeroAmount,
+      });
 
       const transaction = new Transaction().add(depositInstruction);
 